@@ -0,0 +1,122 @@
+/**
+ * Command-line commands that run instead of the MCP server:
+ *
+ *   aztec-mcp export-bundle <file> [--version <version>]
+ *   aztec-mcp import-bundle <file> [--force]
+ *
+ * and the options of the server itself:
+ *
+ *   aztec-mcp [--transport stdio|http] [--host <address>] [--port <port>]
+ */
+
+import { exportBundle, importBundle } from "./tools/index.js";
+import { formatBundleResult } from "./utils/format.js";
+
+const USAGE = `Usage:
+  aztec-mcp                                            Start the MCP server (stdio)
+  aztec-mcp --transport http [--host <address>] [--port <port>]
+                                                       Serve Streamable HTTP on /mcp and SSE on /sse
+  aztec-mcp export-bundle <file> [--version <version>] Pack a synced version for offline use
+  aztec-mcp import-bundle <file> [--force]             Install a version from a bundle`;
+
+/** Server options when run without a command */
+export interface ServeOptions {
+  transport: "stdio" | "http";
+  /** Address the HTTP server binds to */
+  host: string;
+  port: number;
+  /** Bearer token HTTP clients must send (AZTEC_MCP_AUTH_TOKEN); unset allows anyone who can connect */
+  authToken?: string;
+}
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3000;
+
+/**
+ * Server options from the command line, falling back to AZTEC_MCP_TRANSPORT,
+ * AZTEC_MCP_HOST, and AZTEC_MCP_PORT. Throws with the usage on bad arguments.
+ */
+export function parseServeOptions(args: string[], env: NodeJS.ProcessEnv = process.env): ServeOptions {
+  const values: Record<string, string | undefined> = {
+    transport: env.AZTEC_MCP_TRANSPORT,
+    host: env.AZTEC_MCP_HOST,
+    port: env.AZTEC_MCP_PORT,
+  };
+
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i].replace(/^--/, "");
+    if (!args[i].startsWith("--") || !(name in values) || args[i + 1] === undefined) {
+      throw new Error(`Unexpected argument '${args[i]}'\n\n${USAGE}`);
+    }
+    values[name] = args[i + 1];
+  }
+
+  const transport = values.transport || "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown transport '${transport}'. Use 'stdio' or 'http'.`);
+  }
+
+  const port = values.port ? Number(values.port) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${values.port}'`);
+  }
+
+  return {
+    transport,
+    host: values.host || DEFAULT_HOST,
+    port,
+    authToken: env.AZTEC_MCP_AUTH_TOKEN || undefined,
+  };
+}
+
+/**
+ * Run a CLI command. Returns the exit code, or null when the arguments
+ * aren't a command and the server should start.
+ */
+export async function runCli(args: string[]): Promise<number | null> {
+  const [command, ...rest] = args;
+  const positional = rest.filter((arg, i) => !arg.startsWith("--") && rest[i - 1] !== "--version");
+  const flag = (name: string) => rest.includes(`--${name}`);
+  const option = (name: string) => {
+    const i = rest.indexOf(`--${name}`);
+    return i >= 0 ? rest[i + 1] : undefined;
+  };
+
+  switch (command) {
+    case "export-bundle": {
+      if (positional.length !== 1 || (flag("version") && !option("version"))) {
+        console.error(USAGE);
+        return 2;
+      }
+      const result = await exportBundle({ path: positional[0], version: option("version") });
+      return report(result);
+    }
+
+    case "import-bundle": {
+      if (positional.length !== 1) {
+        console.error(USAGE);
+        return 2;
+      }
+      const result = await importBundle({ path: positional[0], force: flag("force") });
+      return report(result);
+    }
+
+    case "help":
+    case "--help":
+    case "-h":
+      console.log(USAGE);
+      return 0;
+
+    default:
+      return null;
+  }
+}
+
+function report(result: { success: boolean; version?: string; repos: string[]; message: string }): number {
+  if (result.success) {
+    console.log(formatBundleResult(result));
+    return 0;
+  }
+  console.error(result.message);
+  return 1;
+}
@@ -0,0 +1,237 @@
+/**
+ * HTTP transports, for serving a whole team from one host that keeps the
+ * synced repos and indexes: Streamable HTTP on /mcp, and the legacy
+ * HTTP+SSE transport on /sse (with messages posted to /messages).
+ *
+ * Every client session gets its own MCP server from createServer.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/** Largest JSON-RPC request body accepted */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** How long a session may go without requests before it's closed */
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Bearer token clients must send; unset allows anyone who can connect */
+  authToken?: string;
+  /** Close sessions that send no requests for this long (default 30 minutes) */
+  idleTimeoutMs?: number;
+  /** Creates the MCP server for a new session */
+  createServer: () => Server;
+}
+
+/**
+ * Listen for MCP clients over HTTP. Resolves once listening, with the
+ * address and a function that closes every session and the listener.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<{ url: string; sessions: () => number; close: () => Promise<void> }> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  const checkToken = options.authToken ? tokenChecker(options.authToken) : null;
+  let allowedHosts: string[] | null = null;
+
+  // Clients can disappear without closing their session, so close sessions that go quiet
+  const idleTimers = new Map<Transport, NodeJS.Timeout>();
+  const expireWhenIdle = (transport: Transport) => {
+    clearTimeout(idleTimers.get(transport));
+    const timer = setTimeout(
+      () => void transport.close().catch(() => {}),
+      options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+    );
+    timer.unref();
+    idleTimers.set(transport, timer);
+  };
+  /** Restart an open session's idle timer when a request starts and when its response ends */
+  const keepAlive = (transport: Transport, res: ServerResponse) => {
+    const touch = () => {
+      if (idleTimers.has(transport)) expireWhenIdle(transport);
+    };
+    touch();
+    res.on("close", touch);
+  };
+  const forget = (transport: Transport) => {
+    clearTimeout(idleTimers.get(transport));
+    idleTimers.delete(transport);
+  };
+
+  const http = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("HTTP request failed:", error instanceof Error ? error.message : error);
+      if (!res.headersSent) {
+        sendError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    // A page in a browser could otherwise reach a server on localhost through DNS rebinding
+    if (allowedHosts && !allowedHosts.includes(req.headers.host ?? "")) {
+      sendError(res, 403, -32000, `Host '${req.headers.host}' is not allowed`);
+      return;
+    }
+    if (checkToken && !checkToken(req.headers.authorization)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="aztec-mcp"');
+      sendError(res, 401, -32001, "Missing or invalid bearer token");
+      return;
+    }
+
+    if (url.pathname === "/mcp") {
+      const sessionId = req.headers["mcp-session-id"];
+      const body = req.method === "POST" ? await readJsonBody(req, res) : undefined;
+      if (body === INVALID_BODY) return;
+
+      const existing = typeof sessionId === "string" ? streamable.get(sessionId) : undefined;
+      if (existing) {
+        keepAlive(existing, res);
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId !== undefined) {
+        sendError(res, 404, -32001, "Session not found. Initialize a new session.");
+        return;
+      }
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        sendError(res, 400, -32000, "No session. Send an initialize request without an Mcp-Session-Id header first.");
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamable.set(id, transport);
+          expireWhenIdle(transport);
+        },
+      });
+      // The server's own close handler runs too, dropping it from the servers that hear about changes
+      transport.onclose = () => {
+        if (transport.sessionId) streamable.delete(transport.sessionId);
+        forget(transport);
+      };
+      await options.createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+
+      // An initialize request the transport rejected leaves a server no client can reach
+      if (!transport.sessionId) {
+        await transport.close();
+      }
+      return;
+    }
+
+    if (url.pathname === "/sse" && req.method === "GET") {
+      const transport = new SSEServerTransport("/messages", res);
+      const server = options.createServer();
+      sse.set(transport.sessionId, transport);
+      expireWhenIdle(transport);
+      res.on("close", () => {
+        sse.delete(transport.sessionId);
+        forget(transport);
+        void server.close();
+      });
+      await server.connect(transport);
+      return;
+    }
+
+    if (url.pathname === "/messages" && req.method === "POST") {
+      const transport = sse.get(url.searchParams.get("sessionId") ?? "");
+      if (!transport) {
+        sendError(res, 404, -32001, "Session not found. Open a new stream on /sse.");
+        return;
+      }
+      const body = await readJsonBody(req, res);
+      if (body === INVALID_BODY) return;
+      keepAlive(transport, res);
+      await transport.handlePostMessage(req, res, body);
+      return;
+    }
+
+    sendError(res, 404, -32601, `Not found: ${req.method} ${url.pathname}. MCP is served on /mcp (and /sse).`);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    http.once("error", reject);
+    http.listen(options.port, options.host, () => {
+      http.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = http.address() as AddressInfo;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+  if (LOOPBACK_HOSTS.includes(options.host)) {
+    allowedHosts = ["127.0.0.1", "localhost", "[::1]"].map((name) => `${name}:${port}`);
+  }
+
+  return {
+    url: `http://${host}:${port}`,
+    sessions: () => streamable.size + sse.size,
+    close: async () => {
+      for (const transport of [...streamable.values(), ...sse.values()]) {
+        await transport.close().catch(() => {});
+      }
+      http.closeAllConnections();
+      await new Promise<void>((resolve) => http.close(() => resolve()));
+    },
+  };
+}
+
+// --- Helper functions ---
+
+/** readJsonBody result when an error response was already sent */
+const INVALID_BODY = Symbol("invalid body");
+
+async function readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      sendError(res, 413, -32600, `Request body over ${MAX_BODY_BYTES} bytes`);
+      return INVALID_BODY;
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    sendError(res, 400, -32700, "Parse error: the body is not JSON");
+    return INVALID_BODY;
+  }
+}
+
+/**
+ * Compare Authorization headers against the token in constant time
+ */
+function tokenChecker(token: string): (header: string | undefined) => boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  const expected = digest(token);
+  return (header) => {
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    return !!match && timingSafeEqual(digest(match[1].trim()), expected);
+  };
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
@@ -2,6 +2,8 @@
  * Configuration for Aztec repositories to clone and search
  */
 
+import { DEFAULT_PROMPTS_DIR, loadUserConfig, UserConfig, VersionTagRule } from "./overrides.js";
+
 export interface RepoConfig {
   /** Unique name for the repo */
   name: string;
@@ -24,13 +26,23 @@ export interface RepoConfig {
   };
 }
 
+/**
+ * A repository before an Aztec version is applied
+ */
+export interface RepoDefinition extends Omit<RepoConfig, "tag"> {
+  /** Tag to check out regardless of version */
+  tag?: string;
+  /** How the repo follows the Aztec version (default: true for AztecProtocol repos) */
+  versionTag?: VersionTagRule;
+}
+
 /** Default Aztec version (tag) to use - can be overridden via AZTEC_DEFAULT_VERSION env var */
 export const DEFAULT_AZTEC_VERSION = process.env.AZTEC_DEFAULT_VERSION || "v3.0.0-devnet.6-patch.1";
 
 /**
  * Base Aztec repository configurations (without version)
  */
-const BASE_REPOS: Omit<RepoConfig, "tag">[] = [
+const BASE_REPOS: RepoDefinition[] = [
   {
     name: "aztec-packages",
     url: "https://github.com/AztecProtocol/aztec-packages",
@@ -114,6 +126,98 @@ const BASE_REPOS: Omit<RepoConfig, "tag">[] = [
   },
 ];
 
+/**
+ * Apply a user config to repository definitions: entries for known repos
+ * override their settings, new names add repos, and `disabled` drops them
+ */
+export function applyUserConfig(base: RepoDefinition[], config: UserConfig | null): RepoDefinition[] {
+  if (!config) {
+    return base;
+  }
+
+  const repos = base.map((repo) => ({ ...repo }));
+
+  for (const [name, { disabled, ...override }] of Object.entries(config.repos)) {
+    const index = repos.findIndex((repo) => repo.name === name);
+    if (disabled) {
+      if (index >= 0) repos.splice(index, 1);
+      continue;
+    }
+
+    if (index >= 0) {
+      const repo = repos[index];
+      repos[index] = {
+        ...repo,
+        ...override,
+        searchPatterns: override.searchPatterns
+          ? { ...repo.searchPatterns, ...override.searchPatterns }
+          : repo.searchPatterns,
+      };
+    } else {
+      if (!override.url) {
+        throw new Error(`Invalid config file ${config.path}: repos.${name} is a new repository and needs a url`);
+      }
+      repos.push({ ...override, name, url: override.url, description: override.description ?? override.url });
+    }
+  }
+
+  return repos;
+}
+
+let configError: Error | null = null;
+let userConfig: UserConfig | null = null;
+
+/**
+ * Load the repository definitions: the built-in repos with the user config
+ * applied. An invalid config is remembered for getConfigError, and the
+ * built-in repos are used until it is fixed.
+ */
+function loadRepoDefinitions(): RepoDefinition[] {
+  try {
+    userConfig = loadUserConfig();
+    return applyUserConfig(BASE_REPOS, userConfig);
+  } catch (error) {
+    configError = error instanceof Error ? error : new Error(String(error));
+    return BASE_REPOS;
+  }
+}
+
+const REPO_DEFINITIONS = loadRepoDefinitions();
+
+/**
+ * The problem with the user config file, if it could not be loaded
+ */
+export function getConfigError(): Error | null {
+  return configError;
+}
+
+/**
+ * Project directories listed under `workspaces` in the user config file
+ */
+export function getConfiguredWorkspaces(): string[] {
+  return userConfig?.workspaces ?? [];
+}
+
+/**
+ * Directory of team prompt templates: the `prompts` setting in the user
+ * config file, else ~/.aztec-mcp/prompts
+ */
+export function getPromptsDir(): string {
+  return userConfig?.prompts ?? DEFAULT_PROMPTS_DIR;
+}
+
+/**
+ * Resolve a repo's tag for an Aztec version from its version-tag rule
+ */
+function versionTagFor(repo: RepoDefinition, version: string): string | undefined {
+  // Only Aztec repos follow the version by default, not Noir repos
+  const rule = repo.versionTag ?? repo.url.includes("AztecProtocol");
+  if (repo.tag || rule === false) {
+    return repo.tag;
+  }
+  return rule === true ? version : rule.replaceAll("{version}", version);
+}
+
 /**
  * Get Aztec repositories configured for a specific version
  * @param version - The Aztec version tag (e.g., "v3.0.0-devnet.6-patch.1")
@@ -121,11 +225,10 @@ const BASE_REPOS: Omit<RepoConfig, "tag">[] = [
 export function getAztecRepos(version?: string): RepoConfig[] {
   const tag = version || DEFAULT_AZTEC_VERSION;
 
-  return BASE_REPOS.map((repo) => ({
-    ...repo,
-    // Only apply version tag to Aztec repos, not Noir repos
-    tag: repo.url.includes("AztecProtocol") ? tag : undefined,
-  }));
+  return REPO_DEFINITIONS.map((repo) => {
+    const { versionTag, ...config } = repo;
+    return { ...config, tag: versionTagFor(repo, tag) };
+  });
 }
 
 /**
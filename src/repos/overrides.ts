@@ -0,0 +1,193 @@
+/**
+ * User config file - adds, overrides, or disables repositories without
+ * forking the package. JSON or YAML:
+ *
+ *   repos:
+ *     aztec-pay:
+ *       disabled: true
+ *     aztec-packages:
+ *       sparse: [docs/docs, noir-projects/aztec-nr]
+ *     our-noir-lib:
+ *       url: https://github.com/our-org/our-noir-lib
+ *       description: Internal Noir library
+ *       versionTag: "aztec-{version}"
+ *   workspaces:
+ *     - ~/code/my-aztec-app
+ *   prompts: ./team-prompts
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, extname, join, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { isPlainObject, isStringList } from "../utils/guards.js";
+
+/** Config file locations tried, in order, when AZTEC_MCP_CONFIG isn't set */
+const DEFAULT_CONFIG_FILES = ["config.yaml", "config.yml", "config.json"].map((file) =>
+  join(homedir(), ".aztec-mcp", file)
+);
+
+/** Team prompt templates are read from here unless the config file sets 'prompts' */
+export const DEFAULT_PROMPTS_DIR = join(homedir(), ".aztec-mcp", "prompts");
+
+/**
+ * How a repo follows the requested Aztec version: true checks out the
+ * version tag itself, a string is a tag template where "{version}" is
+ * replaced (e.g. "aztec-{version}"), and false keeps the repo's own ref
+ */
+export type VersionTagRule = boolean | string;
+
+export interface RepoOverride {
+  url?: string;
+  branch?: string;
+  tag?: string;
+  commit?: string;
+  sparse?: string[];
+  description?: string;
+  searchPatterns?: {
+    code?: string[];
+    docs?: string[];
+  };
+  versionTag?: VersionTagRule;
+  /** Leave the repo out entirely */
+  disabled?: boolean;
+}
+
+export interface UserConfig {
+  /** Config file the settings were read from */
+  path: string;
+  repos: Record<string, RepoOverride>;
+  /** Project directories to search alongside the repos (absolute) */
+  workspaces: string[];
+  /** Directory of team prompt templates (absolute) */
+  prompts?: string;
+}
+
+/**
+ * Path of the user config file: AZTEC_MCP_CONFIG, else the first default
+ * location that exists, else null
+ */
+export function getUserConfigPath(): string | null {
+  if (process.env.AZTEC_MCP_CONFIG) {
+    return process.env.AZTEC_MCP_CONFIG;
+  }
+  return DEFAULT_CONFIG_FILES.find((file) => existsSync(file)) ?? null;
+}
+
+/**
+ * Read and validate the user config file. Returns null when there is none;
+ * throws with the file and the offending setting when it is invalid.
+ */
+export function loadUserConfig(path: string | null = getUserConfigPath()): UserConfig | null {
+  if (!path) {
+    return null;
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new Error(`Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return parseUserConfig(source, path);
+}
+
+/**
+ * Parse and validate config file contents. JSON files are parsed as JSON,
+ * anything else as YAML (which also accepts JSON).
+ */
+export function parseUserConfig(source: string, path: string): UserConfig {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid config file ${path}: ${problem}`);
+  };
+
+  let data: unknown;
+  try {
+    data = extname(path) === ".json" ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+
+  // An empty file is a valid (empty) config
+  if (data === null || data === undefined) {
+    return { path, repos: {}, workspaces: [] };
+  }
+  if (!isPlainObject(data)) {
+    return fail("expected an object with 'repos', 'workspaces', and/or 'prompts' keys");
+  }
+  for (const key of Object.keys(data)) {
+    if (key !== "repos" && key !== "workspaces" && key !== "prompts") fail(`unknown setting '${key}'`);
+  }
+  const { repos: repoEntries = {}, workspaces: workspaceDirs = [], prompts } = data;
+  if (!isStringList(workspaceDirs)) {
+    return fail("'workspaces' must be a list of directories");
+  }
+  if (prompts !== undefined && (typeof prompts !== "string" || !prompts)) {
+    return fail("'prompts' must be a directory");
+  }
+  if (!isPlainObject(repoEntries)) {
+    return fail("'repos' must map repository names to settings");
+  }
+
+  const repos: Record<string, RepoOverride> = {};
+  for (const [name, entry] of Object.entries(repoEntries)) {
+    const at = `repos.${name}`;
+    if (!/^\w[\w.-]*$/.test(name)) {
+      fail(`'${name}' is not a valid repository name (letters, digits, '.', '-', '_')`);
+    }
+    if (name === "workspace") {
+      fail("'workspace' is reserved for project workspaces and can't be used as a repository name");
+    }
+    if (!isPlainObject(entry)) {
+      return fail(`${at} must be an object`);
+    }
+
+    for (const [key, value] of Object.entries(entry)) {
+      switch (key) {
+        case "url":
+        case "branch":
+        case "tag":
+        case "commit":
+        case "description":
+          if (typeof value !== "string" || !value) fail(`${at}.${key} must be a non-empty string`);
+          break;
+        case "sparse":
+          if (!isStringList(value)) fail(`${at}.sparse must be a list of paths`);
+          break;
+        case "searchPatterns":
+          if (!isPlainObject(value)) return fail(`${at}.searchPatterns must be an object with 'code' and/or 'docs'`);
+          for (const [kind, patterns] of Object.entries(value)) {
+            if (kind !== "code" && kind !== "docs") fail(`${at}.searchPatterns.${kind} is not 'code' or 'docs'`);
+            if (!isStringList(patterns)) fail(`${at}.searchPatterns.${kind} must be a list of glob patterns`);
+          }
+          break;
+        case "versionTag":
+          if (typeof value !== "boolean" && !(typeof value === "string" && value.includes("{version}"))) {
+            fail(`${at}.versionTag must be true, false, or a tag template containing '{version}'`);
+          }
+          break;
+        case "disabled":
+          if (typeof value !== "boolean") fail(`${at}.disabled must be true or false`);
+          // Versions, docs, and the Noir version all come from aztec-packages
+          if (value && name === "aztec-packages") fail("aztec-packages can't be disabled; every version is read from it");
+          break;
+        default:
+          fail(`${at} has unknown setting '${key}'`);
+      }
+    }
+
+    repos[name] = entry as RepoOverride;
+  }
+
+  // Relative directories are relative to the config file
+  const resolveDir = (dir: string) => resolve(dirname(path), dir.replace(/^~(?=$|\/)/, homedir()));
+  const workspaces = workspaceDirs.map(resolveDir);
+
+  return {
+    path,
+    repos,
+    workspaces,
+    ...(prompts !== undefined ? { prompts: resolveDir(prompts) } : {}),
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * MCP server - tools, resources, and prompts. Each client session gets its
+ * own Server; synced repos, indexes, and workspaces are shared, so a sync
+ * in one session notifies them all.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  RootsListChangedNotificationSchema,
+  ErrorCode,
+  McpError,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { fileURLToPath } from "url";
+
+import { TOOLS, getTool } from "./tools/index.js";
+import { setWorkspaces } from "./utils/workspace.js";
+import { RESOURCE_TEMPLATES, listResources, readResource, resourceDigest } from "./utils/resources.js";
+import { listPrompts, renderPrompt } from "./utils/prompts.js";
+
+/** JSON-RPC error code MCP uses for unknown resources */
+const RESOURCE_NOT_FOUND = -32002;
+
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** State kept per client session */
+interface Session {
+  server: Server;
+  /** Subscribed resource URIs and the digest of their contents when last notified */
+  subscriptions: Map<string, string | null>;
+}
+
+/** Open sessions, which all hear about resources a sync or import changed */
+const sessions = new Set<Session>();
+
+/**
+ * Create a server for one client session. With roots, the client's MCP
+ * roots are registered as workspaces (only meaningful when the client runs
+ * on the same machine). A remote client (over HTTP) doesn't get the tools
+ * that read or write paths anywhere on this machine, and its file paths
+ * must stay in the repos directory.
+ */
+export function createServer(options: { roots?: boolean; remote?: boolean } = {}): Server {
+  const server = new Server(
+    {
+      name: "aztec-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
+      },
+    }
+  );
+  const session: Session = { server, subscriptions: new Map() };
+  sessions.add(session);
+  server.onclose = () => {
+    sessions.delete(session);
+  };
+
+  const remote = options.remote ?? false;
+  server.setRequestHandler(ListToolsRequestSchema, async () => listTools(remote));
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => callTool(request, extra, remote));
+
+  // Resources: docs pages and example contracts, plus URI templates for any synced file
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const page = listResources(request.params?.cursor);
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidParams, "Invalid cursor. Request the first page again.");
+    }
+    return page;
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [readResourceOrThrow(request.params.uri)],
+  }));
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    session.subscriptions.set(request.params.uri, resourceDigest(request.params.uri));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    session.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Prompts: the built-in task prompts and the team's templates
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: loadPrompts().map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments.map((arg) => ({
+        name: arg.name,
+        description: arg.description,
+        required: arg.required,
+      })),
+    })),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    const prompt = loadPrompts().find((p) => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    try {
+      return renderPrompt(prompt, args);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  if (options.roots) {
+    server.oninitialized = () => {
+      void syncRootWorkspaces(server);
+    };
+    server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      await syncRootWorkspaces(server);
+    });
+  }
+
+  return server;
+}
+
+/**
+ * Define available tools
+ */
+const listTools = (remote: boolean) => ({
+  tools: TOOLS.filter((tool) => !(remote && tool.localOnly)).map(
+    ({ name, description, inputSchema, remoteInputSchema, outputSchema }) => ({
+      name,
+      description,
+      inputSchema: remote ? remoteInputSchema : inputSchema,
+      outputSchema,
+    })
+  ),
+});
+
+/**
+ * Handle tool calls
+ */
+const callTool = async (request: CallToolRequest, extra: RequestExtra, remote: boolean) => {
+  const { name, arguments: args } = request.params;
+
+  const tool = getTool(name);
+  if (!tool) {
+    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+  }
+
+  const progressToken = request.params._meta?.progressToken;
+  let progress = 0;
+
+  try {
+    const { text, result } = await tool.call(args, {
+      progress:
+        progressToken === undefined
+          ? undefined
+          : (message) => {
+              // Progress must increase with every notification, so count updates
+              extra
+                .sendNotification({
+                  method: "notifications/progress",
+                  params: { progressToken, progress: ++progress, message },
+                })
+                .catch(() => {
+                  // The client may have gone away; the tool carries on
+                });
+            },
+      changingResources: notifyingResourceChanges,
+      remote,
+    });
+    return {
+      content: [
+        {
+          type: "text",
+          text,
+        },
+      ],
+      structuredContent: result,
+    };
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+// --- Helper functions ---
+
+function readResourceOrThrow(uri: string) {
+  let resource: ReturnType<typeof readResource>;
+  try {
+    resource = readResource(uri);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+  if (!resource) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}. Run aztec_sync_repos if it hasn't been synced.`, {
+      uri,
+    });
+  }
+  return resource;
+}
+
+/**
+ * Run something that replaces synced files, then tell every session the
+ * resource list changed and which of its subscribed resources have new
+ * contents
+ */
+async function notifyingResourceChanges<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } finally {
+    // Sessions subscribed to the same resource share one digest per notification
+    const digests = new Map<string, string | null>();
+    const digestOf = (uri: string) => {
+      if (!digests.has(uri)) digests.set(uri, resourceDigest(uri));
+      return digests.get(uri)!;
+    };
+
+    for (const session of [...sessions]) {
+      const updated = [...session.subscriptions].filter(([uri, digest]) => {
+        const current = digestOf(uri);
+        session.subscriptions.set(uri, current);
+        return current !== digest;
+      });
+
+      // A client may have gone away; the result still stands
+      await session.server.sendResourceListChanged().catch(() => {});
+      for (const [uri] of updated) {
+        await session.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+  }
+}
+
+/**
+ * Prompts are re-read on every request so edited templates apply without
+ * a restart
+ */
+function loadPrompts() {
+  const { prompts, errors } = listPrompts();
+  for (const error of errors) {
+    console.error(error);
+  }
+  return prompts;
+}
+
+/**
+ * Register the client's MCP roots as workspaces, replacing earlier roots.
+ * Set AZTEC_MCP_WORKSPACE_ROOTS=false to ignore roots.
+ */
+async function syncRootWorkspaces(server: Server): Promise<void> {
+  if (process.env.AZTEC_MCP_WORKSPACE_ROOTS === "false" || !server.getClientCapabilities()?.roots) {
+    return;
+  }
+
+  try {
+    const { roots } = await server.listRoots();
+    setWorkspaces(
+      roots.filter((root) => root.uri.startsWith("file://")).map((root) => fileURLToPath(root.uri)),
+      "roots"
+    );
+  } catch (error) {
+    console.error("Could not read MCP roots:", error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Offline bundle tools - move a synced version to a machine without GitHub access
+ */
+
+import { DEFAULT_AZTEC_VERSION } from "../repos/config.js";
+import { createBundle, extractBundle } from "../utils/bundle.js";
+import { withReposLock } from "../utils/git.js";
+import { formatBundleResult } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, object, ObjectSchema, outcome, string } from "./schemas.js";
+
+/**
+ * Pack a synced version (checkouts, manifest, and indexes) into a tarball,
+ * once any running sync or import has finished
+ */
+export async function exportBundle(options: { path: string; version?: string }): Promise<{
+  success: boolean;
+  path: string;
+  version: string;
+  repos: string[];
+  message: string;
+}> {
+  const version = options.version || DEFAULT_AZTEC_VERSION;
+
+  try {
+    const bundle = await withReposLock(() => createBundle(version, options.path));
+    const size = (bundle.bytes / (1024 * 1024)).toFixed(1);
+    return {
+      success: true,
+      path: options.path,
+      version,
+      repos: bundle.repos,
+      message:
+        `Exported ${bundle.repos.length} repositories and ${bundle.indexes.length} indexes ` +
+        `for ${version} to ${options.path} (${size} MB)`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      path: options.path,
+      version,
+      repos: [],
+      message: `Export failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Install the version packed in a bundle from aztec_export_bundle, once any
+ * running sync or import has finished
+ */
+export async function importBundle(options: { path: string; force?: boolean }): Promise<{
+  success: boolean;
+  path: string;
+  version?: string;
+  repos: string[];
+  message: string;
+}> {
+  try {
+    const bundle = await withReposLock(() => extractBundle(options.path, { force: options.force }));
+    return {
+      success: true,
+      path: options.path,
+      version: bundle.version,
+      repos: bundle.repos,
+      message:
+        `Imported ${bundle.repos.length} repositories and ${bundle.indexes.length} indexes ` +
+        `for ${bundle.version} (exported ${bundle.createdAt})`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      path: options.path,
+      repos: [],
+      message: `Import failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+const bundleOutput: ObjectSchema = object({ ...outcome, path: string, version: string, repos: array(string) }, [
+  "success",
+  "message",
+  "path",
+  "repos",
+]);
+
+export const exportBundleTool = defineTool({
+  name: "aztec_export_bundle",
+  description:
+    "Pack a synced Aztec version (checkouts, sync manifest, and search indexes) into one .tar.gz " +
+    "for machines without GitHub access. Install it there with aztec_import_bundle.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        minLength: 1,
+        description: "Archive file to write (e.g., '/tmp/aztec-v3.tar.gz')",
+      },
+      version: {
+        type: "string",
+        description: "Installed version to export (default: the default version)",
+      },
+    },
+    required: ["path"],
+  },
+  outputSchema: bundleOutput,
+  localOnly: true,
+  run: exportBundle,
+  format: formatBundleResult,
+});
+
+export const importBundleTool = defineTool({
+  name: "aztec_import_bundle",
+  description: "Install an Aztec version from a bundle made with aztec_export_bundle, without network access.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        minLength: 1,
+        description: "Bundle file to import",
+      },
+      force: {
+        type: "boolean",
+        description: "Replace the version if it is already installed (default: false)",
+      },
+    },
+    required: ["path"],
+  },
+  outputSchema: bundleOutput,
+  localOnly: true,
+  run: (args: { path: string; force?: boolean }, { changingResources }) => changingResources(() => importBundle(args)),
+  format: formatBundleResult,
+});
@@ -0,0 +1,320 @@
+/**
+ * Version diff tool - compares files and Noir APIs between two Aztec releases
+ */
+
+import { DEFAULT_AZTEC_VERSION } from "../repos/config.js";
+import {
+  diffRefs,
+  fetchTags,
+  isRepoCloned,
+  isValidVersion,
+  listChangedFiles,
+  listInstalledVersions,
+  readFileAtRef,
+  withReposLock,
+} from "../utils/git.js";
+import { parseNoirSymbols, NoirSymbol, SymbolKind, SYMBOL_KINDS } from "../utils/symbols.js";
+import { formatVersionDiff } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, boolean, integer, object, oneOf, outcome, string } from "./schemas.js";
+
+export type DiffArea = "aztec-nr" | "noir-contracts" | "yarn-project";
+
+export type DiffMode = "unified" | "signatures";
+
+/** aztec-packages directory each area covers */
+export const DIFF_AREAS: Record<DiffArea, string> = {
+  "aztec-nr": "noir-projects/aztec-nr",
+  "noir-contracts": "noir-projects/noir-contracts",
+  "yarn-project": "yarn-project",
+};
+
+export interface SignatureChange {
+  name: string;
+  kind: SymbolKind;
+  container?: string;
+  change: "added" | "removed" | "changed";
+  before?: { signature: string; file: string; line: number };
+  after?: { signature: string; file: string; line: number };
+}
+
+/** Tags are compared inside a clone of this repo */
+const DIFF_REPO = "aztec-packages";
+
+const DEFAULT_MAX_LINES = 500;
+
+/**
+ * Compare a path, directory, or Noir symbol between two Aztec tags, as a
+ * unified diff or as a list of changed declaration signatures. A symbol
+ * (`Name` or `Container::name`) also covers the members declared inside it.
+ */
+export async function diffVersions(options: {
+  from: string;
+  to: string;
+  path?: string;
+  symbol?: string;
+  area?: DiffArea;
+  mode?: DiffMode;
+  maxLines?: number;
+}): Promise<{
+  success: boolean;
+  from: string;
+  to: string;
+  mode: DiffMode;
+  diff?: string;
+  truncated?: boolean;
+  changes?: SignatureChange[];
+  message: string;
+}> {
+  const { from, to, path, symbol, area, maxLines = DEFAULT_MAX_LINES } = options;
+  const mode = options.mode ?? (symbol ? "signatures" : "unified");
+  const fail = (message: string) => ({ success: false, from, to, mode, message });
+
+  for (const tag of [from, to]) {
+    if (!isValidVersion(tag)) {
+      return fail(`Invalid version '${tag}'`);
+    }
+  }
+
+  // Any aztec-packages clone can hold both tags
+  const clone = [from, to, DEFAULT_AZTEC_VERSION, ...listInstalledVersions()].find((v) =>
+    isRepoCloned(DIFF_REPO, v)
+  );
+  if (!clone) {
+    return fail("aztec-packages is not cloned. Run aztec_sync_repos first.");
+  }
+
+  let paths = path
+    ? [path.replace(/^(\.?\/)+/, "").replace(new RegExp(`^${DIFF_REPO}/`), "").replace(/\/+$/, "")]
+    : area
+      ? [DIFF_AREAS[area]]
+      : [DIFF_AREAS["aztec-nr"], DIFF_AREAS["noir-contracts"]];
+
+  // Symbols only come from Noir sources
+  if (symbol || mode === "signatures") {
+    paths = paths.map((p) => (p.endsWith(".nr") ? p : p ? `${p}/*.nr` : "*.nr"));
+  }
+
+  try {
+    // Fetching changes the clone, so wait for any sync or import working on it
+    await withReposLock(() => fetchTags(DIFF_REPO, [from, to], clone));
+  } catch (error) {
+    return fail(
+      `Failed to fetch ${from} and ${to}: ${error instanceof Error ? error.message : String(error)}. ` +
+        "Run aztec_list_versions to check the tags."
+    );
+  }
+
+  const label = symbol ? `\`${symbol}\`` : paths.join(", ");
+
+  try {
+    if (mode === "signatures" || symbol) {
+      const changed = await listChangedFiles(DIFF_REPO, from, to, paths, clone);
+      const before: NoirSymbol[] = [];
+      const after: NoirSymbol[] = [];
+      // Files declaring the symbol, for a unified diff of just those
+      const declaring = new Set<string>();
+
+      for (const file of changed) {
+        const oldFile = file.oldFile ?? file.file;
+        const oldSymbols = await readSymbolsAtRef(from, oldFile, clone, symbol);
+        const newSymbols = await readSymbolsAtRef(to, file.file, clone, symbol);
+        before.push(...oldSymbols);
+        after.push(...newSymbols);
+        if (oldSymbols.length > 0) declaring.add(oldFile);
+        if (newSymbols.length > 0) declaring.add(file.file);
+      }
+
+      if (mode === "signatures") {
+        const changes = compareSignatures(before, after);
+        return {
+          success: true,
+          from,
+          to,
+          mode,
+          changes,
+          message:
+            changes.length > 0
+              ? `${changes.length} signature changes in ${label} from ${from} to ${to}`
+              : `No signature changes in ${label} from ${from} to ${to}`,
+        };
+      }
+
+      if (declaring.size === 0) {
+        return { success: true, from, to, mode, diff: "", message: `No changes to ${label} from ${from} to ${to}` };
+      }
+      paths = [...declaring];
+    }
+
+    const lines = (await diffRefs(DIFF_REPO, from, to, paths, clone)).trimEnd().split("\n");
+    const truncated = lines.length > maxLines;
+    const diff = lines.slice(0, maxLines).join("\n");
+
+    return {
+      success: true,
+      from,
+      to,
+      mode,
+      diff,
+      truncated,
+      message: diff
+        ? `Diff of ${label} from ${from} to ${to}`
+        : `No differences in ${label} from ${from} to ${to}`,
+    };
+  } catch (error) {
+    return fail(`Diff failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+const declaration = object({ signature: string, file: string, line: integer }, ["signature", "file", "line"]);
+
+export const diffVersionsTool = defineTool({
+  name: "aztec_diff_versions",
+  description:
+    "Compare a file, directory, or Noir symbol between two Aztec release tags. Returns a unified diff, " +
+    "or with mode 'signatures' (the default for symbols) the declarations that were added, removed, or changed. " +
+    "Use when upgrading between releases.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      from: {
+        type: "string",
+        minLength: 1,
+        description: "Older release tag (e.g., 'v2.0.0'). See aztec_list_versions",
+      },
+      to: {
+        type: "string",
+        minLength: 1,
+        description: "Newer release tag",
+      },
+      path: {
+        type: "string",
+        description: "File or directory in aztec-packages (e.g., 'noir-projects/aztec-nr/aztec/src/note')",
+      },
+      symbol: {
+        type: "string",
+        description: "Noir symbol to compare, with its members (e.g., 'PrivateSet' or 'PrivateSet::insert')",
+      },
+      area: {
+        type: "string",
+        enum: Object.keys(DIFF_AREAS),
+        description: "Part of aztec-packages to compare when no path is given (default: aztec-nr and noir-contracts)",
+      },
+      mode: {
+        type: "string",
+        enum: ["unified", "signatures"],
+        description: "unified diff or per-symbol signature changes",
+      },
+      maxLines: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum diff lines to return (default: 500)",
+      },
+    },
+    required: ["from", "to"],
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      from: string,
+      to: string,
+      mode: oneOf(["unified", "signatures"]),
+      diff: string,
+      truncated: boolean,
+      changes: array(
+        object(
+          {
+            name: string,
+            kind: oneOf(SYMBOL_KINDS),
+            container: string,
+            change: oneOf(["added", "removed", "changed"]),
+            before: declaration,
+            after: declaration,
+          },
+          ["name", "kind", "change"]
+        )
+      ),
+    },
+    ["success", "message", "from", "to", "mode"]
+  ),
+  check: (args) => (args.path || args.symbol || args.area ? undefined : "path, symbol, or area is required"),
+  run: diffVersions,
+  format: formatVersionDiff,
+});
+
+// --- Helper functions ---
+
+/**
+ * Parse a Noir file as of a tag, keeping only the requested symbol and its members
+ */
+async function readSymbolsAtRef(
+  ref: string,
+  file: string,
+  version: string,
+  symbol?: string
+): Promise<NoirSymbol[]> {
+  if (!file.endsWith(".nr")) {
+    return [];
+  }
+
+  const source = await readFileAtRef(DIFF_REPO, ref, file, version);
+  if (source === null) {
+    return [];
+  }
+
+  const symbols = parseNoirSymbols(source, `${DIFF_REPO}/${file}`, DIFF_REPO);
+  if (!symbol) {
+    return symbols;
+  }
+
+  const parts = symbol.split("::");
+  const name = parts.pop()!;
+  const container = parts.pop();
+  return symbols.filter(
+    (s) => (s.name === name && (!container || s.container === container)) || (!container && s.container === name)
+  );
+}
+
+/**
+ * Pair declarations by kind, container, and name. Identical signatures are
+ * unchanged; the rest are paired up as changed, and leftovers are added or removed.
+ */
+function compareSignatures(before: NoirSymbol[], after: NoirSymbol[]): SignatureChange[] {
+  const keyOf = (s: NoirSymbol) => `${s.kind} ${s.container ?? ""}::${s.name}`;
+  const groups = new Map<string, { before: NoirSymbol[]; after: NoirSymbol[] }>();
+
+  for (const [side, symbols] of [
+    ["before", before],
+    ["after", after],
+  ] as const) {
+    for (const symbol of symbols) {
+      const key = keyOf(symbol);
+      if (!groups.has(key)) groups.set(key, { before: [], after: [] });
+      groups.get(key)![side].push(symbol);
+    }
+  }
+
+  const location = (s: NoirSymbol) => ({ signature: s.signature, file: s.file, line: s.line });
+  const changes: SignatureChange[] = [];
+
+  for (const group of groups.values()) {
+    const removed = group.before.filter((b) => !group.after.some((a) => a.signature === b.signature));
+    const added = group.after.filter((a) => !group.before.some((b) => b.signature === a.signature));
+
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const b = removed[i];
+      const a = added[i];
+      const symbol = (a ?? b)!;
+      changes.push({
+        name: symbol.name,
+        kind: symbol.kind,
+        container: symbol.container,
+        change: a && b ? "changed" : a ? "added" : "removed",
+        before: b && location(b),
+        after: a && location(a),
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,151 @@
+/**
+ * History tool - when a file or API changed, and in which release
+ */
+
+import { deepenClone, HistoryCommit, isRepoCloned, isShallowClone, logHistory, withReposLock } from "../utils/git.js";
+import { versionError } from "./versions.js";
+import { getRepoNames } from "../repos/config.js";
+import { formatHistory } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, boolean, object, outcome, string, versionArgument } from "./schemas.js";
+
+/** Commits fetched per deepening when the clone's history runs out */
+const DEFAULT_DEEPEN = 1000;
+
+/**
+ * List commits that touched a path (following renames) and/or added,
+ * removed, or changed a string (pickaxe search). Shallow clones are deepened
+ * once when the history they have doesn't fill the result limit.
+ */
+export async function repoHistory(options: {
+  repo?: string;
+  path?: string;
+  search?: string;
+  regex?: boolean;
+  maxResults?: number;
+  deepen?: number;
+  version?: string;
+}): Promise<{
+  success: boolean;
+  repo: string;
+  commits: HistoryCommit[];
+  deepened: boolean;
+  shallow: boolean;
+  message: string;
+}> {
+  const { repo = "aztec-packages", search, regex, maxResults = 20, deepen = DEFAULT_DEEPEN, version } = options;
+  const path = options.path?.replace(/^(\.?\/)+/, "").replace(new RegExp(`^${repo}/`), "") || undefined;
+  const fail = (message: string) => ({ success: false, repo, commits: [], deepened: false, shallow: false, message });
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return fail(notInstalled);
+  }
+  if (!isRepoCloned(repo, version)) {
+    return fail(`Repository '${repo}' is not cloned. Run aztec_sync_repos first.`);
+  }
+  if (!path && !search) {
+    return fail("Give a path, a search string, or both");
+  }
+
+  // e.g. "changes to 'get_notes' in aztec-packages/noir-projects", or "changes in aztec-packages/noir-projects"
+  const label =
+    (search ? `${regex ? "lines matching" : "changes to"} '${search}'` : "changes") +
+    ` in ${path ? `${repo}/${path}` : repo}`;
+
+  try {
+    const query = { path, search, regex, maxCount: maxResults };
+    let commits = await logHistory(repo, query, version);
+    let shallow = await isShallowClone(repo, version);
+    let deepened = false;
+
+    if (shallow && commits.length < maxResults && deepen > 0) {
+      // Fetching changes the clone, so wait for any sync or import working on it
+      await withReposLock(() => deepenClone(repo, deepen, version));
+      deepened = true;
+      commits = await logHistory(repo, query, version);
+      shallow = await isShallowClone(repo, version);
+    }
+
+    const found =
+      commits.length > 0
+        ? `Found ${commits.length} commit${commits.length === 1 ? "" : "s"} for ${label}`
+        : `No commits for ${label}`;
+    return {
+      success: true,
+      repo,
+      commits,
+      deepened,
+      shallow,
+      message:
+        found +
+        (deepened ? ` (fetched up to ${deepen} more commits of history)` : "") +
+        (shallow && commits.length < maxResults
+          ? ". The clone's history is still shallow, so older commits may be missing; call again to fetch more."
+          : ""),
+    };
+  } catch (error) {
+    return fail(`History lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const historyTool = defineTool({
+  name: "aztec_history",
+  description:
+    "Find when a file or API changed: git history of a path (following renames), and/or commits that " +
+    "added or removed a string (pickaxe search). Each commit shows its date, subject, and the first release " +
+    "tag containing it. Fetches more history when the shallow clone runs out.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      repo: {
+        type: "string",
+        enum: getRepoNames(),
+        description: "Cloned repository (default: aztec-packages)",
+      },
+      path: {
+        type: "string",
+        description: "File or directory in the repo (e.g., 'noir-projects/aztec-nr/aztec/src/note/note_getter.nr')",
+      },
+      search: {
+        type: "string",
+        description: "String whose number of occurrences changed, e.g. a function name (git log -S)",
+      },
+      regex: {
+        type: "boolean",
+        description: "Treat search as a regex matching added or removed lines (git log -G)",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum commits to return (default: 20)",
+      },
+      deepen: {
+        type: "integer",
+        minimum: 0,
+        description: "Commits of history to fetch when the clone has too few (default: 1000, 0 to stay offline)",
+      },
+      version: versionArgument,
+    },
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      repo: string,
+      commits: array(
+        object({ commit: string, date: string, author: string, subject: string, tag: string }, [
+          "commit",
+          "date",
+          "author",
+          "subject",
+        ])
+      ),
+      deepened: boolean,
+      shallow: boolean,
+    },
+    ["success", "message", "repo", "commits", "deepened", "shallow"]
+  ),
+  check: (args) => (args.path || args.search ? undefined : "path or search is required"),
+  run: repoHistory,
+  format: formatHistory,
+});
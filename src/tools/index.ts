@@ -1,12 +1,74 @@
 /**
- * Tool registry - exports all MCP tools
+ * Tool registry - exports all MCP tools and their definitions
  */
 
-export { syncRepos, getStatus } from "./sync.js";
+import { ToolDefinition } from "./tool.js";
+import { syncReposTool, statusTool, exportLockfileTool } from "./sync.js";
+import {
+  searchCodeTool,
+  searchDocsTool,
+  readDocsTool,
+  listExamplesTool,
+  readExampleTool,
+  readFileTool,
+} from "./search.js";
+import { findSymbolTool } from "./symbols.js";
+import { gotoDefinitionTool, findReferencesTool } from "./navigation.js";
+import { findSimilarTool } from "./similar.js";
+import { listVersionsTool } from "./versions.js";
+import { diffVersionsTool } from "./diff.js";
+import { migrationGuideTool } from "./migration.js";
+import { historyTool } from "./history.js";
+import { exportBundleTool, importBundleTool } from "./bundle.js";
+import { workspacesTool } from "./workspace.js";
+
+export { syncRepos, getStatus, exportLockfile } from "./sync.js";
 export {
   searchAztecCode,
   searchAztecDocs,
   listAztecExamples,
   readAztecExample,
   readRepoFile,
+  readAztecDoc,
 } from "./search.js";
+export { findAztecSymbol } from "./symbols.js";
+export { findAztecDefinition, findAztecReferences } from "./navigation.js";
+export { findSimilarCode } from "./similar.js";
+export { listVersions } from "./versions.js";
+export { diffVersions } from "./diff.js";
+export { migrationGuide } from "./migration.js";
+export { repoHistory } from "./history.js";
+export { exportBundle, importBundle } from "./bundle.js";
+export { manageWorkspaces } from "./workspace.js";
+export type { ToolContext, ToolDefinition } from "./tool.js";
+
+/** Every tool the server offers, in the order tools/list returns them */
+export const TOOLS: ToolDefinition[] = [
+  syncReposTool,
+  statusTool,
+  exportLockfileTool,
+  exportBundleTool,
+  importBundleTool,
+  listVersionsTool,
+  diffVersionsTool,
+  migrationGuideTool,
+  historyTool,
+  searchCodeTool,
+  searchDocsTool,
+  readDocsTool,
+  findSymbolTool,
+  gotoDefinitionTool,
+  findReferencesTool,
+  findSimilarTool,
+  listExamplesTool,
+  readExampleTool,
+  readFileTool,
+  workspacesTool,
+];
+
+/**
+ * Look up a tool by name
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find((tool) => tool.name === name);
+}
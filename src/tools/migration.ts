@@ -0,0 +1,104 @@
+/**
+ * Migration guide tool - collects the docs' migration notes between two versions
+ */
+
+import { isRepoCloned, withVersion } from "../utils/git.js";
+import { compareVersions, getMigrationEntries, MigrationEntry } from "../utils/migration.js";
+import { versionError } from "./versions.js";
+import { formatMigrationGuide } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, integer, object, outcome, string } from "./schemas.js";
+
+/**
+ * Migration notes for upgrading from one Aztec version to another, oldest
+ * version first, read from the docs of an installed version
+ */
+export function migrationGuide(options: { from: string; to: string; version?: string }): {
+  success: boolean;
+  entries: MigrationEntry[];
+  message: string;
+} {
+  const { from, to, version } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, entries: [], message: notInstalled };
+  }
+
+  for (const v of [from, to]) {
+    if (!/^v?\d+\.\d+\.\d+/.test(v)) {
+      return { success: false, entries: [], message: `Unrecognized version '${v}'. Expected a tag like v2.0.0` };
+    }
+  }
+  if (compareVersions(from, to) >= 0) {
+    return { success: false, entries: [], message: `'${from}' is not older than '${to}'` };
+  }
+
+  // Later docs list every earlier version's notes, so prefer the target version's docs
+  const docsVersion = version ?? (isRepoCloned("aztec-packages", to) ? to : undefined);
+  if (!isRepoCloned("aztec-packages", docsVersion)) {
+    return {
+      success: false,
+      entries: [],
+      message: "aztec-packages is not cloned. Run aztec_sync_repos first to get documentation.",
+    };
+  }
+
+  const { entries, latest, files } = withVersion(docsVersion, () => getMigrationEntries(from, to));
+
+  if (files.length === 0) {
+    return { success: false, entries: [], message: "No migration notes found in the synced docs" };
+  }
+
+  const versions = new Set(entries.map((e) => e.version)).size;
+  let message = `Found ${entries.length} migration entries across ${versions} versions from ${from} to ${to}`;
+  if (latest && compareVersions(latest, to) < 0) {
+    message += `. The synced notes end at ${latest}; run aztec_sync_repos with version '${to}' to include later entries`;
+  }
+
+  return { success: true, entries, message };
+}
+
+export const migrationGuideTool = defineTool({
+  name: "aztec_migration_guide",
+  description:
+    "Get the migration notes for upgrading between two Aztec versions, oldest first, " +
+    "with their code examples. Read from the migration notes in the synced docs.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      from: {
+        type: "string",
+        minLength: 1,
+        description: "Version being upgraded from (e.g., 'v2.0.2')",
+      },
+      to: {
+        type: "string",
+        minLength: 1,
+        description: "Version being upgraded to (e.g., 'v3.0.0-devnet.6-patch.1')",
+      },
+      version: {
+        type: "string",
+        description: "Installed Aztec version whose docs to read (default: 'to' if installed, else the default version)",
+      },
+    },
+    required: ["from", "to"],
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      entries: array(
+        object({ version: string, title: string, content: string, file: string, line: integer }, [
+          "version",
+          "title",
+          "content",
+          "file",
+          "line",
+        ])
+      ),
+    },
+    ["success", "message", "entries"]
+  ),
+  run: migrationGuide,
+  format: formatMigrationGuide,
+});
@@ -0,0 +1,179 @@
+/**
+ * Go-to-definition and find-references tools for Noir code
+ */
+
+import { resolveDefinition, findReferences } from "../utils/crates.js";
+import { NoirSymbol } from "../utils/symbols.js";
+import { SearchResult } from "../utils/search.js";
+import { isRepoCloned, withVersion } from "../utils/git.js";
+import { listWorkspaces } from "../utils/workspace.js";
+import { getRepoNames } from "../repos/config.js";
+import { versionError } from "./versions.js";
+import { formatReferenceResults, formatSymbolResults } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, noirSymbol, object, outcome, searchResult, versionArgument } from "./schemas.js";
+
+/**
+ * Resolve an identifier or use path to its definition
+ */
+export function findAztecDefinition(options: { query: string; file?: string; version?: string }): {
+  success: boolean;
+  symbols: NoirSymbol[];
+  message: string;
+} {
+  const { query, file, version } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, symbols: [], message: notInstalled };
+  }
+
+  const anyCloned =
+    getRepoNames().some((name) => isRepoCloned(name, version)) || listWorkspaces().length > 0;
+  if (!anyCloned) {
+    return {
+      success: false,
+      symbols: [],
+      message: "No repositories are cloned. Run aztec_sync_repos first.",
+    };
+  }
+
+  const symbols = withVersion(version, () => resolveDefinition(query, { file }));
+
+  return {
+    success: symbols.length > 0,
+    symbols,
+    message:
+      symbols.length === 1
+        ? `Resolved '${query}'`
+        : symbols.length > 1
+          ? `Found ${symbols.length} candidate definitions for '${query}'`
+          : `Could not resolve '${query}'. Check the path, or use aztec_find_symbol for a looser match.`,
+  };
+}
+
+/**
+ * List references to a definition across examples, reference contracts, and the starter
+ */
+export function findAztecReferences(options: {
+  query: string;
+  file?: string;
+  paths?: string[];
+  maxResults?: number;
+  version?: string;
+}): {
+  success: boolean;
+  definition?: NoirSymbol;
+  results: SearchResult[];
+  message: string;
+} {
+  const { query, file, paths, maxResults = 100, version } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, results: [], message: notInstalled };
+  }
+
+  const anyCloned =
+    getRepoNames().some((name) => isRepoCloned(name, version)) || listWorkspaces().length > 0;
+  if (!anyCloned) {
+    return {
+      success: false,
+      results: [],
+      message: "No repositories are cloned. Run aztec_sync_repos first.",
+    };
+  }
+
+  const { definition, references } = withVersion(version, () =>
+    findReferences(query, { file, paths, maxResults })
+  );
+
+  if (!definition) {
+    return {
+      success: false,
+      results: [],
+      message: `Could not resolve '${query}' to a definition.`,
+    };
+  }
+
+  return {
+    success: true,
+    definition,
+    results: references,
+    message:
+      references.length > 0
+        ? `Found ${references.length} references to ${definition.name}`
+        : `No references found to ${definition.name}`,
+  };
+}
+
+export const gotoDefinitionTool = defineTool({
+  name: "aztec_goto_definition",
+  description:
+    "Resolve a Noir identifier or use path (e.g., 'aztec::note::note_getter::get_notes', " +
+    "'dep::std::hash::poseidon2', 'context.push_nullifier') to its definition in aztec-nr or the Noir stdlib. " +
+    "Paths are resolved through Nargo.toml crates and mod trees, following re-exports.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        minLength: 1,
+        description: "Identifier, use path, or full use statement",
+      },
+      file: {
+        type: "string",
+        description:
+          "File the path appears in, relative to the repos directory. Needed for crate::, super::, and self:: paths",
+      },
+      version: versionArgument,
+    },
+    required: ["query"],
+  },
+  outputSchema: object({ ...outcome, symbols: array(noirSymbol) }, ["success", "message", "symbols"]),
+  repoPathArguments: ["file"],
+  run: findAztecDefinition,
+  format: formatSymbolResults,
+});
+
+export const findReferencesTool = defineTool({
+  name: "aztec_find_references",
+  description:
+    "List references to a Noir definition across aztec-examples, noir-contracts, and aztec-starter. " +
+    "Matches imports and paths that resolve to the same definition, not just the same text.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        minLength: 1,
+        description: "Identifier or use path of the definition (same forms as aztec_goto_definition)",
+      },
+      file: {
+        type: "string",
+        description: "File the path appears in, relative to the repos directory",
+      },
+      paths: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Directories to search, relative to the repos directory (default: registered workspaces, aztec-examples, aztec-packages/noir-projects/noir-contracts, aztec-starter)",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum references to return (default: 100)",
+      },
+      version: versionArgument,
+    },
+    required: ["query"],
+  },
+  outputSchema: object({ ...outcome, definition: noirSymbol, results: array(searchResult) }, [
+    "success",
+    "message",
+    "results",
+  ]),
+  repoPathArguments: ["file", "paths"],
+  run: findAztecReferences,
+  format: formatReferenceResults,
+});
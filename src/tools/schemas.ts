@@ -0,0 +1,186 @@
+/**
+ * JSON schemas for tool arguments and results, and the validator that
+ * checks arguments against them. A tool's input schema is both what
+ * tools/list advertises and what its arguments are checked against.
+ */
+
+import { SYMBOL_KINDS } from "../utils/symbols.js";
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ObjectSchema = {
+  type: "object";
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+export const string = { type: "string" };
+export const integer = { type: "integer" };
+export const number = { type: "number" };
+export const boolean = { type: "boolean" };
+
+export function object(properties: Record<string, JsonSchema>, required: string[] = []): ObjectSchema {
+  return required.length > 0 ? { type: "object", properties, required } : { type: "object", properties };
+}
+
+export function array(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+export function oneOf(values: readonly string[]): JsonSchema {
+  return { type: "string", enum: [...values] };
+}
+
+/** The `version` argument of tools that read an installed version */
+export const versionArgument = {
+  type: "string",
+  description: "Installed Aztec version to use (default: the default version). See aztec_status",
+};
+
+/** The `cursor` argument of paged tools */
+export const cursorArgument = {
+  type: "string",
+  description: "Cursor from a previous response to fetch the next page of results",
+};
+
+/** Result fields every tool but aztec_status has */
+export const outcome = {
+  success: boolean,
+  message: string,
+};
+
+/** Result fields of a paged tool */
+export const paged = {
+  total: { type: "integer", description: "Matches across all pages (a lower bound when totalIsEstimate is set)" },
+  totalIsEstimate: boolean,
+  nextCursor: { type: "string", description: "Pass back as `cursor` to fetch the next page" },
+};
+
+export const searchResult = object(
+  {
+    file: string,
+    line: integer,
+    content: string,
+    repo: string,
+    score: number,
+    contextBefore: array(string),
+    contextAfter: array(string),
+    pageTitle: string,
+    breadcrumb: array(string),
+    sectionContent: string,
+    url: string,
+  },
+  ["file", "content", "repo"]
+);
+
+export const fileInfo = object(
+  {
+    path: string,
+    name: string,
+    repo: string,
+    type: oneOf(["contract", "test", "typescript", "docs", "other"]),
+  },
+  ["path", "name", "repo", "type"]
+);
+
+export const noirSymbol = object(
+  {
+    name: string,
+    kind: oneOf(SYMBOL_KINDS),
+    signature: string,
+    doc: string,
+    container: string,
+    file: string,
+    line: integer,
+    repo: string,
+  },
+  ["name", "kind", "signature", "file", "line", "repo"]
+);
+
+/**
+ * Check tool arguments against an input schema. Returns one message per
+ * problem, naming the argument (e.g. "repos[1]") and, for enums, the
+ * allowed values; empty when the arguments are valid.
+ */
+export function validateArguments(schema: ObjectSchema, args: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+
+  for (const name of schema.required ?? []) {
+    if (args[name] === undefined) {
+      problems.push(`${name} is required`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const property = schema.properties[name];
+    if (!property) {
+      if (schema.additionalProperties === false) {
+        problems.push(`Unknown argument '${name}'. Expected: ${Object.keys(schema.properties).join(", ")}`);
+      }
+      continue;
+    }
+    // Clients may send null for an argument they leave out
+    if (value !== undefined && value !== null) {
+      checkValue(property, value, name, problems);
+    }
+  }
+
+  return problems;
+}
+
+// --- Helper functions ---
+
+function checkValue(schema: JsonSchema, value: unknown, path: string, problems: string[]): void {
+  const type = schema.type as string | undefined;
+  if (type && !hasType(value, type)) {
+    problems.push(`${path} must be ${type === "integer" ? "an integer" : `a ${type}`}, got ${describe(value)}`);
+    return;
+  }
+
+  const allowed = schema.enum as unknown[] | undefined;
+  if (allowed && !allowed.includes(value)) {
+    problems.push(`${path} must be one of: ${allowed.join(", ")} (got ${describe(value)})`);
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      problems.push(`${path} must be at least ${schema.minimum}, got ${value}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      problems.push(`${path} must be at most ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  if (typeof value === "string" && typeof schema.minLength === "number" && value.length < schema.minLength) {
+    problems.push(`${path} must not be empty`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => checkValue(schema.items as JsonSchema, item, `${path}[${index}]`, problems));
+  }
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  if (typeof value === "object") return "an object";
+  return `${typeof value} ${String(value)}`;
+}
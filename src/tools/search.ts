@@ -9,10 +9,54 @@ import {
   findExample,
   readFile,
   SearchResult,
+  SearchEngine,
   FileInfo,
 } from "../utils/search.js";
-import { isRepoCloned } from "../utils/git.js";
+import { resolveDocPage, DocPage } from "../utils/docs.js";
+import { encodeCursor, decodeCursor } from "../utils/pagination.js";
+import { versionError } from "./versions.js";
+import { isRepoCloned, withVersion } from "../utils/git.js";
+import { WORKSPACE_REPO, listWorkspaces } from "../utils/workspace.js";
 import { getRepoNames } from "../repos/config.js";
+import {
+  formatDocContent,
+  formatExampleContent,
+  formatExamplesList,
+  formatFileContent,
+  formatSearchResults,
+} from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import {
+  array,
+  cursorArgument,
+  fileInfo,
+  object,
+  ObjectSchema,
+  oneOf,
+  outcome,
+  paged,
+  searchResult,
+  string,
+  versionArgument,
+} from "./schemas.js";
+
+/** Shared shape of a paged tool result */
+interface Page {
+  /** Matches across all pages (a lower bound when totalIsEstimate is set) */
+  total: number;
+  totalIsEstimate: boolean;
+  /** Pass back as `cursor` to fetch the next page */
+  nextCursor?: string;
+}
+
+const ENGINE_LABELS: Record<SearchEngine, string> = {
+  index: "ranked index",
+  ripgrep: "ripgrep",
+  manual: "built-in search",
+};
+
+const INVALID_CURSOR =
+  "Invalid or expired cursor. Repeat the search without a cursor to start from the first page.";
 
 /**
  * Search Aztec code (contracts, TypeScript, etc.)
@@ -22,40 +66,92 @@ export function searchAztecCode(options: {
   filePattern?: string;
   repo?: string;
   maxResults?: number;
-}): {
+  contextBefore?: number;
+  contextAfter?: number;
+  cursor?: string;
+  version?: string;
+}): Page & {
   success: boolean;
   results: SearchResult[];
+  engine?: SearchEngine;
   message: string;
 } {
-  const { query, filePattern = "*.nr", repo, maxResults = 30 } = options;
+  const {
+    query,
+    filePattern = "*.nr",
+    repo,
+    maxResults = 30,
+    contextBefore = 0,
+    contextAfter = 0,
+    cursor,
+    version,
+  } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, results: [], total: 0, totalIsEstimate: false, message: notInstalled };
+  }
 
   // Check if repos are cloned
-  if (repo && !isRepoCloned(repo)) {
+  if (repo === WORKSPACE_REPO && listWorkspaces().length === 0) {
     return {
       success: false,
       results: [],
+      total: 0,
+      totalIsEstimate: false,
+      message: "No workspaces are registered. Add one with aztec_workspaces.",
+    };
+  }
+
+  if (repo && repo !== WORKSPACE_REPO && !isRepoCloned(repo, version)) {
+    return {
+      success: false,
+      results: [],
+      total: 0,
+      totalIsEstimate: false,
       message: `Repository '${repo}' is not cloned. Run aztec_sync_repos first.`,
     };
   }
 
-  const anyCloned = getRepoNames().some(isRepoCloned);
+  const anyCloned =
+    getRepoNames().some((name) => isRepoCloned(name, version)) || listWorkspaces().length > 0;
   if (!anyCloned) {
     return {
       success: false,
       results: [],
+      total: 0,
+      totalIsEstimate: false,
       message: "No repositories are cloned. Run aztec_sync_repos first.",
     };
   }
 
-  const results = doSearchCode(query, { filePattern, repo, maxResults });
+  const cursorParams = { tool: "code", query, filePattern, repo, version };
+  const offset = cursor ? decodeCursor(cursor, cursorParams) : 0;
+  if (offset === null) {
+    return { success: false, results: [], total: 0, totalIsEstimate: false, message: INVALID_CURSOR };
+  }
+
+  const page = withVersion(version, () =>
+    doSearchCode(query, {
+      filePattern,
+      repo,
+      offset,
+      maxResults,
+      contextBefore,
+      contextAfter,
+    })
+  );
 
   return {
     success: true,
-    results,
-    message:
-      results.length > 0
-        ? `Found ${results.length} matches`
+    ...page,
+    nextCursor: nextCursor(offset, maxResults, page.total, cursorParams),
+    message: withEngine(
+      page.results.length > 0
+        ? describePage("matches", offset, page.results.length, page)
         : "No matches found",
+      page.engine
+    ),
   };
 }
 
@@ -66,61 +162,124 @@ export function searchAztecDocs(options: {
   query: string;
   section?: string;
   maxResults?: number;
-}): {
+  contextBefore?: number;
+  contextAfter?: number;
+  fullSection?: boolean;
+  cursor?: string;
+  version?: string;
+}): Page & {
   success: boolean;
   results: SearchResult[];
+  engine?: SearchEngine;
   message: string;
 } {
-  const { query, section, maxResults = 20 } = options;
+  const {
+    query,
+    section,
+    maxResults = 20,
+    contextBefore = 0,
+    contextAfter = 0,
+    fullSection = false,
+    cursor,
+    version,
+  } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, results: [], total: 0, totalIsEstimate: false, message: notInstalled };
+  }
 
-  if (!isRepoCloned("aztec-packages")) {
+  if (!isRepoCloned("aztec-packages", version)) {
     return {
       success: false,
       results: [],
+      total: 0,
+      totalIsEstimate: false,
       message:
         "aztec-packages is not cloned. Run aztec_sync_repos first to get documentation.",
     };
   }
 
-  const results = doSearchDocs(query, { section, maxResults });
+  const cursorParams = { tool: "docs", query, section, version };
+  const offset = cursor ? decodeCursor(cursor, cursorParams) : 0;
+  if (offset === null) {
+    return { success: false, results: [], total: 0, totalIsEstimate: false, message: INVALID_CURSOR };
+  }
+
+  const page = withVersion(version, () =>
+    doSearchDocs(query, {
+      section,
+      offset,
+      maxResults,
+      contextBefore,
+      contextAfter,
+      fullSection,
+    })
+  );
 
   return {
     success: true,
-    results,
-    message:
-      results.length > 0
-        ? `Found ${results.length} documentation matches`
+    ...page,
+    nextCursor: nextCursor(offset, maxResults, page.total, cursorParams),
+    message: withEngine(
+      page.results.length > 0
+        ? describePage("documentation matches", offset, page.results.length, page)
         : "No documentation matches found",
+      page.engine
+    ),
   };
 }
 
 /**
  * List available Aztec contract examples
  */
-export function listAztecExamples(options: { category?: string }): {
+export function listAztecExamples(options: {
+  category?: string;
+  maxResults?: number;
+  cursor?: string;
+  version?: string;
+}): Page & {
   success: boolean;
   examples: FileInfo[];
   message: string;
 } {
-  const { category } = options;
+  const { category, maxResults = 100, cursor, version } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, examples: [], total: 0, totalIsEstimate: false, message: notInstalled };
+  }
 
-  const anyCloned = getRepoNames().some(isRepoCloned);
+  const anyCloned =
+    getRepoNames().some((name) => isRepoCloned(name, version)) || listWorkspaces().length > 0;
   if (!anyCloned) {
     return {
       success: false,
       examples: [],
+      total: 0,
+      totalIsEstimate: false,
       message: "No repositories are cloned. Run aztec_sync_repos first.",
     };
   }
 
-  const examples = doListExamples(category);
+  const cursorParams = { tool: "examples", category, version };
+  const offset = cursor ? decodeCursor(cursor, cursorParams) : 0;
+  if (offset === null) {
+    return { success: false, examples: [], total: 0, totalIsEstimate: false, message: INVALID_CURSOR };
+  }
+
+  const all = withVersion(version, () => doListExamples(category));
+  const examples = all.slice(offset, offset + maxResults);
+  const page = { total: all.length, totalIsEstimate: false };
 
   return {
     success: true,
     examples,
+    ...page,
+    nextCursor: nextCursor(offset, maxResults, all.length, cursorParams),
     message:
       examples.length > 0
-        ? `Found ${examples.length} example contracts`
+        ? describePage("example contracts", offset, examples.length, page)
         : category
           ? `No examples found matching category '${category}'`
           : "No examples found",
@@ -130,15 +289,20 @@ export function listAztecExamples(options: { category?: string }): {
 /**
  * Read an example contract
  */
-export function readAztecExample(options: { name: string }): {
+export function readAztecExample(options: { name: string; version?: string }): {
   success: boolean;
   example?: FileInfo;
   content?: string;
   message: string;
 } {
-  const { name } = options;
+  const { name, version } = options;
 
-  const example = findExample(name);
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, message: notInstalled };
+  }
+
+  const example = withVersion(version, () => findExample(name));
 
   if (!example) {
     return {
@@ -147,7 +311,7 @@ export function readAztecExample(options: { name: string }): {
     };
   }
 
-  const content = readFile(example.path);
+  const content = withVersion(version, () => readFile(example.path));
 
   if (!content) {
     return {
@@ -168,14 +332,19 @@ export function readAztecExample(options: { name: string }): {
 /**
  * Read any file from cloned repos
  */
-export function readRepoFile(options: { path: string }): {
+export function readRepoFile(options: { path: string; version?: string }): {
   success: boolean;
   content?: string;
   message: string;
 } {
-  const { path } = options;
+  const { path, version } = options;
 
-  const content = readFile(path);
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, message: notInstalled };
+  }
+
+  const content = withVersion(version, () => readFile(path));
 
   if (!content) {
     return {
@@ -190,3 +359,294 @@ export function readRepoFile(options: { path: string }): {
     message: `Read file: ${path}`,
   };
 }
+
+/**
+ * Read a documentation page by docs.aztec.network URL, doc id, or slug
+ */
+export function readAztecDoc(options: { ref: string; version?: string }): {
+  success: boolean;
+  page?: DocPage;
+  content?: string;
+  message: string;
+} {
+  const { ref, version } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, message: notInstalled };
+  }
+
+  if (!isRepoCloned("aztec-packages", version)) {
+    return {
+      success: false,
+      message:
+        "aztec-packages is not cloned. Run aztec_sync_repos first to get documentation.",
+    };
+  }
+
+  const page = withVersion(version, () => resolveDocPage(ref));
+
+  if (!page) {
+    return {
+      success: false,
+      message: `No docs page found for '${ref}'. Try aztec_search_docs to find the page.`,
+    };
+  }
+
+  const content = withVersion(version, () => readFile(page.file));
+
+  if (!content) {
+    return {
+      success: false,
+      page,
+      message: `Could not read docs file: ${page.file}`,
+    };
+  }
+
+  return {
+    success: true,
+    page,
+    content,
+    message: `Read ${page.url}`,
+  };
+}
+
+const searchOutput: ObjectSchema = object(
+  {
+    ...outcome,
+    ...paged,
+    results: array(searchResult),
+    engine: oneOf(["index", "ripgrep", "manual"]),
+  },
+  ["success", "message", "total", "totalIsEstimate", "results"]
+);
+
+export const searchCodeTool = defineTool({
+  name: "aztec_search_code",
+  description:
+    "Search Aztec contract code and source files. Supports regex patterns. " +
+    "Use for finding function implementations, patterns, and examples.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        minLength: 1,
+        description: "Search query (supports regex)",
+      },
+      filePattern: {
+        type: "string",
+        description: "File glob pattern (default: *.nr). Examples: *.ts, *.{nr,ts}",
+      },
+      repo: {
+        type: "string",
+        enum: [...getRepoNames(), WORKSPACE_REPO],
+        description:
+          "Specific repo to search, or 'workspace' for your registered project directories (see aztec_workspaces)",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum results to return (default: 30)",
+      },
+      contextBefore: {
+        type: "integer",
+        minimum: 0,
+        description: "Lines of context to include before each match (default: 0)",
+      },
+      contextAfter: {
+        type: "integer",
+        minimum: 0,
+        description: "Lines of context to include after each match (default: 0)",
+      },
+      cursor: cursorArgument,
+      version: versionArgument,
+    },
+    required: ["query"],
+  },
+  outputSchema: searchOutput,
+  run: searchAztecCode,
+  format: formatSearchResults,
+});
+
+export const searchDocsTool = defineTool({
+  name: "aztec_search_docs",
+  description:
+    "Search Aztec documentation. Use for finding tutorials, guides, and API documentation. " +
+    "Each match shows its page title and heading breadcrumb; set fullSection to get whole sections.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        minLength: 1,
+        description: "Documentation search query",
+      },
+      section: {
+        type: "string",
+        description: "Docs section to search. Examples: tutorials, concepts, developers, reference",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum results to return (default: 20)",
+      },
+      contextBefore: {
+        type: "integer",
+        minimum: 0,
+        description: "Lines of context to include before each match (default: 0)",
+      },
+      contextAfter: {
+        type: "integer",
+        minimum: 0,
+        description: "Lines of context to include after each match (default: 0)",
+      },
+      fullSection: {
+        type: "boolean",
+        description: "Return the full markdown of each matching section instead of single lines (default: false)",
+      },
+      cursor: cursorArgument,
+      version: versionArgument,
+    },
+    required: ["query"],
+  },
+  outputSchema: searchOutput,
+  repoPathArguments: ["section"],
+  run: searchAztecDocs,
+  format: formatSearchResults,
+});
+
+export const readDocsTool = defineTool({
+  name: "aztec_read_docs",
+  description:
+    "Read an Aztec documentation page by its docs.aztec.network URL, Docusaurus doc id, or frontmatter slug. " +
+    "Use when someone shares a docs link.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ref: {
+        type: "string",
+        minLength: 1,
+        description: "Docs URL (e.g., 'https://docs.aztec.network/developers/guides/...'), doc id, or slug",
+      },
+      version: versionArgument,
+    },
+    required: ["ref"],
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      page: object({ file: string, id: string, route: string, url: string, title: string, slug: string }, [
+        "file",
+        "id",
+        "route",
+        "url",
+        "title",
+      ]),
+      content: string,
+    },
+    ["success", "message"]
+  ),
+  run: readAztecDoc,
+  format: formatDocContent,
+});
+
+export const listExamplesTool = defineTool({
+  name: "aztec_list_examples",
+  description: "List available Aztec contract examples. Returns contract names and paths.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      category: {
+        type: "string",
+        description: "Filter by category. Examples: token, nft, defi, escrow, crowdfund",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum examples to return (default: 100)",
+      },
+      cursor: cursorArgument,
+      version: versionArgument,
+    },
+  },
+  outputSchema: object({ ...outcome, ...paged, examples: array(fileInfo) }, [
+    "success",
+    "message",
+    "total",
+    "totalIsEstimate",
+    "examples",
+  ]),
+  run: listAztecExamples,
+  format: formatExamplesList,
+});
+
+export const readExampleTool = defineTool({
+  name: "aztec_read_example",
+  description:
+    "Read the source code of an Aztec contract example. Use aztec_list_examples to find available examples.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        minLength: 1,
+        description: "Example contract name (e.g., 'token', 'escrow')",
+      },
+      version: versionArgument,
+    },
+    required: ["name"],
+  },
+  outputSchema: object({ ...outcome, example: fileInfo, content: string }, ["success", "message"]),
+  run: readAztecExample,
+  format: formatExampleContent,
+});
+
+export const readFileTool = defineTool({
+  name: "aztec_read_file",
+  description:
+    "Read any file from the cloned repositories by path. Path should be relative to the repos directory.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        minLength: 1,
+        description:
+          "File path relative to repos directory (e.g., 'aztec-packages/docs/docs/tutorials/...', or 'workspace/<name>/...' for a workspace file)",
+      },
+      version: versionArgument,
+    },
+    required: ["path"],
+  },
+  outputSchema: object({ ...outcome, content: string }, ["success", "message"]),
+  repoPathArguments: ["path"],
+  run: readRepoFile,
+  format: formatFileContent,
+});
+
+// --- Helper functions ---
+
+function nextCursor(offset: number, pageSize: number, total: number, params: unknown): string | undefined {
+  return offset + pageSize < total ? encodeCursor(offset + pageSize, params) : undefined;
+}
+
+/**
+ * "Found 12 matches" for a single page, "Showing matches 31-60 of 412" otherwise
+ */
+function describePage(
+  noun: string,
+  offset: number,
+  count: number,
+  page: { total: number; totalIsEstimate: boolean }
+): string {
+  if (offset === 0 && count >= page.total && !page.totalIsEstimate) {
+    return `Found ${count} ${noun}`;
+  }
+  const total = page.totalIsEstimate ? `${page.total}+` : `${page.total}`;
+  return `Showing ${noun} ${offset + 1}-${offset + count} of ${total}`;
+}
+
+function withEngine(message: string, engine?: SearchEngine): string {
+  return engine ? `${message} (${ENGINE_LABELS[engine]})` : message;
+}
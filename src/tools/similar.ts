@@ -0,0 +1,132 @@
+/**
+ * Similar-code tool: find example contracts and functions that resemble a snippet
+ */
+
+import { isAbsolute, relative } from "path";
+import { findSimilar, SimilarKind, SimilarMatch } from "../utils/similarity.js";
+import { readFile } from "../utils/search.js";
+import { getVersionDir, isRepoCloned, withVersion } from "../utils/git.js";
+import { versionError } from "./versions.js";
+import { formatSimilarResults } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, integer, number, object, oneOf, outcome, string, versionArgument } from "./schemas.js";
+
+/**
+ * Find example contracts or functions similar to a code snippet or file
+ */
+export function findSimilarCode(options: {
+  code?: string;
+  path?: string;
+  kind?: SimilarKind;
+  maxResults?: number;
+  version?: string;
+}): {
+  success: boolean;
+  matches: SimilarMatch[];
+  message: string;
+} {
+  const { code, path, kind, maxResults = 10, version } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, matches: [], message: notInstalled };
+  }
+
+  if (!isRepoCloned("aztec-packages", version) && !isRepoCloned("aztec-examples", version)) {
+    return {
+      success: false,
+      matches: [],
+      message: "No example repositories are cloned. Run aztec_sync_repos first.",
+    };
+  }
+
+  let source = code;
+  let exclude: string | undefined;
+  if (!source && path) {
+    // Absolute paths may point at the user's own project; relative ones are in the repos dir
+    source = withVersion(version, () => readFile(path)) ?? undefined;
+    if (!source) {
+      return {
+        success: false,
+        matches: [],
+        message: `File not found: ${path}. Pass an absolute path or a path relative to the repos directory.`,
+      };
+    }
+    exclude = isAbsolute(path) ? relative(getVersionDir(version), path) : path;
+  }
+
+  if (!source?.trim()) {
+    return {
+      success: false,
+      matches: [],
+      message: "Provide a code snippet or a file path to compare.",
+    };
+  }
+
+  const snippet = source;
+  const matches = withVersion(version, () => findSimilar(snippet, { kind, exclude, maxResults }));
+  const noun = kind === "fn" ? "functions" : kind === "contract" ? "contracts" : "contracts and functions";
+
+  return {
+    success: true,
+    matches,
+    message: matches.length > 0 ? `Found ${matches.length} similar ${noun}` : "No similar code found",
+  };
+}
+
+export const findSimilarTool = defineTool({
+  name: "aztec_find_similar",
+  description:
+    "Find example contracts and functions that look most like a Noir snippet or file. " +
+    "Ranks by TF-IDF similarity of code token shingles, computed locally.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      code: {
+        type: "string",
+        description: "Noir code to compare: a function, a contract, or a fragment",
+      },
+      path: {
+        type: "string",
+        description: "File to compare instead of code: absolute, or relative to the repos directory",
+      },
+      kind: {
+        type: "string",
+        enum: ["fn", "contract"],
+        description: "Only return functions or only whole contracts (default: both)",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum matches to return (default: 10)",
+      },
+      version: versionArgument,
+    },
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      matches: array(
+        object(
+          {
+            name: string,
+            kind: oneOf(["fn", "contract"]),
+            container: string,
+            signature: string,
+            file: string,
+            line: integer,
+            endLine: integer,
+            repo: string,
+            score: number,
+          },
+          ["name", "kind", "signature", "file", "line", "endLine", "repo", "score"]
+        )
+      ),
+    },
+    ["success", "message", "matches"]
+  ),
+  repoPathArguments: ["path"],
+  check: (args) => (args.code || args.path ? undefined : "code or path is required"),
+  run: findSimilarCode,
+  format: formatSimilarResults,
+});
@@ -0,0 +1,109 @@
+/**
+ * Symbol lookup tool for Noir declarations in cloned repositories
+ */
+
+import { findSymbols, NoirSymbol, SymbolKind, SYMBOL_KINDS } from "../utils/symbols.js";
+import { isRepoCloned, withVersion } from "../utils/git.js";
+import { WORKSPACE_REPO, listWorkspaces } from "../utils/workspace.js";
+import { getRepoNames } from "../repos/config.js";
+import { versionError } from "./versions.js";
+import { formatSymbolResults } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, noirSymbol, object, outcome, versionArgument } from "./schemas.js";
+
+/**
+ * Find where a Noir function, struct, trait, etc. is defined
+ */
+export function findAztecSymbol(options: {
+  name: string;
+  kind?: SymbolKind;
+  repo?: string;
+  maxResults?: number;
+  version?: string;
+}): {
+  success: boolean;
+  symbols: NoirSymbol[];
+  message: string;
+} {
+  const { name, kind, repo, maxResults = 20, version } = options;
+
+  const notInstalled = versionError(version);
+  if (notInstalled) {
+    return { success: false, symbols: [], message: notInstalled };
+  }
+
+  if (repo === WORKSPACE_REPO && listWorkspaces().length === 0) {
+    return {
+      success: false,
+      symbols: [],
+      message: "No workspaces are registered. Add one with aztec_workspaces.",
+    };
+  }
+
+  if (repo && repo !== WORKSPACE_REPO && !isRepoCloned(repo, version)) {
+    return {
+      success: false,
+      symbols: [],
+      message: `Repository '${repo}' is not cloned. Run aztec_sync_repos first.`,
+    };
+  }
+
+  const anyCloned =
+    getRepoNames().some((repoName) => isRepoCloned(repoName, version)) || listWorkspaces().length > 0;
+  if (!anyCloned) {
+    return {
+      success: false,
+      symbols: [],
+      message: "No repositories are cloned. Run aztec_sync_repos first.",
+    };
+  }
+
+  const symbols = withVersion(version, () => findSymbols(name, { kind, repo, maxResults }));
+
+  return {
+    success: true,
+    symbols,
+    message:
+      symbols.length > 0
+        ? `Found ${symbols.length} definitions of '${name}'`
+        : `No definitions found for '${name}'`,
+  };
+}
+
+export const findSymbolTool = defineTool({
+  name: "aztec_find_symbol",
+  description:
+    "Find where a Noir function, struct, trait, impl, contract, mod, or global is defined. " +
+    "Returns the declaration signature, doc comment, and location instead of every call site. " +
+    "Use 'Type::method' to look up a method on a specific impl or trait.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        minLength: 1,
+        description: "Symbol name (e.g., 'PrivateSet', 'get_notes', 'PrivateSet::insert')",
+      },
+      kind: {
+        type: "string",
+        enum: SYMBOL_KINDS,
+        description: "Only return declarations of this kind",
+      },
+      repo: {
+        type: "string",
+        enum: [...getRepoNames(), WORKSPACE_REPO],
+        description: "Specific repo to search, or 'workspace' for your registered project directories",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum results to return (default: 20)",
+      },
+      version: versionArgument,
+    },
+    required: ["name"],
+  },
+  outputSchema: object({ ...outcome, symbols: array(noirSymbol) }, ["success", "message", "symbols"]),
+  run: findAztecSymbol,
+  format: formatSymbolResults,
+});
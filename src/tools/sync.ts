@@ -2,10 +2,44 @@
  * Repository sync tool - clones and updates Aztec repositories
  */
 
-import { AZTEC_REPOS, getAztecRepos, DEFAULT_AZTEC_VERSION, RepoConfig } from "../repos/config.js";
-import { cloneRepo, getReposStatus, getNoirCommitFromAztec, REPOS_DIR } from "../utils/git.js";
+import {
+  AZTEC_REPOS,
+  getAztecRepos,
+  getRepoConfig,
+  getRepoNames,
+  DEFAULT_AZTEC_VERSION,
+  RepoConfig,
+} from "../repos/config.js";
+import {
+  cloneRepo,
+  getReposStatus,
+  getNoirCommitFromAztec,
+  getRepoCommit,
+  getVersionDir,
+  isValidVersion,
+  isVersionInstalled,
+  listClonedRepos,
+  listInstalledVersions,
+  migrateLegacyLayout,
+  withReposLock,
+  withVersion,
+  REPOS_DIR,
+} from "../utils/git.js";
+import { indexRepo } from "../utils/indexer.js";
+import {
+  readLockfile,
+  readManifest,
+  writeLockfile,
+  writeManifest,
+  ManifestRepo,
+  SyncManifest,
+} from "../utils/manifest.js";
+import { unknownVersionError } from "./versions.js";
+import { defineTool } from "./tool.js";
+import { array, boolean, object, outcome, string } from "./schemas.js";
+import { formatLockfile, formatStatus, formatSyncResult } from "../utils/format.js";
 
-export interface SyncResult {
+export type SyncResult = {
   success: boolean;
   message: string;
   version: string;
@@ -14,23 +48,91 @@ export interface SyncResult {
     status: string;
     commit?: string;
   }[];
+};
+
+export interface SyncProgress {
+  repo: string;
+  /** "cloning", "sparse-checkout", "fetching tag", "indexing", "done", "failed", ... */
+  phase: string;
+  /** Repos finished so far, including this one when phase is "done" or "failed" */
+  completed: number;
+  total: number;
 }
 
-/**
- * Sync all repositories (clone if missing, update if exists)
- * Syncs aztec-packages first to determine the correct Noir version
- */
-export async function syncRepos(options: {
+/** Repos cloned at once - can be overridden via AZTEC_MCP_SYNC_CONCURRENCY env var */
+export const DEFAULT_SYNC_CONCURRENCY = Math.max(1, parseInt(process.env.AZTEC_MCP_SYNC_CONCURRENCY || "", 10) || 3);
+
+export interface SyncOptions {
   force?: boolean;
   repos?: string[];
   version?: string;
-}): Promise<SyncResult> {
-  const { force = false, repos: repoNames, version } = options;
+  lockfile?: string;
+  concurrency?: number;
+  onProgress?: (progress: SyncProgress) => void;
+}
 
-  // Get repos configured for the specified version
-  const configuredRepos = version ? getAztecRepos(version) : AZTEC_REPOS;
+/**
+ * Sync all repositories for a version (clone if missing, update if exists)
+ * into that version's directory, leaving other installed versions alone.
+ * Repos are cloned concurrently, except that the Noir repos wait for
+ * aztec-packages, which determines the correct Noir version. Builds the
+ * search index for each synced repo and records the resolved commits in the
+ * version's manifest. With a lockfile, checks out exactly the commits it lists.
+ * Waits for a sync or bundle import that is already running to finish first.
+ */
+export function syncRepos(options: SyncOptions): Promise<SyncResult> {
+  return withReposLock(() => syncVersion(options));
+}
+
+async function syncVersion(options: SyncOptions): Promise<SyncResult> {
+  const { force = false, repos: repoNames, lockfile, concurrency = DEFAULT_SYNC_CONCURRENCY, onProgress } = options;
+
+  let lock: SyncManifest | null = null;
+  if (lockfile) {
+    try {
+      lock = readLockfile(lockfile);
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+        version: options.version || DEFAULT_AZTEC_VERSION,
+        repos: [],
+      };
+    }
+    if (options.version && options.version !== lock.version) {
+      return {
+        success: false,
+        message: `Lockfile is for version '${lock.version}', not '${options.version}'`,
+        version: options.version,
+        repos: [],
+      };
+    }
+  }
+  const version = lock?.version ?? options.version;
+
+  // Get repos configured for the specified version (or pinned by the lockfile)
+  const configuredRepos = lock ? lock.repos.map(lockedRepoConfig) : version ? getAztecRepos(version) : AZTEC_REPOS;
   const effectiveVersion = version || DEFAULT_AZTEC_VERSION;
 
+  if (!isValidVersion(effectiveVersion)) {
+    return {
+      success: false,
+      message: `Invalid version '${effectiveVersion}'`,
+      version: effectiveVersion,
+      repos: [],
+    };
+  }
+
+  // Catch typos before anything is cloned
+  if (!lock && !isVersionInstalled(effectiveVersion)) {
+    const error = await unknownVersionError(effectiveVersion);
+    if (error) {
+      return { success: false, message: error, version: effectiveVersion, repos: [] };
+    }
+  }
+
+  await migrateLegacyLayout();
+
   // Filter repos if specific ones requested
   let reposToSync = repoNames
     ? configuredRepos.filter((r) => repoNames.includes(r.name))
@@ -45,17 +147,59 @@ export async function syncRepos(options: {
     };
   }
 
-  const results: SyncResult["repos"] = [];
+  const results = new Map<string, SyncResult["repos"][number]>();
+  const synced: ManifestRepo[] = [];
+  const limit = createLimiter(Math.max(1, Math.floor(concurrency) || 1));
+  let completed = 0;
+
+  const report = (repo: string, phase: string) =>
+    onProgress?.({ repo, phase, completed, total: reposToSync.length });
 
   async function syncRepo(config: RepoConfig, statusTransform?: (s: string) => string): Promise<void> {
+    const result = await cloneAndIndex(config, statusTransform);
+    results.set(config.name, result);
+    completed++;
+    report(config.name, result.status.startsWith("Error") ? "failed" : "done");
+  }
+
+  async function cloneAndIndex(
+    config: RepoConfig,
+    statusTransform?: (s: string) => string
+  ): Promise<SyncResult["repos"][number]> {
     try {
-      const status = await cloneRepo(config, force);
-      results.push({ name: config.name, status: statusTransform ? statusTransform(status) : status });
+      const status = await cloneRepo(config, force, effectiveVersion, (phase) => report(config.name, phase));
+      const transformed = statusTransform ? statusTransform(status) : status;
+      const commit = (await getRepoCommit(config.name, true, effectiveVersion)) ?? undefined;
+
+      if (lock && commit !== config.commit) {
+        return {
+          name: config.name,
+          status: `Error: checked out ${commit?.slice(0, 7) ?? "nothing"}, lockfile pins ${config.commit!.slice(0, 7)}`,
+          commit,
+        };
+      }
+
+      report(config.name, "indexing");
+      const result = { name: config.name, status: `${transformed}${buildIndex(config)}`, commit };
+      if (commit) {
+        const locked = lock?.repos.find((r) => r.name === config.name);
+        synced.push(locked ? { ...locked, commit, syncedAt: new Date().toISOString() } : manifestEntry(config, commit));
+      }
+      return result;
     } catch (error) {
-      results.push({
+      return {
         name: config.name,
         status: `Error: ${error instanceof Error ? error.message : String(error)}`,
-      });
+      };
+    }
+  }
+
+  function buildIndex(config: RepoConfig): string {
+    try {
+      const indexed = withVersion(effectiveVersion, () => indexRepo(config));
+      return indexed ? `, indexed ${indexed.files} files` : "";
+    } catch (error) {
+      return ` (index not built: ${error instanceof Error ? error.message : String(error)})`;
     }
   }
 
@@ -66,72 +210,333 @@ export async function syncRepos(options: {
     (r) => r.name !== "aztec-packages" && !r.url.includes("noir-lang")
   );
 
-  // Clone aztec-packages first if present
-  if (aztecPackages) {
-    await syncRepo(aztecPackages);
-  }
+  // Start aztec-packages first if present; other repos don't depend on it
+  const aztecDone = aztecPackages ? limit(() => syncRepo(aztecPackages)) : Promise.resolve();
 
-  // Get the Noir commit from aztec-packages (if available)
-  const noirCommit = await getNoirCommitFromAztec();
+  const noirDone = aztecDone.then(async () => {
+    // Get the Noir commit from aztec-packages (if available)
+    const noirCommit = lock ? (lock.noirCommit ?? null) : await getNoirCommitFromAztec(effectiveVersion);
 
-  // Clone Noir repos with the commit from aztec-packages
-  for (const config of noirRepos) {
-    const useAztecCommit = config.name === "noir" && noirCommit;
-    const noirConfig: RepoConfig = useAztecCommit
-      ? { ...config, commit: noirCommit, branch: undefined }
-      : config;
+    // Clone Noir repos with the commit from aztec-packages (a lockfile already pins it)
+    await Promise.all(
+      noirRepos.map((config) => {
+        const useAztecCommit = !lock && config.name === "noir" && noirCommit;
+        const noirConfig: RepoConfig = useAztecCommit
+          ? { ...config, commit: noirCommit, branch: undefined }
+          : config;
 
-    await syncRepo(
-      noirConfig,
-      useAztecCommit ? (s) => s.replace("(commit", "(commit from aztec-packages") : undefined
+        return limit(() =>
+          syncRepo(
+            noirConfig,
+            useAztecCommit ? (s) => s.replace("(commit", "(commit from aztec-packages") : undefined
+          )
+        );
+      })
     );
-  }
+    return noirCommit;
+  });
 
-  // Clone other repos
-  for (const config of otherRepos) {
-    await syncRepo(config);
-  }
+  const [noirCommit] = await Promise.all([noirDone, ...otherRepos.map((config) => limit(() => syncRepo(config)))]);
+
+  // Report in the same order as a sequential sync
+  const ordered = [aztecPackages, ...noirRepos, ...otherRepos]
+    .map((config) => config && results.get(config.name))
+    .filter((r): r is SyncResult["repos"][number] => !!r);
 
-  const allSuccess = results.every(
+  const allSuccess = ordered.every(
     (r) => !r.status.toLowerCase().includes("error")
   );
 
+  let message = allSuccess
+    ? `Successfully synced ${ordered.length} repositories to ${getVersionDir(effectiveVersion)}`
+    : "Some repositories failed to sync";
+
+  if (synced.length > 0) {
+    try {
+      writeManifest({
+        version: effectiveVersion,
+        syncedAt: new Date().toISOString(),
+        noirCommit: noirCommit ?? undefined,
+        repos: synced,
+      });
+    } catch (error) {
+      message += ` (manifest not written: ${error instanceof Error ? error.message : String(error)})`;
+    }
+  }
+
   return {
     success: allSuccess,
-    message: allSuccess
-      ? `Successfully synced ${results.length} repositories to ${REPOS_DIR}`
-      : "Some repositories failed to sync",
+    message,
     version: effectiveVersion,
-    repos: results,
+    repos: ordered,
   };
 }
 
 /**
- * Get status of all configured repositories
+ * Export a version's sync manifest as a lockfile, optionally writing it to a path
+ */
+export function exportLockfile(options: { version?: string; path?: string } = {}): {
+  success: boolean;
+  lockfile?: string;
+  message: string;
+} {
+  const version = options.version || DEFAULT_AZTEC_VERSION;
+  const manifest = isValidVersion(version) ? readManifest(version) : null;
+
+  if (!manifest) {
+    return {
+      success: false,
+      message: `No sync manifest for version '${version}'. Run aztec_sync_repos with that version first.`,
+    };
+  }
+
+  const lockfile = JSON.stringify(manifest, null, 2);
+  if (!options.path) {
+    return { success: true, lockfile, message: `Lockfile for ${version}` };
+  }
+
+  try {
+    writeLockfile(options.path, manifest);
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to write ${options.path}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+  return { success: true, lockfile, message: `Wrote lockfile for ${version} to ${options.path}` };
+}
+
+/**
+ * Get status of all configured repositories for a version, and the list of
+ * installed versions
  */
-export async function getStatus(): Promise<{
+export async function getStatus(options: { version?: string } = {}): Promise<{
   reposDir: string;
+  version: string;
+  syncedAt?: string;
+  noirCommit?: string;
+  versions: {
+    version: string;
+    isDefault: boolean;
+    repos: string[];
+  }[];
   repos: {
     name: string;
     description: string;
     cloned: boolean;
     commit?: string;
+    ref?: string;
   }[];
 }> {
-  const statusMap = await getReposStatus(AZTEC_REPOS);
+  const version = options.version || DEFAULT_AZTEC_VERSION;
+  const configs = options.version ? getAztecRepos(version) : AZTEC_REPOS;
+  const statusMap = isValidVersion(version)
+    ? await getReposStatus(configs, version)
+    : new Map<string, { cloned: boolean; commit?: string }>();
 
-  const repos = AZTEC_REPOS.map((config) => {
+  const manifest = isValidVersion(version) ? readManifest(version) : null;
+
+  const repos = configs.map((config) => {
     const status = statusMap.get(config.name);
     return {
       name: config.name,
       description: config.description,
       cloned: status?.cloned || false,
       commit: status?.commit,
+      ref: manifest?.repos.find((r) => r.name === config.name)?.ref,
     };
   });
 
+  const versions = listInstalledVersions().map((v) => ({
+    version: v,
+    isDefault: v === DEFAULT_AZTEC_VERSION,
+    repos: listClonedRepos(v),
+  }));
+
   return {
     reposDir: REPOS_DIR,
+    version,
+    syncedAt: manifest?.syncedAt,
+    noirCommit: manifest?.noirCommit,
+    versions,
     repos,
   };
 }
+
+export const syncReposTool = defineTool<SyncOptions, SyncResult>({
+  name: "aztec_sync_repos",
+  description:
+    "Clone or update Aztec repositories locally. Run this first to enable searching. " +
+    "Clones: aztec-packages (docs, aztec-nr, contracts), aztec-examples, aztec-starter. " +
+    "Specify a version to clone a specific Aztec release tag.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      version: {
+        type: "string",
+        description:
+          "Aztec version tag to clone (e.g., 'v3.0.0-devnet.6-patch.1'). Defaults to latest supported version.",
+      },
+      force: {
+        type: "boolean",
+        description: "Force re-clone even if repos exist (default: false)",
+      },
+      repos: {
+        type: "array",
+        items: { type: "string", enum: getRepoNames() },
+        description: "Specific repos to sync (default: all)",
+      },
+      lockfile: {
+        type: "string",
+        description:
+          "Path to a lockfile from aztec_export_lockfile. Checks out exactly the version and commits it lists",
+      },
+      concurrency: {
+        type: "integer",
+        minimum: 1,
+        description: "Repos to clone at once (default: 3, or AZTEC_MCP_SYNC_CONCURRENCY)",
+      },
+    },
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      version: string,
+      repos: array(object({ name: string, status: string, commit: string }, ["name", "status"])),
+    },
+    ["success", "message", "version", "repos"]
+  ),
+  localArguments: ["lockfile"],
+  run: (args, { progress, changingResources }) =>
+    changingResources(() =>
+      syncRepos({
+        ...args,
+        onProgress:
+          progress &&
+          ((update) => progress(`${update.repo}: ${update.phase} (${update.completed}/${update.total} repos done)`)),
+      })
+    ),
+  format: formatSyncResult,
+});
+
+export const statusTool = defineTool({
+  name: "aztec_status",
+  description:
+    "Check the status of cloned Aztec repositories - lists installed versions, " +
+    "and shows which repos are available for a version and their commit hashes.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      version: {
+        type: "string",
+        description: "Version to show repository details for (default: the default version)",
+      },
+    },
+  },
+  outputSchema: object(
+    {
+      reposDir: string,
+      version: string,
+      syncedAt: string,
+      noirCommit: string,
+      versions: array(object({ version: string, isDefault: boolean, repos: array(string) }, ["version", "isDefault", "repos"])),
+      repos: array(
+        object({ name: string, description: string, cloned: boolean, commit: string, ref: string }, [
+          "name",
+          "description",
+          "cloned",
+        ])
+      ),
+    },
+    ["reposDir", "version", "versions", "repos"]
+  ),
+  check: (args: { version?: string }) =>
+    args.version && !isValidVersion(args.version) ? `invalid version '${args.version}'` : undefined,
+  run: getStatus,
+  format: formatStatus,
+});
+
+export const exportLockfileTool = defineTool({
+  name: "aztec_export_lockfile",
+  description:
+    "Export the sync manifest of an installed version (repo URLs, refs, full commits, sparse paths) " +
+    "as a lockfile. Pass the lockfile to aztec_sync_repos to reproduce the same checkouts elsewhere.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      version: {
+        type: "string",
+        description: "Installed version to export (default: the default version)",
+      },
+      path: {
+        type: "string",
+        description: "File to write the lockfile to (default: return it only)",
+      },
+    },
+  },
+  outputSchema: object({ ...outcome, lockfile: string }, ["success", "message"]),
+  localArguments: ["path"],
+  run: exportLockfile,
+  format: formatLockfile,
+});
+
+// --- Helper functions ---
+
+/**
+ * Wrap async tasks so that at most `max` of them run at once, starting in call order
+ */
+function createLimiter(max: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (active < max && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+}
+
+/**
+ * Clone config for a lockfile entry, pinned to its commit
+ */
+function lockedRepoConfig(repo: ManifestRepo): RepoConfig {
+  const config = getRepoConfig(repo.name);
+  return {
+    name: repo.name,
+    url: repo.url,
+    commit: repo.commit,
+    sparse: repo.sparse,
+    description: config?.description ?? repo.name,
+    searchPatterns: config?.searchPatterns,
+  };
+}
+
+/**
+ * Manifest entry for a repo that was just synced
+ */
+function manifestEntry(config: RepoConfig, commit: string): ManifestRepo {
+  const refType = config.commit ? "commit" : config.tag ? "tag" : "branch";
+  return {
+    name: config.name,
+    url: config.url,
+    ref: config.commit || config.tag || config.branch || "HEAD",
+    refType,
+    commit,
+    sparse: config.sparse,
+    syncedAt: new Date().toISOString(),
+  };
+}
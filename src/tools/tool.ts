@@ -0,0 +1,108 @@
+/**
+ * Tool definitions - the name, description, and argument and result
+ * schemas of an MCP tool together with the function that runs it
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { staysInReposDir } from "../utils/workspace.js";
+import { ObjectSchema, validateArguments } from "./schemas.js";
+
+/** What a running tool can do besides returning its result */
+export interface ToolContext {
+  /** Report progress; unset when the client didn't ask for progress notifications */
+  progress?: (message: string) => void;
+  /** Run something that replaces synced files, notifying resource subscribers afterwards */
+  changingResources: <T>(run: () => Promise<T>) => Promise<T>;
+  /** The client is remote (HTTP), so it may only reach files in the repos directory */
+  remote?: boolean;
+}
+
+export interface ToolSpec<Args, Result extends Record<string, unknown>> {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  outputSchema: ObjectSchema;
+  /** Checks across arguments the schema can't express; returns the problem, if any */
+  check?: (args: Args) => string | undefined;
+  /** The tool reads or writes paths anywhere on the server's machine, so remote clients don't get it */
+  localOnly?: boolean;
+  /** Arguments naming files anywhere on the server's machine, which remote clients can't pass */
+  localArguments?: string[];
+  /** Arguments holding paths in the repos directory, which remote clients can't point outside it */
+  repoPathArguments?: string[];
+  /** Run the tool with arguments that passed the input schema */
+  run: (args: Args, context: ToolContext) => Result | Promise<Result>;
+  /** Render the result as markdown */
+  format: (result: Result) => string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  /** The input schema advertised to remote clients, without the local arguments */
+  remoteInputSchema: ObjectSchema;
+  outputSchema: ObjectSchema;
+  /** Hidden from remote clients */
+  localOnly: boolean;
+  /**
+   * Validate the arguments and run the tool. Throws an InvalidParams
+   * McpError for arguments that don't match the input schema, or that a
+   * remote client can't pass.
+   */
+  call: (args: Record<string, unknown> | undefined, context: ToolContext) => Promise<{ text: string; result: Record<string, unknown> }>;
+}
+
+/**
+ * Define a tool. Arguments that aren't in the input schema are rejected.
+ */
+export function defineTool<Args, Result extends Record<string, unknown>>(spec: ToolSpec<Args, Result>): ToolDefinition {
+  const { check, run, format, localOnly = false, localArguments = [], repoPathArguments = [], ...info } = spec;
+  const inputSchema: ObjectSchema = { ...spec.inputSchema, additionalProperties: false };
+  const remoteProperties = Object.entries(inputSchema.properties).filter(([name]) => !localArguments.includes(name));
+  const remoteInputSchema: ObjectSchema = { ...inputSchema, properties: Object.fromEntries(remoteProperties) };
+
+  return {
+    ...info,
+    inputSchema,
+    remoteInputSchema,
+    localOnly,
+    call: async (rawArgs, context) => {
+      if (context.remote && localOnly) {
+        throw new McpError(ErrorCode.InvalidRequest, `${spec.name} is only available to local (stdio) clients`);
+      }
+
+      // Null stands for a missing argument, so drop it before the tool sees it
+      const args = Object.fromEntries(Object.entries(rawArgs ?? {}).filter(([, value]) => value !== null));
+      const problems = validateArguments(inputSchema, args);
+      if (context.remote) {
+        problems.push(...remoteProblems(args, localArguments, repoPathArguments));
+      }
+      const problem = problems.length > 0 ? problems.join("; ") : check?.(args as Args);
+      if (problem) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${spec.name}: ${problem}`);
+      }
+
+      const result = await run(args as Args, context);
+      return { text: format(result), result };
+    },
+  };
+}
+
+// --- Helper functions ---
+
+/** Arguments a remote client can't pass: local files, and repo paths that leave the repos directory */
+function remoteProblems(args: Record<string, unknown>, localArguments: string[], repoPathArguments: string[]): string[] {
+  const problems = localArguments
+    .filter((name) => args[name] !== undefined)
+    .map((name) => `${name} names a file on the server, which remote clients can't use`);
+
+  for (const name of repoPathArguments) {
+    const paths = [args[name]].flat().filter((path): path is string => typeof path === "string");
+    const outside = paths.find((path) => !staysInReposDir(path));
+    if (outside !== undefined) {
+      problems.push(`${name} must be relative to the repos directory, without '..' (got ${JSON.stringify(outside)})`);
+    }
+  }
+  return problems;
+}
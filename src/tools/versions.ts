@@ -0,0 +1,199 @@
+/**
+ * Aztec version tools
+ */
+
+import { DEFAULT_AZTEC_VERSION, getRepoConfig } from "../repos/config.js";
+import { isVersionInstalled, listInstalledVersions, listRemoteTags } from "../utils/git.js";
+import { formatVersionsList } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, boolean, integer, object, oneOf, outcome, string } from "./schemas.js";
+
+export type VersionChannel = "stable" | "testnet" | "devnet";
+
+export const VERSION_CHANNELS: VersionChannel[] = ["stable", "testnet", "devnet"];
+
+/** Versions are the tags of this repo */
+const VERSIONS_REPO = "aztec-packages";
+
+/**
+ * Release channel of an aztec-packages tag, or null for tags that aren't
+ * releases (nightlies, release candidates, package-prefixed tags)
+ */
+export function versionChannel(tag: string): VersionChannel | null {
+  const match = tag.match(/^v\d+\.\d+\.\d+(?:-(.+))?$/);
+  if (!match) return null;
+  if (!match[1]) return "stable";
+  if (match[1].includes("devnet")) return "devnet";
+  if (match[1].includes("testnet")) return "testnet";
+  return null;
+}
+
+/**
+ * List the release tags of aztec-packages, newest first, grouped by channel
+ */
+export async function listVersions(
+  options: {
+    channel?: VersionChannel;
+    maxPerChannel?: number;
+    refresh?: boolean;
+  } = {}
+): Promise<{
+  success: boolean;
+  defaultVersion: string;
+  channels: {
+    channel: VersionChannel;
+    total: number;
+    versions: {
+      tag: string;
+      isDefault: boolean;
+      installed: boolean;
+    }[];
+  }[];
+  fetchedAt?: string;
+  message: string;
+}> {
+  const { channel, maxPerChannel = 20, refresh = false } = options;
+
+  let remote: { tags: string[]; fetchedAt: number };
+  try {
+    remote = await listRemoteTags(getRepoConfig(VERSIONS_REPO)!.url, { refresh });
+  } catch (error) {
+    return {
+      success: false,
+      defaultVersion: DEFAULT_AZTEC_VERSION,
+      channels: [],
+      message: `Failed to list versions: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const installed = new Set(listInstalledVersions());
+  const tags = sortNewestFirst(remote.tags);
+
+  const channels = (channel ? [channel] : VERSION_CHANNELS).map((name) => {
+    const inChannel = tags.filter((tag) => versionChannel(tag) === name);
+    return {
+      channel: name,
+      total: inChannel.length,
+      versions: inChannel
+        // The default and installed versions are listed even when older than the cutoff
+        .filter((tag, i) => i < maxPerChannel || tag === DEFAULT_AZTEC_VERSION || installed.has(tag))
+        .map((tag) => ({
+          tag,
+          isDefault: tag === DEFAULT_AZTEC_VERSION,
+          installed: installed.has(tag),
+        })),
+    };
+  });
+
+  const count = channels.reduce((sum, c) => sum + c.total, 0);
+  return {
+    success: true,
+    defaultVersion: DEFAULT_AZTEC_VERSION,
+    channels,
+    fetchedAt: new Date(remote.fetchedAt).toISOString(),
+    message: `Found ${count} release tags`,
+  };
+}
+
+/**
+ * Explain why a requested version can't be searched, or return null when it
+ * is installed (or no version was requested)
+ */
+export function versionError(version?: string): string | null {
+  if (!version || isVersionInstalled(version)) {
+    return null;
+  }
+
+  const installed = listInstalledVersions();
+  return (
+    `Aztec version '${version}' is not installed. Run aztec_sync_repos with version '${version}' first.` +
+    (installed.length > 0 ? ` Installed versions: ${installed.join(", ")}` : "")
+  );
+}
+
+/**
+ * Check a version against the tags of aztec-packages before syncing it.
+ * Returns an error message with close matches for unknown tags, or null when
+ * the tag exists or the remote can't be reached (the clone will report it).
+ */
+export async function unknownVersionError(version: string): Promise<string | null> {
+  const url = getRepoConfig(VERSIONS_REPO)!.url;
+
+  let tags: string[];
+  try {
+    tags = (await listRemoteTags(url)).tags;
+    if (!tags.includes(version)) {
+      // The cache may predate a new release
+      tags = (await listRemoteTags(url, { refresh: true })).tags;
+    }
+  } catch {
+    return null;
+  }
+
+  if (tags.includes(version)) {
+    return null;
+  }
+
+  const base = version.match(/^v?\d+\.\d+\.\d+/)?.[0].replace(/^v?/, "v");
+  const similar = sortNewestFirst(
+    tags.filter((tag) => versionChannel(tag) && (base ? tag.startsWith(base) : tag.includes(version)))
+  ).slice(0, 5);
+
+  return (
+    `Unknown Aztec version '${version}'.` +
+    (similar.length > 0 ? ` Did you mean: ${similar.join(", ")}?` : "") +
+    " Run aztec_list_versions to see available versions."
+  );
+}
+
+export const listVersionsTool = defineTool({
+  name: "aztec_list_versions",
+  description:
+    "List Aztec release tags available to aztec_sync_repos, newest first, grouped by channel " +
+    "(stable, testnet, devnet). Marks the default version and the versions already installed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      channel: {
+        type: "string",
+        enum: VERSION_CHANNELS,
+        description: "Only list this channel",
+      },
+      maxPerChannel: {
+        type: "integer",
+        minimum: 1,
+        description: "Maximum tags per channel (default: 20)",
+      },
+      refresh: {
+        type: "boolean",
+        description: "Query the remote instead of using tags cached within the last hour",
+      },
+    },
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      defaultVersion: string,
+      channels: array(
+        object(
+          {
+            channel: oneOf(VERSION_CHANNELS),
+            total: integer,
+            versions: array(object({ tag: string, isDefault: boolean, installed: boolean }, ["tag", "isDefault", "installed"])),
+          },
+          ["channel", "total", "versions"]
+        )
+      ),
+      fetchedAt: string,
+    },
+    ["success", "message", "defaultVersion", "channels"]
+  ),
+  run: listVersions,
+  format: formatVersionsList,
+});
+
+// --- Helper functions ---
+
+function sortNewestFirst(tags: string[]): string[] {
+  return [...tags].sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+}
@@ -0,0 +1,87 @@
+/**
+ * Workspace tool - register the user's project directories for searching
+ */
+
+import { addWorkspace, listWorkspaces, removeWorkspace, Workspace } from "../utils/workspace.js";
+import { formatWorkspaces } from "../utils/format.js";
+import { defineTool } from "./tool.js";
+import { array, object, oneOf, outcome, string } from "./schemas.js";
+
+/**
+ * Add and remove workspaces, then list the registered ones
+ */
+export function manageWorkspaces(options: { add?: string[]; remove?: string[] }): {
+  success: boolean;
+  workspaces: Workspace[];
+  message: string;
+} {
+  const { add = [], remove = [] } = options;
+  const problems: string[] = [];
+  let added = 0;
+  let removed = 0;
+
+  for (const path of remove) {
+    if (removeWorkspace(path)) removed++;
+    else problems.push(`No workspace '${path}'`);
+  }
+
+  for (const path of add) {
+    try {
+      addWorkspace(path, "tool");
+      added++;
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const workspaces = listWorkspaces();
+  const changes = [
+    ...(added > 0 ? [`Added ${added}`] : []),
+    ...(removed > 0 ? [`Removed ${removed}`] : []),
+  ];
+  const summary =
+    workspaces.length > 0
+      ? `${workspaces.length} workspace${workspaces.length === 1 ? "" : "s"} registered`
+      : "No workspaces registered";
+
+  return {
+    success: problems.length === 0,
+    workspaces,
+    message: [...changes, summary].join(". ") + (problems.length > 0 ? `. ${problems.join("; ")}` : ""),
+  };
+}
+
+export const workspacesTool = defineTool({
+  name: "aztec_workspaces",
+  description:
+    "Register your own project directories so aztec_search_code, aztec_find_symbol, aztec_goto_definition, " +
+    "and aztec_find_references cover them alongside the Aztec repos. Files are read in place and show up " +
+    "under repo 'workspace' as 'workspace/<name>/...'. Call with no arguments to list them.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      add: {
+        type: "array",
+        items: { type: "string" },
+        description: "Directories to register (absolute, or relative to the server's working directory)",
+      },
+      remove: {
+        type: "array",
+        items: { type: "string" },
+        description: "Workspace names or directories to unregister",
+      },
+    },
+  },
+  outputSchema: object(
+    {
+      ...outcome,
+      workspaces: array(
+        object({ name: string, path: string, source: oneOf(["config", "tool", "roots"]) }, ["name", "path", "source"])
+      ),
+    },
+    ["success", "message", "workspaces"]
+  ),
+  localOnly: true,
+  run: manageWorkspaces,
+  format: formatWorkspaces,
+});
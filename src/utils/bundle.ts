@@ -0,0 +1,200 @@
+/**
+ * Offline bundles - a version's checkouts, sync manifest, and search indexes
+ * packed into one tarball for machines without GitHub access
+ */
+
+import { execFile } from "child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join, relative, resolve } from "path";
+import { promisify } from "util";
+import {
+  REPOS_DIR,
+  getVersionDir,
+  isValidVersion,
+  isVersionInstalled,
+  listClonedRepos,
+  makeSelfContained,
+  readHeadCommit,
+  removeVersion,
+} from "./git.js";
+import { getIndexPath } from "./indexer.js";
+import { MANIFEST_FILE, parseManifest, readManifest, SyncManifest } from "./manifest.js";
+import { isPlainObject, isStringList } from "./guards.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Bump when the archive layout changes */
+const BUNDLE_FORMAT = 1;
+
+/** Describes the archive; stored at its root */
+const BUNDLE_INFO_FILE = "bundle.json";
+
+export interface BundleInfo {
+  format: number;
+  version: string;
+  createdAt: string;
+  repos: string[];
+  /** Index files, relative to the data directory (e.g. "index/noir/<commit>.json") */
+  indexes: string[];
+}
+
+/** Directory holding REPOS_DIR and the index directory; archive paths are relative to it */
+const DATA_DIR = dirname(REPOS_DIR);
+
+/**
+ * Pack an installed version into a gzipped tarball. Clones that borrow
+ * objects from another version are made self-contained first.
+ */
+export async function createBundle(version: string, file: string): Promise<BundleInfo & { bytes: number }> {
+  if (!isValidVersion(version) || !isVersionInstalled(version)) {
+    throw new Error(`Aztec version '${version}' is not installed`);
+  }
+  if (!readManifest(version)) {
+    throw new Error(`No sync manifest for version '${version}'. Run aztec_sync_repos with that version first.`);
+  }
+
+  const repos = listClonedRepos(version);
+  for (const repo of repos) {
+    await makeSelfContained(repo, version);
+  }
+
+  const indexes = repos
+    .map((repo) => {
+      const commit = readHeadCommit(repo, version);
+      return commit ? getIndexPath(repo, commit) : null;
+    })
+    .filter((path): path is string => !!path && existsSync(path))
+    .map((path) => relative(DATA_DIR, path));
+
+  const info: BundleInfo = {
+    format: BUNDLE_FORMAT,
+    version,
+    createdAt: new Date().toISOString(),
+    repos,
+    indexes,
+  };
+
+  const staging = mkdtempSync(join(tmpdir(), "aztec-bundle-"));
+  try {
+    writeFileSync(join(staging, BUNDLE_INFO_FILE), JSON.stringify(info, null, 2));
+    const output = resolve(file);
+    mkdirSync(dirname(output), { recursive: true });
+    await execFileAsync("tar", [
+      "-czf",
+      output,
+      "-C",
+      staging,
+      BUNDLE_INFO_FILE,
+      "-C",
+      DATA_DIR,
+      relative(DATA_DIR, getVersionDir(version)),
+      ...indexes,
+    ]);
+    return { ...info, bytes: statSync(output).size };
+  } finally {
+    rmSync(staging, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Unpack a bundle into REPOS_DIR and the index directory. An installed
+ * version is only replaced with force; existing index files are kept.
+ */
+export async function extractBundle(file: string, options: { force?: boolean } = {}): Promise<BundleInfo> {
+  if (!existsSync(file)) {
+    throw new Error(`Bundle not found: ${file}`);
+  }
+
+  // Extract next to REPOS_DIR so the checkouts can be moved into place with a rename
+  mkdirSync(DATA_DIR, { recursive: true });
+  const staging = mkdtempSync(join(DATA_DIR, ".import-"));
+
+  try {
+    await execFileAsync("tar", ["-xzf", resolve(file), "-C", staging]);
+
+    const info = readBundleInfo(join(staging, BUNDLE_INFO_FILE));
+    const extracted = join(staging, relative(DATA_DIR, getVersionDir(info.version)));
+    if (!existsSync(extracted)) {
+      throw new Error(`Bundle has no checkouts for ${info.version}`);
+    }
+    checkBundledVersion(extracted, info);
+
+    if (existsSync(getVersionDir(info.version))) {
+      if (isVersionInstalled(info.version) && !options.force) {
+        throw new Error(`Aztec version '${info.version}' is already installed. Import with force to replace it.`);
+      }
+      await removeVersion(info.version);
+    }
+
+    mkdirSync(REPOS_DIR, { recursive: true });
+    renameSync(extracted, getVersionDir(info.version));
+
+    for (const index of info.indexes) {
+      const target = join(DATA_DIR, index);
+      if (existsSync(target) || !existsSync(join(staging, index))) continue;
+      mkdirSync(dirname(target), { recursive: true });
+      renameSync(join(staging, index), target);
+    }
+
+    return info;
+  } finally {
+    rmSync(staging, { recursive: true, force: true });
+  }
+}
+
+// --- Helper functions ---
+
+function readBundleInfo(path: string): BundleInfo {
+  let info: unknown;
+  try {
+    info = JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    throw new Error("Not an Aztec MCP bundle (missing bundle.json)");
+  }
+
+  if (!isPlainObject(info)) {
+    throw new Error("Not an Aztec MCP bundle (bundle.json is not an object)");
+  }
+  const { format, version, createdAt, repos, indexes } = info;
+  if (format !== BUNDLE_FORMAT) {
+    throw new Error(`Unsupported bundle format ${format}`);
+  }
+  if (typeof version !== "string" || !isValidVersion(version)) {
+    throw new Error("Bundle has no valid version");
+  }
+  if (typeof createdAt !== "string" || !createdAt) {
+    throw new Error("Bundle has no creation time");
+  }
+  // Repo names and index paths are joined onto data directories, so keep them inside
+  if (!isStringList(repos) || !repos.every((name) => /^\w[\w.-]*$/.test(name))) {
+    throw new Error("Bundle has an invalid repo list");
+  }
+  if (!isStringList(indexes) || !indexes.every((p) => /^index\/[\w.-]+\/[0-9a-f]+\.json$/.test(p))) {
+    throw new Error("Bundle has an invalid index list");
+  }
+
+  return { format, version, createdAt, repos, indexes };
+}
+
+/**
+ * Check the extracted version directory against bundle.json: its sync
+ * manifest must be valid (full commits for every repo) and for the same
+ * version, and every listed repo must have a checkout
+ */
+function checkBundledVersion(extracted: string, info: BundleInfo): void {
+  let manifest: SyncManifest;
+  try {
+    manifest = parseManifest(readFileSync(join(extracted, MANIFEST_FILE), "utf-8"));
+  } catch (error) {
+    throw new Error(`Bundle has no valid sync manifest: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (manifest.version !== info.version) {
+    throw new Error(`Bundle manifest is for ${manifest.version}, not ${info.version}`);
+  }
+
+  const missing = info.repos.filter((repo) => !existsSync(join(extracted, repo, ".git")));
+  if (missing.length > 0) {
+    throw new Error(`Bundle has no checkouts for ${missing.join(", ")}`);
+  }
+}
@@ -0,0 +1,589 @@
+/**
+ * Noir crate graph - resolves identifiers and use paths through Nargo.toml
+ * packages and mod trees rather than text matching
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { basename, dirname, join, relative } from "path";
+import { globbySync } from "globby";
+import { getRepoPath, listClonedRepos, readHeadCommit } from "./git.js";
+import { getAllSymbols, parseNoirSymbols, stripCommentsAndStrings, NoirSymbol } from "./symbols.js";
+import { WORKSPACE_REPO, listWorkspaces, resolveRepoFile } from "./workspace.js";
+import type { SearchResult } from "./search.js";
+
+export interface NoirCrate {
+  /** Package name from Nargo.toml */
+  name: string;
+  /** Package type: lib, contract, or bin */
+  type: string;
+  /** Crate directory relative to the version directory */
+  dir: string;
+  /** Crate root file (src/lib.nr or src/main.nr) relative to the version directory */
+  entry: string;
+  repo: string;
+  /** Dependency name -> crate directory relative to the version directory */
+  dependencies: Record<string, string>;
+}
+
+export interface UseEntry {
+  /** Imported path segments, e.g. ["aztec", "note", "note_getter", "get_notes"] */
+  path: string[];
+  /** Name the import is bound to in the importing module ("*" for globs) */
+  alias: string;
+  glob: boolean;
+  line: number;
+}
+
+interface ModuleRef {
+  crate: NoirCrate;
+  /** File holding the module, relative to the version directory */
+  file: string;
+  /** Module path from the crate root */
+  path: string[];
+  /** Name of the inline `mod` or `contract` block within the file, if any */
+  inline?: string;
+}
+
+interface ParsedFile {
+  symbols: NoirSymbol[];
+  uses: UseEntry[];
+  lines: string[];
+}
+
+/** Library sources that definitions resolve to before anything else */
+const LIBRARY_DIRS = ["aztec-packages/noir-projects/aztec-nr/", "noir/noir_stdlib/"];
+
+/** Default places to look for references: examples, reference contracts, starter */
+export const REFERENCE_PATHS = [
+  "aztec-examples",
+  "aztec-packages/noir-projects/noir-contracts",
+  "aztec-starter",
+];
+
+/** Limit on chained re-exports followed while resolving one path */
+const MAX_RESOLVE_DEPTH = 8;
+
+let graph: {
+  key: string;
+  crates: NoirCrate[];
+  byDir: Map<string, NoirCrate>;
+  files: Map<string, ParsedFile | null>;
+} | null = null;
+
+/**
+ * Parse `use` declarations, expanding nested `{...}` groups
+ */
+export function parseUseStatements(source: string): UseEntry[] {
+  const entries: UseEntry[] = [];
+  const code = source.replace(/\/\/.*$/gm, "");
+  const pattern = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?use\s+([^;]+);/gm;
+
+  for (const match of code.matchAll(pattern)) {
+    const line = code.slice(0, match.index).split("\n").length;
+    const tree = match[1].replace(/\s+/g, " ").replace(/\s*(::|[{},])\s*/g, "$1").trim();
+    expandUseTree(tree, [], line, entries);
+  }
+
+  return entries;
+}
+
+/**
+ * All Noir crates (Nargo.toml packages) in the cloned repositories and workspaces
+ */
+export function getCrates(): NoirCrate[] {
+  return getGraph().crates;
+}
+
+/**
+ * Resolve an identifier or use path to its definition.
+ *
+ * Paths such as `aztec::note::note_getter::get_notes` or `dep::std::hash`
+ * are walked through the crate's mod tree and re-exports. Bare identifiers
+ * (`push_nullifier`, `context.push_nullifier`) resolve to matching
+ * declarations in aztec-nr and the Noir stdlib.
+ *
+ * @param options.file - File the path appears in, for crate-relative paths
+ */
+export function resolveDefinition(query: string, options: { file?: string } = {}): NoirSymbol[] {
+  const normalized = query
+    .trim()
+    .replace(/^(?:pub\s+)?use\s+/, "")
+    .replace(/;$/, "")
+    .replace(/\s+/g, "");
+
+  if (normalized.includes("::")) {
+    const from = options.file ? moduleForFile(options.file) : null;
+    const symbol = resolveSegments(normalized.split("::"), from, 0);
+    if (symbol) {
+      return [symbol];
+    }
+  }
+
+  // Fall back to declarations with the same name, preferring library code
+  const segments = normalized.split(/::|\./).filter(Boolean);
+  const name = segments[segments.length - 1];
+  const container = segments.length > 1 ? segments[segments.length - 2] : undefined;
+  if (!name) {
+    return [];
+  }
+
+  const matches = getAllSymbols()
+    .filter((s) => s.name === name && s.kind !== "impl");
+  const inContainer = matches.filter((s) => container !== undefined && s.container === container);
+  const candidates = inContainer.length > 0 ? inContainer : matches;
+  const library = candidates.filter((s) => LIBRARY_DIRS.some((dir) => s.file.startsWith(dir)));
+
+  return library.length > 0 ? library : candidates;
+}
+
+/**
+ * Find references to a definition across example and contract sources.
+ *
+ * A line counts as a reference when it imports the definition, names it
+ * through a path that resolves to it, or uses a name bound by such an
+ * import. Method calls (`.name(`) on methods are included without checking
+ * the receiver's type.
+ */
+export function findReferences(
+  query: string,
+  options: {
+    file?: string;
+    /** Directories relative to the version directory (default: the workspaces and REFERENCE_PATHS) */
+    paths?: string[];
+    maxResults?: number;
+  } = {}
+): { definition: NoirSymbol | null; references: SearchResult[] } {
+  const {
+    file,
+    paths = [...listWorkspaces().map((w) => `${WORKSPACE_REPO}/${w.name}`), ...REFERENCE_PATHS],
+    maxResults = 100,
+  } = options;
+  const definition = resolveDefinition(query, { file })[0] ?? null;
+  if (!definition) {
+    return { definition: null, references: [] };
+  }
+
+  const isTarget = (s: NoirSymbol | null) =>
+    s !== null && s.file === definition.file && s.line === definition.line;
+  const isMethod = definition.kind === "fn" && definition.container !== undefined;
+  const references: SearchResult[] = [];
+
+  for (const searchPath of paths) {
+    const absolute = resolveRepoFile(searchPath);
+    if (!existsSync(absolute)) continue;
+
+    const files = globbySync("**/*.nr", {
+      cwd: absolute,
+      ignore: ["**/node_modules/**", "**/.git/**"],
+    });
+
+    for (const relativeFile of files) {
+      if (references.length >= maxResults) break;
+
+      const candidate = join(searchPath, relativeFile);
+      const parsed = parseFile(candidate);
+      if (!parsed || !parsed.lines.some((l) => l.includes(definition.name))) continue;
+
+      const module = moduleForFile(candidate);
+      const boundNames = new Set<string>();
+      const importLines = new Set<number>();
+
+      for (const use of parsed.uses) {
+        if (use.glob) {
+          if (isTarget(resolveSegments([...use.path, definition.name], module, 0))) {
+            boundNames.add(definition.name);
+          }
+        } else if (use.path[use.path.length - 1] === definition.name) {
+          if (isTarget(resolveSegments(use.path, module, 0))) {
+            boundNames.add(use.alias);
+            importLines.add(use.line);
+          }
+        }
+      }
+
+      const names = new Set([definition.name, ...boundNames]);
+      const pattern = new RegExp(`((?:\\w+::)*)\\b(${[...names].join("|")})\\b`, "g");
+
+      parsed.lines.forEach((text, i) => {
+        if (references.length >= maxResults) return;
+        if (candidate === definition.file && i + 1 === definition.line) return;
+
+        const code = stripCommentsAndStrings(text);
+        const isReference =
+          importLines.has(i + 1) ||
+          [...code.matchAll(pattern)].some((match) => {
+            const [, prefix, name] = match;
+            if (prefix) {
+              const path = [...prefix.split("::").filter(Boolean), name];
+              return isTarget(resolveSegments(path, module, 0));
+            }
+            if (boundNames.has(name)) return true;
+            return isMethod && code[match.index - 1] === ".";
+          });
+
+        if (isReference) {
+          references.push({
+            file: candidate,
+            line: i + 1,
+            content: text.trim(),
+            repo: candidate.split("/")[0],
+          });
+        }
+      });
+    }
+  }
+
+  return { definition, references };
+}
+
+// --- Helper functions ---
+
+function getGraph(): NonNullable<typeof graph> {
+  const repos = listClonedRepos();
+  const workspaces = listWorkspaces();
+  const key = [
+    ...repos.map((repo) => `${repo}@${readHeadCommit(repo)}`),
+    ...workspaces.map((w) => `${WORKSPACE_REPO}/${w.name}=${w.path}`),
+  ].join(",");
+  if (graph && graph.key === key) {
+    return graph;
+  }
+
+  const crates: NoirCrate[] = [];
+  const roots = [
+    ...repos.map((repo) => ({ dir: repo, path: getRepoPath(repo), repo })),
+    ...workspaces.map((w) => ({ dir: `${WORKSPACE_REPO}/${w.name}`, path: w.path, repo: WORKSPACE_REPO })),
+  ];
+  for (const root of roots) {
+    const manifests = globbySync("**/Nargo.toml", {
+      cwd: root.path,
+      ignore: ["**/node_modules/**", "**/.git/**"],
+    });
+    for (const manifest of manifests) {
+      const crate = parseManifest(join(root.dir, manifest), root.repo);
+      if (crate) crates.push(crate);
+    }
+  }
+
+  graph = {
+    key,
+    crates,
+    byDir: new Map(crates.map((c) => [c.dir, c])),
+    files: new Map(),
+  };
+  return graph;
+}
+
+/**
+ * Read the package name, type, and dependencies from a Nargo.toml
+ */
+function parseManifest(manifest: string, repo: string): NoirCrate | null {
+  let text: string;
+  try {
+    text = readFileSync(resolveRepoFile(manifest), "utf-8");
+  } catch {
+    return null;
+  }
+
+  const dir = dirname(manifest);
+  const dependencies: Record<string, string> = {};
+  let section = "";
+  let name: string | undefined;
+  let type = "bin";
+
+  for (const raw of text.split("\n")) {
+    const line = raw.replace(/\s+#.*$/, "").trim();
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      section = header[1].trim();
+      continue;
+    }
+
+    const entry = line.match(/^([\w-]+)\s*=\s*(.+)$/);
+    if (!entry) continue;
+    const [, key, value] = entry;
+
+    if (section === "package") {
+      if (key === "name") name = value.replace(/^"|"$/g, "");
+      if (key === "type") type = value.replace(/^"|"$/g, "");
+    } else if (section === "dependencies") {
+      const target = dependencyDir(dir, value);
+      if (target) dependencies[key] = target;
+    }
+  }
+
+  if (!name) {
+    // Workspace manifests have no package
+    return null;
+  }
+
+  return {
+    name,
+    type,
+    dir,
+    entry: join(dir, "src", type === "lib" ? "lib.nr" : "main.nr"),
+    repo,
+    dependencies,
+  };
+}
+
+/**
+ * Map a dependency spec to a local crate directory. Git dependencies are
+ * matched to the cloned repo of the same name.
+ */
+function dependencyDir(crateDir: string, spec: string): string | null {
+  const field = (key: string) => spec.match(new RegExp(`\\b${key}\\s*=\\s*"([^"]*)"`))?.[1];
+
+  const path = field("path");
+  if (path !== undefined) {
+    return join(crateDir, path);
+  }
+
+  const git = field("git");
+  if (git !== undefined) {
+    const repo = git.replace(/\/+$/, "").replace(/\.git$/, "").split("/").pop()!;
+    return join(repo, field("directory") ?? "");
+  }
+
+  return null;
+}
+
+function findCrate(name: string, from?: NoirCrate): NoirCrate | null {
+  const { crates, byDir } = getGraph();
+
+  const dependency = from?.dependencies[name];
+  if (dependency && byDir.has(dependency)) {
+    return byDir.get(dependency)!;
+  }
+  if (from && from.name === name) {
+    return from;
+  }
+
+  const candidates = crates.filter((c) => c.name === name);
+  const rank = (c: NoirCrate) =>
+    (LIBRARY_DIRS.some((dir) => `${c.dir}/`.startsWith(dir)) ? 0 : 2) + (c.type === "lib" ? 0 : 1);
+  candidates.sort((a, b) => rank(a) - rank(b) || a.dir.length - b.dir.length);
+
+  return candidates[0] ?? null;
+}
+
+function parseFile(file: string): ParsedFile | null {
+  const { files } = getGraph();
+  if (files.has(file)) {
+    return files.get(file)!;
+  }
+
+  let parsed: ParsedFile | null = null;
+  try {
+    const source = readFileSync(resolveRepoFile(file), "utf-8");
+    parsed = {
+      symbols: parseNoirSymbols(source, file, file.split("/")[0]),
+      uses: parseUseStatements(source),
+      lines: source.split("\n"),
+    };
+  } catch {
+    // Missing module file
+  }
+
+  // Workspace files are being edited, so read them fresh each time
+  if (!file.startsWith(`${WORKSPACE_REPO}/`)) {
+    files.set(file, parsed);
+  }
+  return parsed;
+}
+
+function rootModule(crate: NoirCrate): ModuleRef {
+  return { crate, file: crate.entry, path: [] };
+}
+
+/**
+ * Work out which crate and module a source file belongs to from its location
+ */
+function moduleForFile(file: string): ModuleRef | null {
+  const crate = getGraph()
+    .crates.filter((c) => file.startsWith(`${c.dir}/`))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+  if (!crate) {
+    return null;
+  }
+
+  const path = relative(join(crate.dir, "src"), file).replace(/\.nr$/, "").split("/");
+  if (file === crate.entry) {
+    return rootModule(crate);
+  }
+  if (path[path.length - 1] === "mod") {
+    path.pop();
+  }
+  return { crate, file, path };
+}
+
+/**
+ * Find the module a `mod name` declaration points to, inline or in a file
+ */
+function childModule(module: ModuleRef, name: string): ModuleRef | null {
+  const declaration = parseFile(module.file)?.symbols.find(
+    (s) =>
+      (s.kind === "mod" || s.kind === "contract") &&
+      s.name === name &&
+      s.container === module.inline
+  );
+  if (!declaration) {
+    return null;
+  }
+
+  const path = [...module.path, name];
+  if (!declaration.signature.endsWith(";")) {
+    return { crate: module.crate, file: module.file, path, inline: name };
+  }
+
+  const base =
+    module.file === module.crate.entry || basename(module.file) === "mod.nr"
+      ? dirname(module.file)
+      : module.file.replace(/\.nr$/, "");
+
+  for (const candidate of [join(base, `${name}.nr`), join(base, name, "mod.nr")]) {
+    if (existsSync(resolveRepoFile(candidate))) {
+      return { crate: module.crate, file: candidate, path };
+    }
+  }
+
+  return null;
+}
+
+function resolveSegments(segments: string[], from: ModuleRef | null, depth: number): NoirSymbol | null {
+  if (depth > MAX_RESOLVE_DEPTH) {
+    return null;
+  }
+
+  let [first, ...rest] = segments;
+  if (first === "dep") {
+    [first, ...rest] = rest;
+  }
+  if (!first) {
+    return null;
+  }
+
+  let module: ModuleRef | null = null;
+  if (first === "crate" && from) {
+    module = rootModule(from.crate);
+  } else if (first === "self" && from) {
+    module = from;
+  } else if (first === "super" && from) {
+    module = moduleAtPath(from.crate, from.path.slice(0, -1));
+  } else {
+    const crate = findCrate(first, from?.crate);
+    if (crate) {
+      module = rootModule(crate);
+    } else if (from) {
+      // Name relative to the current module: a local item, child mod, or import
+      module = from;
+      rest = [first, ...rest];
+    }
+  }
+
+  return module ? walkModule(module, rest, depth) : null;
+}
+
+function moduleAtPath(crate: NoirCrate, path: string[]): ModuleRef | null {
+  let module: ModuleRef | null = rootModule(crate);
+  for (const name of path) {
+    module = module && childModule(module, name);
+  }
+  return module;
+}
+
+function walkModule(module: ModuleRef, segments: string[], depth: number): NoirSymbol | null {
+  const [name, ...rest] = segments;
+  if (!name) {
+    return null;
+  }
+
+  const parsed = parseFile(module.file);
+  if (!parsed) {
+    return null;
+  }
+
+  const child = childModule(module, name);
+  if (child) {
+    if (rest.length > 0) {
+      return walkModule(child, rest, depth);
+    }
+    const declaration = parsed.symbols.find((s) => s.name === name && s.container === module.inline)!;
+    return child.file === module.file ? declaration : { ...declaration, file: child.file, line: 1 };
+  }
+
+  const local = parsed.symbols.find(
+    (s) => s.name === name && s.container === module.inline && s.kind !== "impl"
+  );
+  if (local) {
+    if (rest.length === 0) return local;
+    // Associated item: Type::method, with the impl anywhere in the crate
+    if (rest.length === 1) return findMethod(module.crate, name, rest[0]);
+    return null;
+  }
+
+  // Imports and re-exports bound in this module
+  const named = parsed.uses.find((u) => !u.glob && u.alias === name);
+  if (named) {
+    return resolveSegments([...named.path, ...rest], module, depth + 1);
+  }
+
+  for (const use of parsed.uses.filter((u) => u.glob)) {
+    const found = resolveSegments([...use.path, name, ...rest], module, depth + 1);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+function findMethod(crate: NoirCrate, typeName: string, method: string): NoirSymbol | null {
+  return (
+    getAllSymbols(crate.repo).find(
+      (s) =>
+        s.kind === "fn" &&
+        s.name === method &&
+        s.container === typeName &&
+        s.file.startsWith(`${crate.dir}/`)
+    ) ?? null
+  );
+}
+
+function expandUseTree(tree: string, prefix: string[], line: number, out: UseEntry[]): void {
+  const open = tree.indexOf("{");
+
+  if (open === -1) {
+    const [pathText, alias] = tree.split(" as ");
+    const path = [...prefix, ...pathText.split("::").filter(Boolean)];
+    const last = path[path.length - 1];
+
+    if (last === "*") {
+      out.push({ path: path.slice(0, -1), alias: "*", glob: true, line });
+      return;
+    }
+    if (last === "self") {
+      path.pop();
+    }
+    if (path.length > 0) {
+      out.push({ path, alias: alias?.trim() || path[path.length - 1], glob: false, line });
+    }
+    return;
+  }
+
+  const base = tree.slice(0, open).replace(/::$/, "");
+  const nested = [...prefix, ...base.split("::").filter(Boolean)];
+  const inner = tree.slice(open + 1, tree.lastIndexOf("}"));
+
+  // Split the group on top-level commas only
+  let level = 0;
+  let start = 0;
+  for (let i = 0; i <= inner.length; i++) {
+    const char = inner[i];
+    if (char === "{") level++;
+    else if (char === "}") level--;
+    else if ((char === "," && level === 0) || i === inner.length) {
+      const part = inner.slice(start, i).trim();
+      if (part) expandUseTree(part, nested, line, out);
+      start = i + 1;
+    }
+  }
+}
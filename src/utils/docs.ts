@@ -0,0 +1,164 @@
+/**
+ * Maps between documentation files and their docs.aztec.network pages,
+ * following Docusaurus doc id and slug conventions
+ */
+
+import { readFileSync } from "fs";
+import { join, relative } from "path";
+import { globbySync } from "globby";
+import { getVersionDir, readHeadCommit } from "./git.js";
+import { parseMarkdownSections } from "./markdown.js";
+
+/** Docs content root, relative to the version directory */
+export const DOCS_ROOT = "aztec-packages/docs/docs";
+
+/** Public docs site - can be overridden via AZTEC_DOCS_BASE_URL env var */
+export const DOCS_BASE_URL = (process.env.AZTEC_DOCS_BASE_URL || "https://docs.aztec.network").replace(
+  /\/+$/,
+  ""
+);
+
+export interface DocPage {
+  /** File path relative to the version directory */
+  file: string;
+  /** Docusaurus doc id, e.g. "developers/guides/writing_contracts" */
+  id: string;
+  /** URL path on the docs site, e.g. "/developers/guides/writing_contracts" */
+  route: string;
+  url: string;
+  title: string;
+  /** Frontmatter slug, if the page sets one */
+  slug?: string;
+}
+
+let pageCache: { commit: string; pages: DocPage[] } | null = null;
+
+/**
+ * Describe a docs file as a page on the docs site
+ * @param file - Path relative to the version directory, inside DOCS_ROOT
+ * @param source - File contents (for frontmatter id, slug, and title)
+ */
+export function toDocPage(file: string, source: string): DocPage {
+  const { title, frontmatter } = parseMarkdownSections(source);
+
+  // Docusaurus strips number prefixes ("01-intro") from ids and URLs
+  const segments = relative(DOCS_ROOT, file)
+    .replace(/\.mdx?$/, "")
+    .split("/")
+    .map((s) => s.replace(/^\d+[-_.]/, ""));
+
+  if (frontmatter.id) {
+    segments[segments.length - 1] = frontmatter.id;
+  }
+  const id = segments.join("/");
+
+  let route: string;
+  if (frontmatter.slug) {
+    route = frontmatter.slug.startsWith("/")
+      ? frontmatter.slug
+      : `/${[...segments.slice(0, -1), frontmatter.slug].join("/")}`;
+  } else {
+    const last = segments[segments.length - 1];
+    const parent = segments[segments.length - 2];
+    // index.md, README.md, and foo/foo.md are served at the folder URL
+    const isIndex = /^(index|readme)$/i.test(last) || last === parent;
+    route = `/${(isIndex ? segments.slice(0, -1) : segments).join("/")}`;
+  }
+  route = normalizeRoute(route);
+
+  return {
+    file,
+    id,
+    route,
+    url: `${DOCS_BASE_URL}${route === "/" ? "" : route}`,
+    title: title || segments[segments.length - 1],
+    slug: frontmatter.slug,
+  };
+}
+
+/**
+ * All docs pages in the synced aztec-packages checkout
+ */
+export function listDocPages(): DocPage[] {
+  const commit = readHeadCommit("aztec-packages") ?? "";
+  if (pageCache && pageCache.commit === commit) {
+    return pageCache.pages;
+  }
+
+  const pages: DocPage[] = [];
+  const files = globbySync("**/*.{md,mdx}", {
+    cwd: join(getVersionDir(), DOCS_ROOT),
+    ignore: ["**/node_modules/**", "**/_*"],
+  });
+
+  for (const file of files) {
+    const path = join(DOCS_ROOT, file);
+    try {
+      pages.push(toDocPage(path, readFileSync(join(getVersionDir(), path), "utf-8")));
+    } catch {
+      // Skip files that can't be read
+    }
+  }
+
+  pageCache = { commit, pages };
+  return pages;
+}
+
+/**
+ * Find the docs page for a docs.aztec.network URL, a doc id, or a slug.
+ * Version segments (/next/, /v1.2.0/) and unknown path prefixes are
+ * tolerated by falling back to the longest matching route suffix.
+ */
+export function resolveDocPage(ref: string): DocPage | null {
+  const pages = listDocPages();
+  let target = ref.trim();
+
+  if (/^https?:\/\//.test(target)) {
+    try {
+      target = new URL(target).pathname;
+    } catch {
+      return null;
+    }
+  }
+  target = target.replace(/[?#].*$/, "");
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep the raw path
+  }
+
+  const route = normalizeRoute(target.startsWith("/") ? target : `/${target}`);
+  const id = route.slice(1);
+
+  const exact =
+    pages.find((p) => p.route === route) ??
+    pages.find((p) => p.id === id) ??
+    pages.find((p) => p.slug !== undefined && normalizeRoute(p.slug) === route);
+  if (exact) {
+    return exact;
+  }
+
+  // e.g. /next/developers/foo or /developers/docs/foo for a page routed at /developers/foo
+  const containing = pages
+    .filter((p) => p.route !== "/" && route.endsWith(p.route))
+    .sort((a, b) => b.route.length - a.route.length);
+  if (containing.length > 0) {
+    return containing[0];
+  }
+
+  // A partial id or route such as "guides/writing_contracts"
+  const contained = pages
+    .filter((p) => route !== "/" && p.route.endsWith(route))
+    .sort((a, b) => a.route.length - b.route.length);
+  return contained[0] ?? null;
+}
+
+// --- Helper functions ---
+
+function normalizeRoute(route: string): string {
+  const normalized = route
+    .replace(/\/{2,}/g, "/")
+    .replace(/\.mdx?$/, "")
+    .replace(/\/+$/, "");
+  return normalized || "/";
+}
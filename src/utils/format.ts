@@ -3,7 +3,12 @@
  */
 
 import type { SyncResult } from "../tools/sync.js";
+import type { SignatureChange } from "../tools/diff.js";
 import type { SearchResult, FileInfo } from "./search.js";
+import type { NoirSymbol } from "./symbols.js";
+import type { DocPage } from "./docs.js";
+import type { SimilarMatch } from "./similarity.js";
+import type { MigrationEntry } from "./migration.js";
 
 export function formatSyncResult(result: SyncResult): string {
   const lines = [
@@ -17,7 +22,8 @@ export function formatSyncResult(result: SyncResult): string {
 
   for (const repo of result.repos) {
     const icon = repo.status.toLowerCase().includes("error") ? "✗" : "✓";
-    lines.push(`  ${icon} ${repo.name}: ${repo.status}`);
+    const commit = repo.commit ? ` (${repo.commit.slice(0, 7)})` : "";
+    lines.push(`  ${icon} ${repo.name}${commit}: ${repo.status}`);
   }
 
   return lines.join("\n");
@@ -25,11 +31,20 @@ export function formatSyncResult(result: SyncResult): string {
 
 export function formatStatus(status: {
   reposDir: string;
+  version: string;
+  syncedAt?: string;
+  noirCommit?: string;
+  versions: {
+    version: string;
+    isDefault: boolean;
+    repos: string[];
+  }[];
   repos: {
     name: string;
     description: string;
     cloned: boolean;
     commit?: string;
+    ref?: string;
   }[];
 }): string {
   const lines = [
@@ -37,13 +52,30 @@ export function formatStatus(status: {
     "",
     `Repos directory: ${status.reposDir}`,
     "",
-    "Repositories:",
+    "Installed versions:",
   ];
 
+  for (const version of status.versions) {
+    const marker = version.isDefault ? " (default)" : "";
+    lines.push(`  - ${version.version}${marker}: ${version.repos.join(", ")}`);
+  }
+  if (status.versions.length === 0) {
+    lines.push("  (none)");
+  }
+
+  lines.push("", `Repositories (${status.version}):`);
+  if (status.syncedAt) {
+    lines.push(`Last synced: ${status.syncedAt}`);
+  }
+  if (status.noirCommit) {
+    lines.push(`Noir commit from aztec-packages: ${status.noirCommit}`);
+  }
+
   for (const repo of status.repos) {
     const icon = repo.cloned ? "✓" : "○";
     const commit = repo.commit ? ` (${repo.commit})` : "";
-    lines.push(`  ${icon} ${repo.name}${commit}`);
+    const ref = repo.ref ? ` @ ${repo.ref}` : "";
+    lines.push(`  ${icon} ${repo.name}${ref}${commit}`);
     lines.push(`    ${repo.description}`);
   }
 
@@ -56,10 +88,93 @@ export function formatStatus(status: {
   return lines.join("\n");
 }
 
+export function formatBundleResult(result: {
+  success: boolean;
+  version?: string;
+  repos: string[];
+  message: string;
+}): string {
+  if (!result.success) {
+    return result.message;
+  }
+
+  const lines = [result.message, "", `Repositories (${result.version}):`];
+  for (const repo of result.repos) {
+    lines.push(`  - ${repo}`);
+  }
+  return lines.join("\n");
+}
+
+export function formatWorkspaces(result: {
+  success: boolean;
+  workspaces: { name: string; path: string; source: string }[];
+  message: string;
+}): string {
+  const lines = [result.message];
+
+  if (result.workspaces.length > 0) {
+    lines.push("");
+    for (const workspace of result.workspaces) {
+      lines.push(`  workspace/${workspace.name} -> ${workspace.path} (${workspace.source})`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatLockfile(result: { success: boolean; lockfile?: string; message: string }): string {
+  if (!result.success || !result.lockfile) {
+    return result.message;
+  }
+  return [result.message, "", "```json", result.lockfile, "```"].join("\n");
+}
+
+export function formatVersionsList(result: {
+  success: boolean;
+  defaultVersion: string;
+  channels: {
+    channel: string;
+    total: number;
+    versions: {
+      tag: string;
+      isDefault: boolean;
+      installed: boolean;
+    }[];
+  }[];
+  fetchedAt?: string;
+  message: string;
+}): string {
+  if (!result.success) {
+    return result.message;
+  }
+
+  const lines = [result.message, `Default version: ${result.defaultVersion}`];
+  if (result.fetchedAt) {
+    lines.push(`Tags as of ${result.fetchedAt}`);
+  }
+
+  for (const channel of result.channels) {
+    lines.push("", `${channel.channel} (${channel.total}):`);
+    for (const version of channel.versions) {
+      const marks = [version.isDefault && "default", version.installed && "installed"].filter(Boolean);
+      lines.push(`  - ${version.tag}${marks.length > 0 ? ` (${marks.join(", ")})` : ""}`);
+    }
+    if (channel.versions.length < channel.total) {
+      lines.push(`  ... ${channel.total - channel.versions.length} older`);
+    }
+    if (channel.total === 0) {
+      lines.push("  (none)");
+    }
+  }
+
+  return lines.join("\n");
+}
+
 export function formatSearchResults(result: {
   success: boolean;
   results: SearchResult[];
   message: string;
+  nextCursor?: string;
 }): string {
   const lines = [result.message, ""];
 
@@ -67,10 +182,145 @@ export function formatSearchResults(result: {
     return lines.join("\n");
   }
 
+  // Group by file, keeping the order in which files first appear
+  const byFile = new Map<string, SearchResult[]>();
   for (const match of result.results) {
-    lines.push(`**${match.file}:${match.line}**`);
+    if (!byFile.has(match.file)) {
+      byFile.set(match.file, []);
+    }
+    byFile.get(match.file)!.push(match);
+  }
+
+  for (const [file, matches] of byFile) {
+    const scores = matches.filter((m) => m.score !== undefined).map((m) => m.score!);
+    const score = scores.length > 0 ? ` (score: ${Math.max(...scores)})` : "";
+    const count = matches.length > 1 ? ` (${matches.length} matches)` : "";
+    lines.push(`**${file}**${count}${score}`);
+    if (matches[0].url) lines.push(matches[0].url);
+
+    if (matches.some((m) => m.sectionContent !== undefined)) {
+      for (const match of matches) {
+        if (match.breadcrumb?.length) lines.push(`_${match.breadcrumb.join(" > ")}_`);
+        lines.push("```markdown");
+        lines.push(match.sectionContent ?? match.content);
+        lines.push("```");
+      }
+      lines.push("");
+      continue;
+    }
+
+    for (const range of mergeRanges(matches)) {
+      if (range.breadcrumb?.length) lines.push(`_${range.breadcrumb.join(" > ")}_`);
+      lines.push("```");
+      for (const [lineNum, text] of range.lines) {
+        // grep-style separators: ":" marks a match, "-" marks context
+        const separator = range.matched.has(lineNum) ? ":" : "-";
+        lines.push(`${lineNum}${separator} ${text}`);
+      }
+      lines.push("```");
+    }
+    lines.push("");
+  }
+
+  if (result.nextCursor) lines.push(formatNextCursor(result.nextCursor));
+
+  return lines.join("\n");
+}
+
+function formatNextCursor(cursor: string): string {
+  return `More results available. Pass cursor: "${cursor}" to get the next page.`;
+}
+
+/**
+ * Merge the context windows of matches in one file into non-overlapping ranges
+ */
+function mergeRanges(
+  matches: SearchResult[]
+): { lines: Map<number, string>; matched: Set<number>; breadcrumb?: string[] }[] {
+  const ranges: {
+    end: number;
+    lines: Map<number, string>;
+    matched: Set<number>;
+    breadcrumb?: string[];
+  }[] = [];
+  const sorted = [...matches].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+  for (const match of sorted) {
+    const line = match.line ?? 0;
+    const before = match.contextBefore ?? [];
+    const after = match.contextAfter ?? [];
+    const start = line - before.length;
+    const end = line + after.length;
+
+    let range = ranges[ranges.length - 1];
+    // Adjacent or overlapping windows are shown as one block
+    if (!range || start > range.end + 1) {
+      range = { end, lines: new Map(), matched: new Set(), breadcrumb: match.breadcrumb };
+      ranges.push(range);
+    }
+
+    before.forEach((text, i) => {
+      if (!range.lines.has(start + i)) range.lines.set(start + i, text);
+    });
+    range.lines.set(line, match.content);
+    after.forEach((text, i) => {
+      if (!range.lines.has(line + 1 + i)) range.lines.set(line + 1 + i, text);
+    });
+    range.matched.add(line);
+    range.end = Math.max(range.end, end);
+  }
+
+  return ranges.map(({ lines, matched, breadcrumb }) => ({
+    lines: new Map([...lines].sort(([a], [b]) => a - b)),
+    matched,
+    breadcrumb,
+  }));
+}
+
+export function formatSymbolResults(result: {
+  success: boolean;
+  symbols: NoirSymbol[];
+  message: string;
+}): string {
+  const lines = [result.message, ""];
+
+  if (!result.success || result.symbols.length === 0) {
+    return lines.join("\n");
+  }
+
+  for (const symbol of result.symbols) {
+    const container = symbol.container ? ` in ${symbol.container}` : "";
+    lines.push(`**${symbol.name}** (${symbol.kind}${container}) - ${symbol.file}:${symbol.line}`);
+    if (symbol.doc) {
+      lines.push(...symbol.doc.split("\n").map((l) => `> ${l}`));
+    }
+    lines.push("```noir");
+    lines.push(symbol.signature);
     lines.push("```");
-    lines.push(match.content);
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+export function formatSimilarResults(result: {
+  success: boolean;
+  matches: SimilarMatch[];
+  message: string;
+}): string {
+  const lines = [result.message, ""];
+
+  if (!result.success || result.matches.length === 0) {
+    return lines.join("\n");
+  }
+
+  for (const match of result.matches) {
+    const container = match.container ? ` in ${match.container}` : "";
+    lines.push(
+      `**${match.name}** (${match.kind}${container}) - ${match.file}:${match.line}-${match.endLine} (similarity: ${match.score})`
+    );
+    lines.push("```noir");
+    lines.push(match.signature);
     lines.push("```");
     lines.push("");
   }
@@ -78,10 +328,132 @@ export function formatSearchResults(result: {
   return lines.join("\n");
 }
 
+export function formatHistory(result: {
+  success: boolean;
+  commits: { commit: string; date: string; author: string; subject: string; tag?: string }[];
+  message: string;
+}): string {
+  const lines = [result.message];
+
+  if (result.commits.length > 0) {
+    lines.push("");
+    for (const commit of result.commits) {
+      const release = commit.tag ? ` [${commit.tag}]` : "";
+      lines.push(`  ${commit.commit.slice(0, 10)} ${commit.date.slice(0, 10)}${release} ${commit.subject} (${commit.author})`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatVersionDiff(result: {
+  success: boolean;
+  diff?: string;
+  truncated?: boolean;
+  changes?: SignatureChange[];
+  message: string;
+}): string {
+  const lines = [result.message];
+
+  if (!result.success) {
+    return result.message;
+  }
+
+  if (result.diff) {
+    lines.push("", "```diff", result.diff, "```");
+    if (result.truncated) {
+      lines.push("", "Diff truncated. Narrow the path or raise maxLines to see more.");
+    }
+  }
+
+  const headings = { removed: "Removed", added: "Added", changed: "Changed" };
+  for (const change of ["removed", "added", "changed"] as const) {
+    const changes = result.changes?.filter((c) => c.change === change) ?? [];
+    if (changes.length === 0) continue;
+
+    lines.push("", `${headings[change]}:`, "");
+    for (const c of changes) {
+      const name = c.container ? `${c.container}::${c.name}` : c.name;
+      const at = c.after ?? c.before!;
+      lines.push(`**${name}** (${c.kind}) - ${at.file}:${at.line}`);
+      lines.push("```diff");
+      if (c.before) lines.push(`- ${c.before.signature}`);
+      if (c.after) lines.push(`+ ${c.after.signature}`);
+      lines.push("```");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatMigrationGuide(result: {
+  success: boolean;
+  entries: MigrationEntry[];
+  message: string;
+}): string {
+  const lines = [result.message];
+  let version: string | null = null;
+
+  for (const entry of result.entries) {
+    if (entry.version !== version) {
+      version = entry.version;
+      lines.push("", `## ${version}`);
+    }
+    lines.push("");
+    if (entry.title) {
+      lines.push(`### ${entry.title}`);
+    }
+    lines.push(`_${entry.file}:${entry.line}_`, "", entry.content);
+  }
+
+  return lines.join("\n");
+}
+
+export function formatReferenceResults(result: {
+  success: boolean;
+  definition?: NoirSymbol;
+  results: SearchResult[];
+  message: string;
+}): string {
+  if (!result.definition) {
+    return result.message;
+  }
+
+  const { definition } = result;
+  const lines = [
+    `Definition: **${definition.name}** (${definition.kind}) - ${definition.file}:${definition.line}`,
+    "",
+  ];
+
+  return lines.join("\n") + formatSearchResults(result);
+}
+
+export function formatDocContent(result: {
+  success: boolean;
+  page?: DocPage;
+  content?: string;
+  message: string;
+}): string {
+  if (!result.success || !result.page || !result.content) {
+    return result.message;
+  }
+
+  const lines = [
+    `**${result.page.title}**`,
+    `URL: ${result.page.url}`,
+    `Path: ${result.page.file}`,
+    "",
+    result.content,
+  ];
+
+  return lines.join("\n");
+}
+
 export function formatExamplesList(result: {
   success: boolean;
   examples: FileInfo[];
   message: string;
+  nextCursor?: string;
 }): string {
   const lines = [result.message, ""];
 
@@ -106,6 +478,8 @@ export function formatExamplesList(result: {
     lines.push("");
   }
 
+  if (result.nextCursor) lines.push(formatNextCursor(result.nextCursor));
+
   return lines.join("\n");
 }
 
@@ -3,63 +3,219 @@
  */
 
 import { simpleGit, SimpleGit } from "simple-git";
-import { existsSync, mkdirSync, rmSync } from "fs";
-import { join } from "path";
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
 import { homedir } from "os";
-import { RepoConfig } from "../repos/config.js";
+import { RepoConfig, DEFAULT_AZTEC_VERSION } from "../repos/config.js";
+import { isPlainObject, isStringList } from "./guards.js";
 
-/** Base directory for cloned repos */
+/** Base directory for cloned repos, one subdirectory per Aztec version */
 export const REPOS_DIR = join(
   process.env.AZTEC_MCP_REPOS_DIR || join(homedir(), ".aztec-mcp"),
   "repos"
 );
 
+/** Cached `git ls-remote --tags` results, keyed by remote URL */
+const TAGS_CACHE_FILE = join(dirname(REPOS_DIR), "tags.json");
+
+/** How long cached remote tags are trusted before asking the remote again */
+const TAGS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Version that repo lookups use when none is passed (see withVersion) */
+let activeVersion = DEFAULT_AZTEC_VERSION;
+
+/**
+ * Ensure the directory for a version exists
+ */
+export function ensureReposDir(version?: string): void {
+  mkdirSync(getVersionDir(version), { recursive: true });
+}
+
+/**
+ * Get the directory holding a version's checkouts. Result file paths are
+ * relative to this directory (e.g. "aztec-packages/docs/...").
+ */
+export function getVersionDir(version: string = activeVersion): string {
+  return join(REPOS_DIR, version);
+}
+
+/**
+ * Run a synchronous function with repo lookups (getRepoPath, isRepoCloned,
+ * readHeadCommit, listClonedRepos, getVersionDir) resolved against the given
+ * version. Async code must pass the version explicitly instead, since the
+ * previous version is restored as soon as fn returns.
+ */
+export function withVersion<T>(version: string | undefined, fn: () => T): T {
+  if (!version) {
+    return fn();
+  }
+
+  const previous = activeVersion;
+  activeVersion = version;
+  try {
+    return fn();
+  } finally {
+    activeVersion = previous;
+  }
+}
+
+/**
+ * Check that a version name is safe to use as a directory name
+ */
+export function isValidVersion(version: string): boolean {
+  return /^\w[\w.+-]*$/.test(version);
+}
+
+/**
+ * List versions with at least one cloned repository, oldest first
+ */
+export function listInstalledVersions(): string[] {
+  try {
+    return readdirSync(REPOS_DIR)
+      .filter((v) => isValidVersion(v) && listClonedRepos(v).length > 0)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  } catch {
+    return [];
+  }
+}
+
 /**
- * Ensure the repos directory exists
+ * Check if any repository is cloned for a version
  */
-export function ensureReposDir(): void {
-  mkdirSync(REPOS_DIR, { recursive: true });
+export function isVersionInstalled(version: string): boolean {
+  return isValidVersion(version) && listClonedRepos(version).length > 0;
 }
 
 /**
  * Get the local path for a repository
  */
-export function getRepoPath(repoName: string): string {
-  return join(REPOS_DIR, repoName);
+export function getRepoPath(repoName: string, version?: string): string {
+  return join(getVersionDir(version), repoName);
 }
 
 /**
  * Check if a repository is already cloned
  */
-export function isRepoCloned(repoName: string): boolean {
-  const repoPath = getRepoPath(repoName);
+export function isRepoCloned(repoName: string, version?: string): boolean {
+  const repoPath = getRepoPath(repoName, version);
   return existsSync(join(repoPath, ".git"));
 }
 
 /**
- * Clone a repository with optional sparse checkout and tag support
+ * List the names of all cloned repositories for a version
+ */
+export function listClonedRepos(version?: string): string[] {
+  try {
+    return readdirSync(getVersionDir(version)).filter((name) => isRepoCloned(name, version));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve a repository's HEAD to a commit hash by reading the git directory
+ * directly, for callers that cannot wait on a git process
+ */
+export function readHeadCommit(repoName: string, version?: string): string | null {
+  const gitDir = join(getRepoPath(repoName, version), ".git");
+
+  try {
+    const head = readFileSync(join(gitDir, "HEAD"), "utf-8").trim();
+    if (!head.startsWith("ref: ")) {
+      return head;
+    }
+
+    const ref = head.slice("ref: ".length);
+    const refPath = join(gitDir, ref);
+    if (existsSync(refPath)) {
+      return readFileSync(refPath, "utf-8").trim();
+    }
+
+    const packed = readFileSync(join(gitDir, "packed-refs"), "utf-8");
+    const line = packed.split("\n").find((l) => l.endsWith(` ${ref}`));
+    return line ? line.split(" ")[0] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move checkouts from the old flat layout (REPOS_DIR/<repo>) into the
+ * directory of the version aztec-packages was checked out at
+ */
+export async function migrateLegacyLayout(): Promise<string[]> {
+  let legacy: string[];
+  try {
+    legacy = readdirSync(REPOS_DIR).filter((name) => existsSync(join(REPOS_DIR, name, ".git")));
+  } catch {
+    return [];
+  }
+  if (legacy.length === 0) {
+    return [];
+  }
+
+  let version = DEFAULT_AZTEC_VERSION;
+  if (legacy.includes("aztec-packages")) {
+    try {
+      const tag = await simpleGit(join(REPOS_DIR, "aztec-packages")).raw([
+        "describe",
+        "--tags",
+        "--exact-match",
+        "HEAD",
+      ]);
+      if (isValidVersion(tag.trim())) version = tag.trim();
+    } catch {
+      // Not at a tag - assume the default version
+    }
+  }
+
+  const moved: string[] = [];
+  ensureReposDir(version);
+  for (const name of legacy) {
+    if (!existsSync(getRepoPath(name, version))) {
+      renameSync(join(REPOS_DIR, name), getRepoPath(name, version));
+      moved.push(name);
+    }
+  }
+  return moved;
+}
+
+/**
+ * Clone a repository for a version with optional sparse checkout and tag
+ * support. Objects are borrowed (git alternates) from the same repo in
+ * another installed version when there is one. onProgress is called as
+ * each phase starts ("cloning", "sparse-checkout", "fetching tag", ...).
  */
 export async function cloneRepo(
   config: RepoConfig,
-  force: boolean = false
+  force: boolean = false,
+  version?: string,
+  onProgress?: (phase: string) => void
 ): Promise<string> {
-  ensureReposDir();
-  const repoPath = getRepoPath(config.name);
+  ensureReposDir(version);
+  const repoPath = getRepoPath(config.name, version);
 
   // Check if we need to re-clone due to version mismatch
-  const versionMismatch = await needsReclone(config);
+  const versionMismatch = await needsReclone(config, version);
 
   // Remove existing if force is set or version changed
   if ((force || versionMismatch) && existsSync(repoPath)) {
+    onProgress?.("removing old checkout");
+    await dissociateClones(repoPath);
     rmSync(repoPath, { recursive: true, force: true });
   }
 
   // If already cloned and version matches, just update
-  if (isRepoCloned(config.name)) {
-    return await updateRepo(config.name);
+  if (isRepoCloned(config.name, version)) {
+    onProgress?.("updating");
+    return await updateRepo(config, version);
   }
 
+  const reference = findReferenceClone(config.name, version);
+  const shareArgs = reference ? ["--reference-if-able", reference] : [];
+
   const git: SimpleGit = simpleGit();
+  onProgress?.("cloning");
 
   // Determine ref to checkout: commit > tag > branch
   const ref = config.commit || config.tag || config.branch;
@@ -70,28 +226,37 @@ export async function cloneRepo(
     if (config.commit) {
       // For commits, we need full history to fetch the commit
       await git.clone(config.url, repoPath, [
+        ...shareArgs,
         "--filter=blob:none",
         "--sparse",
         "--no-checkout",
       ]);
 
       const repoGit = simpleGit(repoPath);
+      onProgress?.("sparse-checkout");
       await repoGit.raw(["sparse-checkout", "set", ...config.sparse]);
+      onProgress?.("fetching commit");
       await repoGit.fetch(["origin", config.commit]);
+      onProgress?.("checking out");
       await repoGit.checkout(config.commit);
     } else if (config.tag) {
       await git.clone(config.url, repoPath, [
+        ...shareArgs,
         "--filter=blob:none",
         "--sparse",
         "--no-checkout",
       ]);
 
       const repoGit = simpleGit(repoPath);
+      onProgress?.("sparse-checkout");
       await repoGit.raw(["sparse-checkout", "set", ...config.sparse]);
+      onProgress?.("fetching tag");
       await repoGit.fetch(["--depth=1", "origin", `refs/tags/${config.tag}:refs/tags/${config.tag}`]);
+      onProgress?.("checking out");
       await repoGit.checkout(config.tag);
     } else {
       await git.clone(config.url, repoPath, [
+        ...shareArgs,
         "--filter=blob:none",
         "--sparse",
         "--depth=1",
@@ -99,6 +264,7 @@ export async function cloneRepo(
       ]);
 
       const repoGit = simpleGit(repoPath);
+      onProgress?.("sparse-checkout");
       await repoGit.raw(["sparse-checkout", "set", ...config.sparse]);
     }
 
@@ -107,18 +273,23 @@ export async function cloneRepo(
     // Clone for smaller repos
     if (config.commit) {
       // For commits, clone and checkout specific commit
-      await git.clone(config.url, repoPath, ["--no-checkout"]);
+      await git.clone(config.url, repoPath, [...shareArgs, "--no-checkout"]);
       const repoGit = simpleGit(repoPath);
+      onProgress?.("fetching commit");
       await repoGit.fetch(["origin", config.commit]);
+      onProgress?.("checking out");
       await repoGit.checkout(config.commit);
     } else if (config.tag) {
       // Clone and checkout tag
-      await git.clone(config.url, repoPath, ["--no-checkout"]);
+      await git.clone(config.url, repoPath, [...shareArgs, "--no-checkout"]);
       const repoGit = simpleGit(repoPath);
+      onProgress?.("fetching tag");
       await repoGit.fetch(["--depth=1", "origin", `refs/tags/${config.tag}:refs/tags/${config.tag}`]);
+      onProgress?.("checking out");
       await repoGit.checkout(config.tag);
     } else {
       await git.clone(config.url, repoPath, [
+        ...shareArgs,
         "--depth=1",
         ...(config.branch ? ["-b", config.branch] : []),
       ]);
@@ -128,42 +299,99 @@ export async function cloneRepo(
   }
 }
 
+/** Commits of history fetched to connect a shallow branch checkout to its new tip */
+const FAST_FORWARD_DEPTH = 1000;
+
 /**
- * Update an existing repository
+ * Update an existing checkout according to its config. A pinned commit or
+ * tag is only verified (a checkout that moved off it is an error); a branch
+ * is fast-forwarded to origin/<branch>, and one that has diverged from it
+ * is an error rather than reset. The result names the commits it moved
+ * between.
  */
-export async function updateRepo(repoName: string): Promise<string> {
-  const repoPath = getRepoPath(repoName);
-
-  if (!isRepoCloned(repoName)) {
-    throw new Error(`Repository ${repoName} is not cloned`);
+export async function updateRepo(config: RepoConfig, version?: string): Promise<string> {
+  if (!isRepoCloned(config.name, version)) {
+    throw new Error(`Repository ${config.name} is not cloned`);
   }
 
-  const git = simpleGit(repoPath);
+  const git = simpleGit(getRepoPath(config.name, version));
+  const head = async () => (await git.raw(["rev-parse", "HEAD"])).trim();
+  const short = (commit: string) => commit.substring(0, 7);
+  const from = await head();
 
-  try {
-    await git.fetch(["--depth=1"]);
-    await git.reset(["--hard", "origin/HEAD"]);
-    return `Updated ${repoName}`;
-  } catch (error) {
-    // If fetch fails, try a simple pull
-    try {
-      await git.pull();
-      return `Updated ${repoName}`;
-    } catch (pullError) {
-      return `Failed to update ${repoName}: ${pullError}`;
+  if (config.commit || config.tag) {
+    const ref = (config.commit || config.tag)!;
+    const refType = config.commit ? "commit" : "tag";
+    const target = config.commit ? config.commit : `refs/tags/${config.tag}`;
+
+    const pinned = (await git.raw(["rev-parse", "--verify", `${target}^{commit}`]).catch(() => "")).trim();
+    if (!pinned) {
+      throw new Error(`${config.name}: pinned ${refType} ${ref} is not in the checkout`);
+    }
+    if (pinned !== from) {
+      throw new Error(`${config.name} is at ${short(from)}, not at pinned ${refType} ${ref} (${short(pinned)})`);
     }
+    return config.commit
+      ? `Verified ${config.name} @ ${short(from)} (commit, unchanged)`
+      : `Verified ${config.name} @ ${ref} (tag, ${short(from)}, unchanged)`;
+  }
+
+  const current = (await git.raw(["symbolic-ref", "--short", "HEAD"]).catch(() => "")).trim();
+  const branch = config.branch || current;
+  if (!branch) {
+    throw new Error(`${config.name} is not on a branch and its config names none to update`);
+  }
+  if (current !== branch) {
+    throw new Error(
+      `${config.name} is on ${current || `detached ${short(from)}`}, not branch ${branch}; sync with force to re-clone it`
+    );
   }
+
+  const remote = `origin/${branch}`;
+  const fetchBranch = (depth: string) =>
+    git.fetch([depth, "origin", `+refs/heads/${branch}:refs/remotes/origin/${branch}`]);
+  const mergeBase = async () => (await git.raw(["merge-base", "HEAD", remote]).catch(() => "")).trim();
+
+  await fetchBranch("--depth=1");
+  let base = await mergeBase();
+  // A shallow fetch of the new tip doesn't reach back to HEAD, so fetch more history to connect them
+  if (!base && (await git.raw(["rev-parse", "--is-shallow-repository"])).trim() === "true") {
+    await fetchBranch(`--deepen=${FAST_FORWARD_DEPTH}`);
+    base = await mergeBase();
+  }
+  if (!base) {
+    throw new Error(
+      `${config.name}: no history shared with ${remote} within ${FAST_FORWARD_DEPTH} commits; sync with force to re-clone it`
+    );
+  }
+  const tip = (await git.raw(["rev-parse", remote])).trim();
+  if (base !== from && base !== tip) {
+    throw new Error(
+      `${config.name}: ${branch} (${short(from)}) has diverged from ${remote} (${short(tip)}) and can't be fast-forwarded`
+    );
+  }
+
+  await git.raw(["merge", "--ff-only", remote]);
+  const to = await head();
+
+  return from === to
+    ? `Up to date ${config.name} @ ${branch} (branch, ${short(to)})`
+    : `Updated ${config.name} @ ${branch} (branch, ${short(from)} -> ${short(to)})`;
 }
 
 /**
  * Get the current commit hash for a repo
  */
-export async function getRepoCommit(repoName: string, full: boolean = false): Promise<string | null> {
-  if (!isRepoCloned(repoName)) {
+export async function getRepoCommit(
+  repoName: string,
+  full: boolean = false,
+  version?: string
+): Promise<string | null> {
+  if (!isRepoCloned(repoName, version)) {
     return null;
   }
 
-  const git = simpleGit(getRepoPath(repoName));
+  const git = simpleGit(getRepoPath(repoName, version));
   const log = await git.log(["-1"]);
   const hash = log.latest?.hash;
   if (!hash) return null;
@@ -173,10 +401,10 @@ export async function getRepoCommit(repoName: string, full: boolean = false): Pr
 /**
  * Get the current tag for a repo (if HEAD points to a tag)
  */
-export async function getRepoTag(repoName: string): Promise<string | null> {
-  const repoPath = getRepoPath(repoName);
+export async function getRepoTag(repoName: string, version?: string): Promise<string | null> {
+  const repoPath = getRepoPath(repoName, version);
 
-  if (!isRepoCloned(repoName)) {
+  if (!isRepoCloned(repoName, version)) {
     return null;
   }
 
@@ -196,20 +424,20 @@ export async function getRepoTag(repoName: string): Promise<string | null> {
  * Check if the cloned repo matches the requested config
  * Returns true if re-clone is needed
  */
-export async function needsReclone(config: RepoConfig): Promise<boolean> {
-  if (!isRepoCloned(config.name)) {
+export async function needsReclone(config: RepoConfig, version?: string): Promise<boolean> {
+  if (!isRepoCloned(config.name, version)) {
     return true; // Not cloned, need to clone
   }
 
   // If a specific commit is requested, check if we're at that commit
   if (config.commit) {
-    const currentCommit = await getRepoCommit(config.name, true);
+    const currentCommit = await getRepoCommit(config.name, true, version);
     return !currentCommit?.startsWith(config.commit.substring(0, 7));
   }
 
   // If a tag is requested, check if we're at that tag
   if (config.tag) {
-    const currentTag = await getRepoTag(config.name);
+    const currentTag = await getRepoTag(config.name, version);
     return currentTag !== config.tag;
   }
 
@@ -221,13 +449,14 @@ export async function needsReclone(config: RepoConfig): Promise<boolean> {
  * Get status of all repos
  */
 export async function getReposStatus(
-  configs: RepoConfig[]
+  configs: RepoConfig[],
+  version?: string
 ): Promise<Map<string, { cloned: boolean; commit?: string }>> {
   const status = new Map<string, { cloned: boolean; commit?: string }>();
 
   for (const config of configs) {
-    const cloned = isRepoCloned(config.name);
-    const commit = cloned ? (await getRepoCommit(config.name)) || undefined : undefined;
+    const cloned = isRepoCloned(config.name, version);
+    const commit = cloned ? (await getRepoCommit(config.name, false, version)) || undefined : undefined;
     status.set(config.name, { cloned, commit });
   }
 
@@ -238,10 +467,10 @@ export async function getReposStatus(
  * Get the Noir submodule commit from aztec-packages
  * Returns the commit hash that aztec-packages uses for noir
  */
-export async function getNoirCommitFromAztec(): Promise<string | null> {
-  const aztecPath = getRepoPath("aztec-packages");
+export async function getNoirCommitFromAztec(version?: string): Promise<string | null> {
+  const aztecPath = getRepoPath("aztec-packages", version);
 
-  if (!isRepoCloned("aztec-packages")) {
+  if (!isRepoCloned("aztec-packages", version)) {
     return null;
   }
 
@@ -257,3 +486,307 @@ export async function getNoirCommitFromAztec(): Promise<string | null> {
     return null;
   }
 }
+
+/**
+ * Copy any objects a clone borrows from another version's clone into its own
+ * object store, so the clone can be moved or the other version deleted
+ */
+export async function makeSelfContained(repoName: string, version?: string): Promise<void> {
+  const repoPath = getRepoPath(repoName, version);
+  const alternates = join(repoPath, ".git", "objects", "info", "alternates");
+  if (!existsSync(alternates)) {
+    return;
+  }
+
+  await simpleGit(repoPath).raw(["repack", "-a", "-d"]);
+  rmSync(alternates, { force: true });
+}
+
+/** Settles when the last queued operation on REPOS_DIR has finished */
+let reposQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run an operation that changes REPOS_DIR (a sync, exporting or importing
+ * a bundle, or fetching into a clone) once the ones queued before it have
+ * finished. Clones of different versions share objects, so operations on
+ * any two versions are serialized too.
+ */
+export function withReposLock<T>(run: () => Promise<T>): Promise<T> {
+  const result = reposQueue.then(run);
+  reposQueue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Delete a version's directory, first dissociating clones of other versions
+ * that borrow objects from it. Callers hold the repos lock (withReposLock).
+ */
+export async function removeVersion(version: string): Promise<void> {
+  for (const name of listClonedRepos(version)) {
+    await dissociateClones(getRepoPath(name, version));
+  }
+  rmSync(getVersionDir(version), { recursive: true, force: true });
+}
+
+/**
+ * Make sure tags are present in a cloned repo, fetching the missing ones.
+ * Only the tagged commits are fetched - comparing two tags doesn't need history.
+ */
+export async function fetchTags(repoName: string, tags: string[], version?: string): Promise<void> {
+  const git = simpleGit(getRepoPath(repoName, version));
+
+  for (const tag of tags) {
+    // --quiet exits without output (and without an error) when the tag is missing
+    const local = await git.raw(["rev-parse", "--verify", "--quiet", `refs/tags/${tag}^{commit}`]).catch(() => "");
+    if (!local.trim()) {
+      await git.fetch(["--depth=1", "origin", `refs/tags/${tag}:refs/tags/${tag}`]);
+    }
+  }
+}
+
+/**
+ * Unified diff between two refs, preceded by a diffstat. Blobs missing from
+ * a partial clone are fetched in one batch.
+ */
+export async function diffRefs(
+  repoName: string,
+  from: string,
+  to: string,
+  paths: string[],
+  version?: string
+): Promise<string> {
+  const git = simpleGit(getRepoPath(repoName, version));
+  return git.raw(["diff", "--no-color", "-M", "--stat", "-p", from, to, "--", ...paths]);
+}
+
+/**
+ * Files that differ between two refs, with renames paired up
+ */
+export async function listChangedFiles(
+  repoName: string,
+  from: string,
+  to: string,
+  paths: string[],
+  version?: string
+): Promise<{ file: string; oldFile?: string; added: number; deleted: number }[]> {
+  const git = simpleGit(getRepoPath(repoName, version));
+  // --numstat reads file contents, so missing blobs are fetched here in one batch
+  const output = await git.raw(["diff", "--numstat", "-M", "-z", from, to, "--", ...paths]);
+
+  // Output format: "<added>\t<deleted>\t<path>\0", or for renames
+  // "<added>\t<deleted>\t\0<old path>\0<new path>\0"
+  const fields = output.split("\0");
+  const files: { file: string; oldFile?: string; added: number; deleted: number }[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const match = fields[i].match(/^(\d+|-)\t(\d+|-)\t(.*)$/);
+    if (!match) continue;
+
+    const count = (n: string) => (n === "-" ? 0 : parseInt(n, 10));
+    if (match[3]) {
+      files.push({ file: match[3], added: count(match[1]), deleted: count(match[2]) });
+    } else {
+      files.push({ file: fields[i + 2], oldFile: fields[i + 1], added: count(match[1]), deleted: count(match[2]) });
+      i += 2;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read a file as of a ref, or null if it doesn't exist there
+ */
+export async function readFileAtRef(
+  repoName: string,
+  ref: string,
+  file: string,
+  version?: string
+): Promise<string | null> {
+  const git = simpleGit(getRepoPath(repoName, version));
+
+  try {
+    return await git.raw(["show", `${ref}:${file}`]);
+  } catch {
+    return null;
+  }
+}
+
+export interface HistoryCommit {
+  commit: string;
+  /** Author date, ISO 8601 */
+  date: string;
+  author: string;
+  subject: string;
+  /** Earliest fetched release tag that contains the commit */
+  tag?: string;
+}
+
+/**
+ * Commits touching a path (following renames of a single file) and/or
+ * adding or removing a string (-S), or changing lines that match a regex
+ * (-G). Newest first. Blobs a partial clone lacks are fetched by git.
+ */
+export async function logHistory(
+  repoName: string,
+  options: { path?: string; search?: string; regex?: boolean; maxCount: number },
+  version?: string
+): Promise<HistoryCommit[]> {
+  const { path, search, regex = false, maxCount } = options;
+  const git = simpleGit(getRepoPath(repoName, version));
+
+  // --follow only works for one file, so directories are listed without it
+  const isDirectory =
+    path !== undefined &&
+    (path.endsWith("/") || (await git.raw(["cat-file", "-t", `HEAD:${path}`]).catch(() => "")).trim() === "tree");
+  const args = [
+    "log",
+    "--no-color",
+    `--max-count=${maxCount}`,
+    "--format=%H%x1f%aI%x1f%an%x1f%s%x1e",
+    ...(search !== undefined ? [regex ? `-G${search}` : `-S${search}`] : []),
+    ...(path !== undefined && !isDirectory ? ["--follow"] : []),
+    "HEAD",
+    ...(path !== undefined ? ["--", path] : []),
+  ];
+
+  const output = await git.raw(args);
+  const commits: HistoryCommit[] = [];
+  for (const record of output.split("\x1e")) {
+    const [commit, date, author, subject] = record.trim().split("\x1f");
+    if (commit && /^[0-9a-f]{40}$/.test(commit)) {
+      commits.push({ commit, date, author, subject: subject ?? "" });
+    }
+  }
+
+  for (const entry of commits) {
+    entry.tag = await releaseContaining(git, entry.commit);
+  }
+  return commits;
+}
+
+/** Ref that deepenClone fetches into */
+const HISTORY_REF = "refs/aztec-mcp/history";
+
+/**
+ * Whether a clone has only part of its history (cloned or fetched with --depth)
+ */
+export async function isShallowClone(repoName: string, version?: string): Promise<boolean> {
+  const git = simpleGit(getRepoPath(repoName, version));
+  return (await git.raw(["rev-parse", "--is-shallow-repository"])).trim() === "true";
+}
+
+/**
+ * Fetch up to `commits` more commits of history behind a shallow clone's
+ * checked-out commit. Tags pointing into the new history come along.
+ */
+export async function deepenClone(repoName: string, commits: number, version?: string): Promise<void> {
+  const git = simpleGit(getRepoPath(repoName, version));
+  const head = (await git.raw(["rev-parse", "HEAD"])).trim();
+  // Git only follows tags when the fetch stores a ref, so keep one for HEAD
+  await git.fetch([`--deepen=${commits}`, "origin", `${head}:${HISTORY_REF}`]);
+}
+
+/**
+ * List the tags of a remote repository. Results are cached on disk for an
+ * hour; when the remote can't be reached a stale cache is used instead, and
+ * the error is only thrown if nothing was ever cached.
+ */
+export async function listRemoteTags(
+  url: string,
+  options: { refresh?: boolean } = {}
+): Promise<{ tags: string[]; fetchedAt: number }> {
+  const cache = readTagsCache();
+  const cached = cache[url];
+  if (cached && !options.refresh && Date.now() - cached.fetchedAt < TAGS_CACHE_TTL_MS) {
+    return cached;
+  }
+
+  let output: string;
+  try {
+    output = await simpleGit().listRemote(["--tags", "--refs", url]);
+  } catch (error) {
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+
+  // Output format: "<hash>\trefs/tags/<tag>"
+  const tags = output
+    .split("\n")
+    .map((line) => line.split("\t")[1]?.trim())
+    .filter((ref): ref is string => !!ref?.startsWith("refs/tags/"))
+    .map((ref) => ref.slice("refs/tags/".length));
+
+  cache[url] = { tags, fetchedAt: Date.now() };
+  try {
+    mkdirSync(dirname(TAGS_CACHE_FILE), { recursive: true });
+    writeFileSync(TAGS_CACHE_FILE, JSON.stringify(cache));
+  } catch {
+    // The cache only saves a network round trip
+  }
+  return cache[url];
+}
+
+// --- Helper functions ---
+
+/**
+ * Read the tags cache. An unreadable or corrupt file, and entries of the
+ * wrong shape, count as not cached so the tags are fetched again.
+ */
+function readTagsCache(): Record<string, { tags: string[]; fetchedAt: number }> {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(TAGS_CACHE_FILE, "utf-8"));
+  } catch {
+    return {};
+  }
+  if (!isPlainObject(data)) {
+    return {};
+  }
+
+  const cache: Record<string, { tags: string[]; fetchedAt: number }> = {};
+  for (const [url, entry] of Object.entries(data)) {
+    if (isPlainObject(entry) && isStringList(entry.tags) && typeof entry.fetchedAt === "number") {
+      cache[url] = { tags: entry.tags, fetchedAt: entry.fetchedAt };
+    }
+  }
+  return cache;
+}
+
+/**
+ * First release tag (among those fetched) whose history contains a commit
+ */
+async function releaseContaining(git: SimpleGit, commit: string): Promise<string | undefined> {
+  const name = await git.raw(["describe", "--contains", "--match", "v[0-9]*", commit]).catch(() => "");
+  // "v2.0.0~12" or "v2.0.0^2~3" -> "v2.0.0"
+  return name.trim().split(/[~^]/)[0] || undefined;
+}
+
+/**
+ * Path of the same repo cloned for another installed version, if any
+ */
+function findReferenceClone(repoName: string, version: string = activeVersion): string | null {
+  const other = listInstalledVersions().find((v) => v !== version && isRepoCloned(repoName, v));
+  return other ? getRepoPath(repoName, other) : null;
+}
+
+/**
+ * Before deleting a checkout, copy the objects that clones of other
+ * versions borrow from it into those clones and drop their alternates entry
+ */
+async function dissociateClones(repoPath: string): Promise<void> {
+  const objectsDir = join(repoPath, ".git", "objects");
+
+  for (const version of listInstalledVersions()) {
+    for (const name of listClonedRepos(version)) {
+      const clonePath = getRepoPath(name, version);
+      const alternates = join(clonePath, ".git", "objects", "info", "alternates");
+      if (clonePath === repoPath || !existsSync(alternates)) continue;
+      if (!readFileSync(alternates, "utf-8").includes(objectsDir)) continue;
+
+      await makeSelfContained(name, version);
+    }
+  }
+}
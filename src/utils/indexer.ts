@@ -0,0 +1,372 @@
+/**
+ * Persistent full-text index for cloned repositories
+ *
+ * Files are split into fixed-size line chunks and stored as an inverted index
+ * per repo and commit under INDEX_DIR. Queries are ranked with BM25.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync, statSync } from "fs";
+import { dirname, join, relative } from "path";
+import { globbySync } from "globby";
+import { REPOS_DIR, getVersionDir, getRepoPath, readHeadCommit, listClonedRepos } from "./git.js";
+import type { RepoConfig } from "../repos/config.js";
+import type { SearchResult } from "./search.js";
+
+/** Base directory for search indexes (next to REPOS_DIR) */
+export const INDEX_DIR = join(dirname(REPOS_DIR), "index");
+
+/** Bump when the on-disk layout changes so stale indexes are ignored */
+const INDEX_FORMAT = 1;
+const CHUNK_LINES = 40;
+const MAX_FILE_BYTES = 512 * 1024;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Score multiplier for test files, which otherwise crowd out definitions */
+const TEST_FILE_WEIGHT = 0.5;
+/** Indexes kept in memory; the least recently used is dropped beyond this */
+const MAX_LOADED_INDEXES = 12;
+
+const DEFAULT_PATTERNS = ["*.nr", "*.ts", "*.md", "*.mdx"];
+
+export interface SearchIndex {
+  format: number;
+  repo: string;
+  commit: string;
+  builtAt: string;
+  /** File paths relative to the version directory */
+  files: string[];
+  /** Chunks as [fileIndex, startLine, tokenCount] */
+  chunks: [number, number, number][];
+  avgChunkLength: number;
+  /** Term -> flat list of [chunkIndex, termFrequency] pairs */
+  postings: Record<string, number[]>;
+}
+
+const loadedIndexes = new Map<string, SearchIndex>();
+
+/**
+ * Split text into lowercase search terms. Identifiers are also split on
+ * snake_case and camelCase boundaries so `PrivateSet` matches `private set`.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9_]+/g) ?? []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 1) tokens.push(lower);
+
+    const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        if (part.length > 1) tokens.push(part.toLowerCase());
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Build an index over a repository's working tree
+ */
+export function buildIndex(
+  repoName: string,
+  commit: string,
+  patterns: string[] = DEFAULT_PATTERNS
+): SearchIndex {
+  const repoPath = getRepoPath(repoName);
+  const files = globbySync(
+    patterns.map((p) => p.replace(/^\*\./, "**/*.")),
+    {
+      cwd: repoPath,
+      absolute: true,
+      ignore: ["**/node_modules/**", "**/.git/**", "**/dist/**", "**/build/**"],
+    }
+  );
+
+  const index: SearchIndex = {
+    format: INDEX_FORMAT,
+    repo: repoName,
+    commit,
+    builtAt: new Date().toISOString(),
+    files: [],
+    chunks: [],
+    avgChunkLength: 0,
+    postings: {},
+  };
+  let totalLength = 0;
+
+  for (const file of files) {
+    let content: string;
+    try {
+      if (statSync(file).size > MAX_FILE_BYTES) continue;
+      content = readFileSync(file, "utf-8");
+    } catch {
+      continue;
+    }
+
+    const fileIndex = index.files.push(relative(getVersionDir(), file)) - 1;
+    const lines = content.split("\n");
+
+    for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+      const tokens = tokenize(lines.slice(start, start + CHUNK_LINES).join("\n"));
+      if (tokens.length === 0) continue;
+
+      const chunkIndex = index.chunks.push([fileIndex, start + 1, tokens.length]) - 1;
+      totalLength += tokens.length;
+
+      const counts = new Map<string, number>();
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+      for (const [term, tf] of counts) {
+        (index.postings[term] ??= []).push(chunkIndex, tf);
+      }
+    }
+  }
+
+  index.avgChunkLength = index.chunks.length > 0 ? totalLength / index.chunks.length : 0;
+  return index;
+}
+
+/**
+ * Where the index for a repo at a commit is stored
+ */
+export function getIndexPath(repoName: string, commit: string): string {
+  return join(INDEX_DIR, repoName, `${commit}.json`);
+}
+
+/**
+ * Build and persist the index for a cloned repository at its current commit
+ */
+export function indexRepo(config: RepoConfig): { commit: string; files: number } | null {
+  const commit = readHeadCommit(config.name);
+  if (!commit) {
+    return null;
+  }
+
+  const patterns = [
+    ...(config.searchPatterns?.code ?? []),
+    ...(config.searchPatterns?.docs ?? []),
+  ];
+  const index = buildIndex(config.name, commit, patterns.length > 0 ? patterns : undefined);
+
+  const indexPath = getIndexPath(config.name, commit);
+  mkdirSync(dirname(indexPath), { recursive: true });
+  writeFileSync(indexPath, JSON.stringify(index));
+  rememberIndex(indexPath, index);
+
+  return { commit, files: index.files.length };
+}
+
+/**
+ * Load the index matching a repository's checked-out commit
+ */
+export function loadIndex(repoName: string): SearchIndex | null {
+  const commit = readHeadCommit(repoName);
+  if (!commit) {
+    return null;
+  }
+
+  const indexPath = getIndexPath(repoName, commit);
+  const cached = loadedIndexes.get(indexPath);
+  if (cached) {
+    rememberIndex(indexPath, cached);
+    return cached;
+  }
+
+  if (!existsSync(indexPath)) {
+    return null;
+  }
+
+  try {
+    const index = JSON.parse(readFileSync(indexPath, "utf-8")) as SearchIndex;
+    if (index.format !== INDEX_FORMAT) {
+      return null;
+    }
+    rememberIndex(indexPath, index);
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run a ranked query against the indexes covering a path. A chunk matches
+ * when it has every word of the query, either whole or as all of its
+ * camelCase/snake_case parts; the parts only add to the score otherwise.
+ * Returns one page of hits plus the total hit count, or null when any
+ * cloned repo in scope has no index, so callers can fall back to a plain
+ * text search.
+ */
+export function searchIndex(
+  query: string,
+  options: {
+    /** Path relative to the version directory to restrict results to ("" for all repos) */
+    scope?: string;
+    filePattern?: string;
+    offset?: number;
+    maxResults?: number;
+  } = {}
+): { results: SearchResult[]; total: number } | null {
+  const { scope = "", filePattern, offset = 0, maxResults = 50 } = options;
+  const terms = [...new Set(tokenize(query))];
+  const words = queryWords(query);
+  if (terms.length === 0 || words.length === 0) {
+    return null;
+  }
+
+  const repoNames = scope ? [scope.split("/")[0]] : listClonedRepos();
+  const indexes: SearchIndex[] = [];
+  for (const repoName of repoNames) {
+    const index = loadIndex(repoName);
+    if (!index) return null;
+    indexes.push(index);
+  }
+
+  const fileMatcher = filePattern ? globToRegExp(filePattern) : null;
+  const scopePrefix = scope ? `${scope.replace(/\/+$/, "")}/` : "";
+  const hits: { index: SearchIndex; chunk: number; score: number }[] = [];
+
+  for (const index of indexes) {
+    const scores = new Map<number, number>();
+    const totalChunks = index.chunks.length;
+
+    for (const term of terms) {
+      const postings = index.postings[term];
+      if (!postings) continue;
+
+      const df = postings.length / 2;
+      const idf = Math.log(1 + (totalChunks - df + 0.5) / (df + 0.5));
+
+      for (let i = 0; i < postings.length; i += 2) {
+        const chunk = postings[i];
+        const tf = postings[i + 1];
+        const length = index.chunks[chunk][2];
+        const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / index.avgChunkLength);
+        scores.set(chunk, (scores.get(chunk) ?? 0) + (idf * tf * (BM25_K1 + 1)) / norm);
+      }
+    }
+
+    const chunksWith = (term: string) => new Set(evenEntries(index.postings[term] ?? []));
+    const required = words.map(({ word, parts }) => ({ whole: chunksWith(word), parts: parts.map(chunksWith) }));
+
+    for (const [chunk, score] of scores) {
+      const hasWords = required.every(
+        ({ whole, parts }) => whole.has(chunk) || (parts.length > 1 && parts.every((chunks) => chunks.has(chunk)))
+      );
+      if (!hasWords) continue;
+
+      const file = index.files[index.chunks[chunk][0]];
+      if (scopePrefix && !file.startsWith(scopePrefix)) continue;
+      if (fileMatcher && !fileMatcher.test(file.split("/").pop()!)) continue;
+      hits.push({ index, chunk, score: isTestFile(file) ? score * TEST_FILE_WEIGHT : score });
+    }
+  }
+
+  // Break score ties by position so pages don't overlap between calls
+  hits.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.index.repo.localeCompare(b.index.repo) ||
+      a.chunk - b.chunk
+  );
+
+  const results: SearchResult[] = [];
+  for (const hit of hits.slice(offset, offset + maxResults)) {
+    const [fileIndex, startLine] = hit.index.chunks[hit.chunk];
+    const file = hit.index.files[fileIndex];
+    const best = findBestLine(file, startLine, terms);
+
+    results.push({
+      file,
+      line: best.line,
+      content: best.content,
+      repo: hit.index.repo,
+      score: Math.round(hit.score * 100) / 100,
+    });
+  }
+
+  return { results, total: hits.length };
+}
+
+// --- Helper functions ---
+
+/** Cache an index as the most recently used, dropping the least recently used beyond the limit */
+function rememberIndex(indexPath: string, index: SearchIndex): void {
+  loadedIndexes.delete(indexPath);
+  loadedIndexes.set(indexPath, index);
+  while (loadedIndexes.size > MAX_LOADED_INDEXES) {
+    loadedIndexes.delete(loadedIndexes.keys().next().value!);
+  }
+}
+
+/**
+ * The words of a query a chunk must contain, each with the identifier
+ * parts that can stand in for it (`PrivateSet` -> private, set)
+ */
+function queryWords(query: string): { word: string; parts: string[] }[] {
+  return (query.match(/[A-Za-z0-9_]+/g) ?? [])
+    .filter((word) => word.length > 1)
+    .map((word) => ({
+      word: word.toLowerCase(),
+      parts: word
+        .split(/_+|(?<=[a-z0-9])(?=[A-Z])/)
+        .filter((part) => part.length > 1)
+        .map((part) => part.toLowerCase()),
+    }));
+}
+
+/** Chunk indexes of a flat [chunkIndex, termFrequency] postings list */
+function evenEntries(postings: number[]): number[] {
+  return postings.filter((_, i) => i % 2 === 0);
+}
+
+function isTestFile(file: string): boolean {
+  return /(^|\/)(tests?|__tests__)\/|\.(test|spec)\.[jt]sx?$|_test\.nr$/.test(file);
+}
+
+/**
+ * Convert a basename glob such as `*.nr` or `*.{md,mdx}` to a RegExp
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (const char of pattern) {
+    if (char === "*") source += "[^/]*";
+    else if (char === "?") source += "[^/]";
+    else if (char === "{") source += "(?:";
+    else if (char === "}") source += ")";
+    else if (char === ",") source += "|";
+    else source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Pick the line in a chunk that contains the most query terms
+ */
+function findBestLine(
+  file: string,
+  startLine: number,
+  terms: string[]
+): { line: number; content: string } {
+  let lines: string[] = [];
+  try {
+    lines = readFileSync(join(getVersionDir(), file), "utf-8")
+      .split("\n")
+      .slice(startLine - 1, startLine - 1 + CHUNK_LINES);
+  } catch {
+    // File changed since indexing; report the chunk start
+  }
+
+  let best = { line: startLine, content: (lines[0] ?? "").trim(), matches: 0 };
+  lines.forEach((text, i) => {
+    const lineTerms = new Set(tokenize(text));
+    const matches = terms.filter((t) => lineTerms.has(t)).length;
+    if (matches > best.matches) {
+      best = { line: startLine + i, content: text.trim(), matches };
+    }
+  });
+
+  return { line: best.line, content: best.content };
+}
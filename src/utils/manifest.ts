@@ -0,0 +1,153 @@
+/**
+ * Sync manifest - records what was synced for a version, at which commits.
+ * The same format is used as a lockfile to reproduce a sync elsewhere.
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getVersionDir, isValidVersion } from "./git.js";
+import { isPlainObject, isStringList } from "./guards.js";
+
+/** Manifest file name inside each version directory */
+export const MANIFEST_FILE = "manifest.json";
+
+export interface ManifestRepo {
+  name: string;
+  url: string;
+  /** Tag, branch, or commit that was requested */
+  ref: string;
+  refType: "tag" | "branch" | "commit";
+  /** Full commit hash that was checked out */
+  commit: string;
+  sparse?: string[];
+  syncedAt: string;
+}
+
+export interface SyncManifest {
+  version: string;
+  syncedAt: string;
+  /** Noir commit aztec-packages pins, if aztec-packages was synced */
+  noirCommit?: string;
+  repos: ManifestRepo[];
+}
+
+/**
+ * Read the manifest of an installed version, or null if it was never synced
+ * with manifest support (or the file is unreadable)
+ */
+export function readManifest(version: string): SyncManifest | null {
+  try {
+    return parseManifest(readFileSync(join(getVersionDir(version), MANIFEST_FILE), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a version's manifest, keeping entries for repos that this sync didn't touch
+ */
+export function writeManifest(manifest: SyncManifest): SyncManifest {
+  const previous = readManifest(manifest.version);
+  const synced = new Set(manifest.repos.map((r) => r.name));
+  const merged: SyncManifest = {
+    ...manifest,
+    noirCommit: manifest.noirCommit ?? previous?.noirCommit,
+    repos: [...(previous?.repos.filter((r) => !synced.has(r.name)) ?? []), ...manifest.repos].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    ),
+  };
+
+  writeFileSync(join(getVersionDir(manifest.version), MANIFEST_FILE), JSON.stringify(merged, null, 2) + "\n");
+  return merged;
+}
+
+/**
+ * Write a manifest to a path as a lockfile
+ */
+export function writeLockfile(path: string, manifest: SyncManifest): void {
+  writeFileSync(path, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/**
+ * Read a lockfile (an exported manifest) from disk
+ */
+export function readLockfile(path: string): SyncManifest {
+  let source: string;
+  try {
+    source = readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new Error(`Cannot read lockfile ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseManifest(source);
+}
+
+/**
+ * Parse and validate manifest JSON. Throws with the first problem found.
+ */
+export function parseManifest(source: string): SyncManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw new Error("Lockfile is not valid JSON");
+  }
+
+  if (!isPlainObject(data) || typeof data.version !== "string" || !isValidVersion(data.version)) {
+    throw new Error("Lockfile has no valid version");
+  }
+  if (typeof data.syncedAt !== "string" || !data.syncedAt) {
+    throw new Error("Lockfile has no syncedAt time");
+  }
+  if (data.noirCommit !== undefined && !isFullCommit(data.noirCommit)) {
+    throw new Error("Lockfile has an invalid noirCommit");
+  }
+  if (!Array.isArray(data.repos)) {
+    throw new Error("Lockfile has no repos list");
+  }
+
+  return {
+    version: data.version,
+    syncedAt: data.syncedAt,
+    ...(data.noirCommit !== undefined ? { noirCommit: data.noirCommit } : {}),
+    repos: data.repos.map(parseManifestRepo),
+  };
+}
+
+// --- Helper functions ---
+
+const REF_TYPES = ["tag", "branch", "commit"];
+
+function isFullCommit(value: unknown): value is string {
+  return typeof value === "string" && /^[0-9a-f]{40}$/.test(value);
+}
+
+function isRefType(value: unknown): value is ManifestRepo["refType"] {
+  return typeof value === "string" && REF_TYPES.includes(value);
+}
+
+function parseManifestRepo(repo: unknown, i: number): ManifestRepo {
+  if (!isPlainObject(repo) || typeof repo.name !== "string" || !/^\w[\w.-]*$/.test(repo.name)) {
+    throw new Error(`Lockfile repo ${i + 1} has an invalid name`);
+  }
+  const { name, url, ref, refType, commit, sparse, syncedAt } = repo;
+  if (typeof url !== "string" || !url) {
+    throw new Error(`Lockfile repo ${name} has no url`);
+  }
+  if (typeof ref !== "string" || !ref) {
+    throw new Error(`Lockfile repo ${name} has no ref`);
+  }
+  if (!isRefType(refType)) {
+    throw new Error(`Lockfile repo ${name} has an invalid refType (expected ${REF_TYPES.join(", ")})`);
+  }
+  if (!isFullCommit(commit)) {
+    throw new Error(`Lockfile repo ${name} has no full commit hash`);
+  }
+  if (sparse !== undefined && !isStringList(sparse)) {
+    throw new Error(`Lockfile repo ${name} has invalid sparse paths`);
+  }
+  if (typeof syncedAt !== "string" || !syncedAt) {
+    throw new Error(`Lockfile repo ${name} has no syncedAt time`);
+  }
+
+  return { name, url, ref, refType, commit, ...(sparse !== undefined ? { sparse } : {}), syncedAt };
+}
@@ -0,0 +1,129 @@
+/**
+ * Markdown utilities for splitting documentation pages into sections
+ */
+
+export interface MarkdownSection {
+  /** Heading text ("" for content before the first heading) */
+  heading: string;
+  /** Heading level 1-6 (0 for content before the first heading) */
+  level: number;
+  /** Page title followed by the enclosing headings, e.g. ["Storage", "Maps", "Reading"] */
+  breadcrumb: string[];
+  /** First line of the section (the heading line), 1-based */
+  startLine: number;
+  /** Last line of the section, 1-based and inclusive */
+  endLine: number;
+}
+
+export interface MarkdownPage {
+  /** Frontmatter title, else the first H1, else "" */
+  title: string;
+  frontmatter: Record<string, string>;
+  sections: MarkdownSection[];
+}
+
+/**
+ * Read simple `key: value` pairs from a YAML frontmatter block
+ */
+export function parseFrontmatter(source: string): Record<string, string> {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!match) {
+    return {};
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (field) {
+      fields[field[1]] = field[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+  return fields;
+}
+
+/**
+ * Split a markdown page into sections at ATX headings, ignoring headings
+ * inside fenced code blocks
+ */
+export function parseMarkdownSections(source: string): MarkdownPage {
+  const lines = source.split("\n");
+  const frontmatter = parseFrontmatter(source);
+  const headings: { text: string; level: number; line: number }[] = [];
+
+  let inFence = false;
+  let start = 0;
+
+  // Skip the frontmatter block
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((l, i) => i > 0 && l.trim() === "---");
+    if (end > 0) start = end + 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      headings.push({ text: cleanHeading(heading[2]), level: heading[1].length, line: i + 1 });
+    }
+  }
+
+  const title = frontmatter.title || headings.find((h) => h.level === 1)?.text || "";
+  const sections: MarkdownSection[] = [];
+  const stack: { text: string; level: number }[] = [];
+
+  const firstHeadingLine = headings[0]?.line ?? lines.length + 1;
+  if (firstHeadingLine > start + 1) {
+    sections.push({
+      heading: "",
+      level: 0,
+      breadcrumb: title ? [title] : [],
+      startLine: start + 1,
+      endLine: firstHeadingLine - 1,
+    });
+  }
+
+  headings.forEach((heading, i) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+
+    // The page's H1 is the title, so leave it out of the trail below it
+    const trail = stack.map((h) => h.text).filter((text, j) => !(j === 0 && text === title));
+
+    sections.push({
+      heading: heading.text,
+      level: heading.level,
+      breadcrumb: title ? [title, ...trail] : trail,
+      startLine: heading.line,
+      endLine: (headings[i + 1]?.line ?? lines.length + 1) - 1,
+    });
+  });
+
+  return { title, frontmatter, sections };
+}
+
+/**
+ * Find the section containing a line
+ */
+export function findSection(page: MarkdownPage, line: number): MarkdownSection | undefined {
+  return page.sections.find((s) => line >= s.startLine && line <= s.endLine);
+}
+
+/**
+ * Strip inline markdown and Docusaurus heading ids from heading text
+ */
+function cleanHeading(text: string): string {
+  return text
+    .replace(/\s*\{#[\w-]+\}\s*$/, "")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, "$1")
+    .trim();
+}
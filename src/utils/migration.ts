@@ -0,0 +1,124 @@
+/**
+ * Migration notes - the per-version upgrade entries in the aztec-packages docs
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { getVersionDir } from "./git.js";
+import { listDocPages } from "./docs.js";
+import { parseMarkdownSections } from "./markdown.js";
+
+export interface MigrationEntry {
+  /** Version heading the entry is listed under, without a leading "v" */
+  version: string;
+  /** Entry heading ("" when the version has no sub-headings) */
+  title: string;
+  /** Entry markdown below its heading, code examples included */
+  content: string;
+  /** Docs file, relative to the version directory */
+  file: string;
+  line: number;
+}
+
+/** Version headings: "## 2.0.0", "## v3.0.0-devnet.4", "## [2.0.0] - 2025-01-01" */
+const VERSION_HEADING = /^\[?v?(\d+\.\d+\.\d+(?:-[\w.-]+)?)(?:\]|\s|$)/;
+
+/**
+ * Compare version strings the way releases are ordered: numerically, with a
+ * pre-release ("3.0.0-devnet.4") before its release ("3.0.0")
+ */
+export function compareVersions(a: string, b: string): number {
+  const [coreA, ...preA] = a.replace(/^v/, "").split("-");
+  const [coreB, ...preB] = b.replace(/^v/, "").split("-");
+
+  const partsA = coreA.split(".").map(Number);
+  const partsB = coreB.split(".").map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  if (preA.length === 0 || preB.length === 0) {
+    return preB.length - preA.length;
+  }
+  return preA.join("-").localeCompare(preB.join("-"), undefined, { numeric: true });
+}
+
+/**
+ * Split a migration notes page into entries: one per sub-heading of each
+ * version heading, or one for the whole version when it has none. Sections
+ * that aren't released versions ("TBD", "Unreleased") are left out.
+ */
+export function parseMigrationNotes(source: string, file: string): MigrationEntry[] {
+  const { sections } = parseMarkdownSections(source);
+  const lines = source.split("\n");
+  const entries: MigrationEntry[] = [];
+
+  // The shallowest heading level that carries version numbers
+  const versionLevel = Math.min(
+    ...sections.filter((s) => s.level > 0 && VERSION_HEADING.test(s.heading)).map((s) => s.level)
+  );
+  if (!Number.isFinite(versionLevel)) {
+    return [];
+  }
+
+  // A section runs until the next heading at the same or a shallower level
+  const extent = (index: number) => {
+    const next = sections.slice(index + 1).find((s) => s.level > 0 && s.level <= sections[index].level);
+    return { start: sections[index].startLine, end: next ? next.startLine - 1 : lines.length };
+  };
+  const body = (start: number, end: number) => lines.slice(start, end).join("\n").trim();
+
+  let version: string | null = null;
+  let hasEntries = false;
+
+  sections.forEach((section, i) => {
+    if (section.level === versionLevel) {
+      version = section.heading.match(VERSION_HEADING)?.[1] ?? null;
+      hasEntries = sections[i + 1]?.level === versionLevel + 1;
+      if (version && !hasEntries) {
+        const { start, end } = extent(i);
+        entries.push({ version, title: "", content: body(start, end), file, line: start });
+      }
+    } else if (version && hasEntries && section.level === versionLevel + 1) {
+      const { start, end } = extent(i);
+      entries.push({ version, title: section.heading, content: body(start, end), file, line: start });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Migration entries for upgrading from one version to another: those listed
+ * under versions after `from`, up to and including `to`, oldest first
+ */
+export function getMigrationEntries(
+  from: string,
+  to: string
+): { entries: MigrationEntry[]; latest: string | null; files: string[] } {
+  const files = listDocPages()
+    .filter((page) => /migration[-_ ]?notes?/i.test(page.file) || /^migration notes$/i.test(page.title))
+    .map((page) => page.file);
+
+  const all: MigrationEntry[] = [];
+  for (const file of files) {
+    try {
+      all.push(...parseMigrationNotes(readFileSync(join(getVersionDir(), file), "utf-8"), file));
+    } catch {
+      // Skip files that can't be read
+    }
+  }
+
+  const latest = all.reduce<string | null>(
+    (max, e) => (max === null || compareVersions(e.version, max) > 0 ? e.version : max),
+    null
+  );
+
+  // Stable sort keeps each version's entries in page order
+  const entries = all
+    .filter((e) => compareVersions(e.version, from) > 0 && compareVersions(e.version, to) <= 0)
+    .sort((a, b) => compareVersions(a.version, b.version));
+
+  return { entries, latest, files };
+}
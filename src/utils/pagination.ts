@@ -0,0 +1,35 @@
+/**
+ * Opaque cursors for paging through search and listing results
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Encode the position of the next page. The cursor is tied to the query
+ * parameters, so it can't be replayed against a different search.
+ */
+export function encodeCursor(offset: number, params: unknown): string {
+  return Buffer.from(JSON.stringify({ o: offset, k: paramsKey(params) })).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor for the same parameters.
+ * Returns null if the cursor is malformed or belongs to another query.
+ */
+export function decodeCursor(cursor: string, params: unknown): number | null {
+  try {
+    const { o, k } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (!Number.isInteger(o) || o < 0 || k !== paramsKey(params)) {
+      return null;
+    }
+    return o;
+  } catch {
+    return null;
+  }
+}
+
+// --- Helper functions ---
+
+function paramsKey(params: unknown): string {
+  return createHash("sha1").update(JSON.stringify(params)).digest("hex").slice(0, 12);
+}
@@ -0,0 +1,434 @@
+/**
+ * MCP prompts - parameterized instructions for common Aztec tasks, sent
+ * with the docs sections and example sources they refer to from the
+ * synced version.
+ *
+ * Teams add their own as markdown files in the prompts directory (see
+ * getPromptsDir). The frontmatter declares the arguments and what to
+ * embed; the body is the instruction. "{{name}}" is replaced with an
+ * argument and "{{version}}" with the synced Aztec version:
+ *
+ *   ---
+ *   description: Add a note type to one of our contracts
+ *   arguments:
+ *     - name: note
+ *       description: What the note stores
+ *       required: true
+ *     - name: target
+ *       default: "{{version}}"
+ *   embed:
+ *     docs: [developers/docs/guides/smart_contracts/how_to_define_notes]
+ *     search: ["custom note {{note}}"]
+ *   ---
+ *   Add a note storing {{note}} using aztec-nr {{version}}...
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+import { DEFAULT_AZTEC_VERSION, getPromptsDir } from "../repos/config.js";
+import { isRepoCloned, withVersion } from "./git.js";
+import { resolveDocPage } from "./docs.js";
+import { compareVersions, getMigrationEntries } from "./migration.js";
+import { readResource } from "./resources.js";
+import { isPlainObject, isStringList } from "./guards.js";
+import { findExample, listExamples, searchCode, searchDocs } from "./search.js";
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+  /** Value when the argument isn't given; may be "{{version}}" */
+  default?: string;
+}
+
+/** Context sent along with a prompt; every string may use "{{name}}" placeholders */
+export interface PromptEmbeds {
+  /** Docs pages by doc id, route, or docs.aztec.network URL */
+  docs?: string[];
+  /** Docs searches; the best matching sections are embedded */
+  search?: string[];
+  /** Example contracts by name (e.g. "token_contract") */
+  examples?: string[];
+  /** Code searches; the example contracts with the best matches are embedded */
+  code?: string[];
+  /** Files relative to the repos directory, including "workspace/<name>/..." */
+  files?: string[];
+  /** Migration notes between two versions */
+  migration?: { from: string; to: string };
+}
+
+export interface PromptTemplate {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: PromptArgument[];
+  /** Instruction text */
+  text: string;
+  embed: PromptEmbeds;
+  /** Template file, for team prompts */
+  file?: string;
+}
+
+export type PromptContent =
+  | { type: "text"; text: string }
+  | { type: "resource"; resource: { uri: string; mimeType: string; text: string } };
+
+export interface PromptMessage {
+  role: "user" | "assistant";
+  content: PromptContent;
+}
+
+/** Docs sections embedded per search */
+const MAX_SECTIONS = 3;
+
+/** Example contracts embedded per code search */
+const MAX_EXAMPLES = 2;
+
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: "aztec-write-contract",
+    title: "Write an Aztec contract",
+    description:
+      "Write or extend a contract against the synced aztec-nr version, with the matching docs sections and example contracts attached",
+    arguments: [
+      {
+        name: "task",
+        description: "What the contract should do, e.g. 'a private token transfer'",
+        required: true,
+      },
+      {
+        name: "example",
+        description: "Example contract to follow, e.g. 'token_contract' (default: the closest matches)",
+      },
+    ],
+    text:
+      "Write an Aztec contract for this task: {{task}}\n\n" +
+      "Target Aztec {{version}}. Use only aztec-nr APIs that appear in the attached docs and example " +
+      "sources, which come from that version; APIs change between releases, so don't rely on memory of " +
+      "older versions. Follow the examples' imports, storage layout, and private/public function " +
+      "annotations. If something isn't covered by the attached material, look it up with aztec_search_code " +
+      "or aztec_goto_definition before using it, and point out any assumptions.",
+    embed: {
+      search: ["{{task}}"],
+      examples: ["{{example}}"],
+      code: ["{{task}}"],
+    },
+  },
+  {
+    name: "aztec-port-contract",
+    title: "Port a contract to a new Aztec version",
+    description: "Update a contract for a newer Aztec release, with the migration notes between the versions attached",
+    arguments: [
+      {
+        name: "code",
+        description: "The contract source to port",
+        required: true,
+      },
+      {
+        name: "from",
+        description: "Version the contract is written for, e.g. 'v2.0.2'",
+        required: true,
+      },
+      {
+        name: "to",
+        description: "Version to port to (default: the synced version)",
+        default: "{{version}}",
+      },
+    ],
+    text:
+      "Port this Aztec contract from {{from}} to {{to}}.\n\n" +
+      "```noir\n{{code}}\n```\n\n" +
+      "Work through the attached migration notes in order and apply every change that affects the " +
+      "contract: renamed or moved imports, changed function signatures, macros, and note or storage " +
+      "APIs. Return the full updated contract, then list each change you made with the migration note " +
+      "it comes from. Flag anything the notes don't cover for verification with aztec_diff_versions.",
+    embed: {
+      migration: { from: "{{from}}", to: "{{to}}" },
+    },
+  },
+];
+
+/**
+ * Built-in prompts and the team templates from the prompts directory (a
+ * team template with a built-in's name replaces it). Template files that
+ * can't be used are reported in errors.
+ */
+export function listPrompts(dir: string = getPromptsDir()): { prompts: PromptTemplate[]; errors: string[] } {
+  const { templates, errors } = loadPromptTemplates(dir);
+  const names = new Set(templates.map((t) => t.name));
+  return {
+    prompts: [...BUILTIN_PROMPTS.filter((p) => !names.has(p.name)), ...templates],
+    errors,
+  };
+}
+
+/**
+ * Read the team templates (*.md) in a directory. A missing directory has none.
+ */
+export function loadPromptTemplates(dir: string): { templates: PromptTemplate[]; errors: string[] } {
+  const templates: PromptTemplate[] = [];
+  const errors: string[] = [];
+  if (!existsSync(dir)) {
+    return { templates, errors };
+  }
+
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((file) => extname(file) === ".md").sort();
+  } catch (error) {
+    return { templates, errors: [`Cannot read prompts directory ${dir}: ${errorMessage(error)}`] };
+  }
+
+  for (const file of files) {
+    try {
+      templates.push(parsePromptTemplate(readFileSync(join(dir, file), "utf-8"), join(dir, file)));
+    } catch (error) {
+      errors.push(errorMessage(error));
+    }
+  }
+
+  return { templates, errors };
+}
+
+/**
+ * Parse a team template: YAML frontmatter (description, title, arguments,
+ * embed) and the instruction as the body. The name defaults to the file name.
+ */
+export function parsePromptTemplate(source: string, file: string): PromptTemplate {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid prompt template ${file}: ${problem}`);
+  };
+
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  let frontmatter: unknown = {};
+  if (match) {
+    try {
+      frontmatter = parseYaml(match[1]) ?? {};
+    } catch (error) {
+      fail(errorMessage(error));
+    }
+  }
+  const text = (match ? match[2] : source).trim();
+
+  if (!isPlainObject(frontmatter)) return fail("frontmatter must be an object");
+  const meta = frontmatter;
+  for (const key of Object.keys(meta)) {
+    if (!["name", "title", "description", "arguments", "embed"].includes(key)) fail(`unknown setting '${key}'`);
+  }
+  const strings: Record<string, string | undefined> = {};
+  for (const key of ["name", "title", "description"]) {
+    const value = meta[key];
+    if (value !== undefined && (typeof value !== "string" || !value)) {
+      fail(`'${key}' must be a non-empty string`);
+    }
+    strings[key] = value as string | undefined;
+  }
+  if (!text) fail("the instruction text is empty");
+
+  const name = strings.name ?? basename(file, extname(file));
+  if (!/^[\w.-]+$/.test(name)) fail(`'${name}' is not a valid prompt name (letters, digits, '.', '-', '_')`);
+
+  const args = meta.arguments ?? [];
+  if (!Array.isArray(args)) return fail("'arguments' must be a list");
+  const promptArguments = args.map((arg: unknown, i): PromptArgument => {
+    if (!isPlainObject(arg) || typeof arg.name !== "string" || !/^\w+$/.test(arg.name)) {
+      return fail(`arguments[${i}] needs a name (letters, digits, '_')`);
+    }
+    if (arg.name === "version") fail("'version' is reserved for the synced Aztec version");
+    const { description, required = false, default: defaultValue } = arg;
+    if (description !== undefined && typeof description !== "string") {
+      fail(`arguments[${i}].description must be a string`);
+    }
+    if (typeof required !== "boolean") {
+      fail(`arguments[${i}].required must be true or false`);
+    }
+    if (defaultValue !== undefined && typeof defaultValue !== "string") {
+      fail(`arguments[${i}].default must be a string`);
+    }
+    return {
+      name: arg.name,
+      description: description as string | undefined,
+      required: required as boolean,
+      default: defaultValue as string | undefined,
+    };
+  });
+
+  const embed = meta.embed ?? {};
+  if (!isPlainObject(embed)) return fail("'embed' must be an object");
+  for (const [key, value] of Object.entries(embed)) {
+    if (key === "migration") {
+      if (!isPlainObject(value) || typeof value.from !== "string" || typeof value.to !== "string") {
+        fail("embed.migration needs 'from' and 'to' versions");
+      }
+    } else if (["docs", "search", "examples", "code", "files"].includes(key)) {
+      if (!isStringList(value)) {
+        fail(`embed.${key} must be a list of strings`);
+      }
+    } else {
+      fail(`embed has unknown setting '${key}'`);
+    }
+  }
+
+  return {
+    name,
+    title: strings.title,
+    description: strings.description,
+    arguments: promptArguments,
+    text,
+    embed: embed as PromptEmbeds,
+    file,
+  };
+}
+
+/**
+ * Fill in a prompt's arguments and collect its embedded context. Throws if
+ * a required argument is missing.
+ */
+export function renderPrompt(
+  prompt: PromptTemplate,
+  args: Record<string, string> = {}
+): { description?: string; messages: PromptMessage[] } {
+  const missing = prompt.arguments.filter((arg) => arg.required && !args[arg.name]?.trim());
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument${missing.length === 1 ? "" : "s"}: ${missing.map((a) => a.name).join(", ")}`);
+  }
+
+  const values: Record<string, string> = { version: DEFAULT_AZTEC_VERSION };
+  const fill = (template: string) => template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => values[key] ?? "");
+  for (const arg of prompt.arguments) {
+    values[arg.name] = args[arg.name]?.trim() || fill(arg.default ?? "");
+  }
+  const fillAll = (templates: string[] = []) => templates.map(fill).filter((value) => value.trim());
+
+  const context: PromptContent[] = [];
+  const notes: string[] = [];
+  const seen = new Set<string>();
+  const embedResource = (uri: string) => {
+    if (seen.has(uri)) return;
+    seen.add(uri);
+    let resource: ReturnType<typeof readResource> = null;
+    try {
+      resource = readResource(uri);
+    } catch {
+      // Reported below like a missing file
+    }
+    if (resource) context.push({ type: "resource", resource });
+    else notes.push(`Could not read ${uri}`);
+  };
+
+  const { embed } = prompt;
+  const needsDocs = !!(embed.docs?.length || embed.search?.length || embed.migration);
+  if (needsDocs && !isRepoCloned("aztec-packages")) {
+    notes.push("aztec-packages is not synced, so no docs are attached. Run aztec_sync_repos first.");
+  }
+
+  for (const ref of fillAll(embed.docs)) {
+    const page = resolveDocPage(ref);
+    if (page) embedResource(`aztec-docs://${page.id}`);
+    else notes.push(`No docs page found for '${ref}'`);
+  }
+
+  for (const query of fillAll(embed.search)) {
+    const sections = searchDocs(query, { fullSection: true, maxResults: MAX_SECTIONS }).results;
+    for (const section of sections) {
+      const heading = section.breadcrumb?.join(" > ") ?? section.pageTitle ?? section.file;
+      context.push({
+        type: "text",
+        text: `Docs: ${heading}${section.url ? ` (${section.url})` : ""}\n\n${section.sectionContent ?? section.content}`,
+      });
+    }
+  }
+
+  for (const name of fillAll(embed.examples)) {
+    const example = findExample(name);
+    if (example) embedResource(`aztec://${example.path}`);
+    else notes.push(`No example contract matches '${name}'`);
+  }
+
+  for (const query of fillAll(embed.code)) {
+    for (const path of findExamplesMatching(query)) {
+      embedResource(`aztec://${path}`);
+    }
+  }
+
+  for (const file of fillAll(embed.files)) {
+    embedResource(`aztec://${file}`);
+  }
+
+  if (embed.migration) {
+    const from = fill(embed.migration.from);
+    const to = fill(embed.migration.to);
+    const migration = migrationNotes(from, to);
+    if (migration) context.push({ type: "text", text: migration });
+    else notes.push(`No migration notes found from ${from} to ${to}`);
+  }
+
+  let text = fill(prompt.text);
+  if (context.length > 0) {
+    text += `\n\nReference material from the synced Aztec ${DEFAULT_AZTEC_VERSION} sources follows.`;
+  }
+  if (notes.length > 0) {
+    text += `\n\nNote: ${notes.join(". ")}.`;
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      { role: "user", content: { type: "text", text } },
+      ...context.map((content): PromptMessage => ({ role: "user", content })),
+    ],
+  };
+}
+
+// --- Helper functions ---
+
+/**
+ * Example contracts (main.nr paths) with the most code search matches
+ */
+function findExamplesMatching(query: string): string[] {
+  const examples = listExamples();
+  const found: string[] = [];
+
+  for (const result of searchCode(query, { filePattern: "*.nr", maxResults: 30 }).results) {
+    // Examples are "<contract>/src/main.nr"; a match anywhere in the contract counts
+    const example = examples.find((e) => result.file.startsWith(`${dirname(dirname(e.path))}/`));
+    if (example && !found.includes(example.path)) {
+      found.push(example.path);
+      if (found.length === MAX_EXAMPLES) break;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Migration notes from one version to another as markdown, read from the
+ * target version's docs when it is installed
+ */
+function migrationNotes(from: string, to: string): string | null {
+  if (!/^v?\d+\.\d+\.\d+/.test(from) || !/^v?\d+\.\d+\.\d+/.test(to) || compareVersions(from, to) >= 0) {
+    return null;
+  }
+
+  const docsVersion = isRepoCloned("aztec-packages", to) ? to : undefined;
+  const { entries } = withVersion(docsVersion, () => getMigrationEntries(from, to));
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const lines = [`Migration notes from ${from} to ${to}`];
+  let version: string | null = null;
+  for (const entry of entries) {
+    if (entry.version !== version) {
+      version = entry.version;
+      lines.push("", `## ${version}`);
+    }
+    lines.push("", ...(entry.title ? [`### ${entry.title}`, ""] : []), entry.content);
+  }
+  return lines.join("\n");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
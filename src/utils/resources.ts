@@ -0,0 +1,188 @@
+/**
+ * MCP resources - synced files addressed by URI, read from the default
+ * version:
+ *
+ *   aztec://{repo}/{+path}   a file in a cloned repo, or a workspace file
+ *                            (aztec://workspace/<name>/...)
+ *   aztec-docs://{docId}     a docs page by doc id (or docs.aztec.network route)
+ *
+ * Docs pages and example contracts are listed; any other file can be read
+ * through the repo template.
+ */
+
+import { createHash } from "crypto";
+import { extname } from "path";
+import { getRepoNames } from "../repos/config.js";
+import { DocPage, listDocPages, resolveDocPage } from "./docs.js";
+import { decodeCursor, encodeCursor } from "./pagination.js";
+import { listExamples, readFile } from "./search.js";
+import { WORKSPACE_REPO } from "./workspace.js";
+
+const REPO_SCHEME = "aztec://";
+const DOCS_SCHEME = "aztec-docs://";
+
+/** Resources per resources/list page */
+const PAGE_SIZE = 100;
+
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${REPO_SCHEME}{repo}/{+path}`,
+    name: "repo-file",
+    title: "Repository file",
+    description:
+      "A file in a synced repository (aztec-packages, aztec-examples, aztec-starter, ...), or in a " +
+      "registered workspace as workspace/<name>/<path>",
+  },
+  {
+    uriTemplate: `${DOCS_SCHEME}{docId}`,
+    name: "docs-page",
+    title: "Documentation page",
+    description: "An Aztec docs page by doc id (e.g. developers/guides/writing_contracts)",
+    mimeType: "text/markdown",
+  },
+];
+
+/**
+ * One page of the docs pages and example contracts, in a stable order.
+ * Returns null for a cursor that isn't from a previous page.
+ */
+export function listResources(cursor?: string): { resources: ResourceInfo[]; nextCursor?: string } | null {
+  const offset = cursor ? decodeCursor(cursor, "resources") : 0;
+  if (offset === null) {
+    return null;
+  }
+
+  const resources: ResourceInfo[] = [
+    ...listDocPages()
+      .slice()
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((page) => ({
+        uri: docUri(page),
+        name: page.id,
+        title: page.title,
+        description: page.url,
+        mimeType: "text/markdown",
+      })),
+    ...listExamples().map((example) => ({
+      uri: `${REPO_SCHEME}${example.path}`,
+      name: example.path,
+      title: `${example.name} (${example.repo})`,
+      description: `Example contract from ${example.repo}`,
+      mimeType: mimeTypeFor(example.path),
+    })),
+  ];
+
+  const end = offset + PAGE_SIZE;
+  return {
+    resources: resources.slice(offset, end),
+    nextCursor: end < resources.length ? encodeCursor(end, "resources") : undefined,
+  };
+}
+
+/**
+ * Read a resource. Returns null when the URI is well-formed but nothing
+ * is synced there; throws for URIs this server doesn't serve.
+ */
+export function readResource(uri: string): { uri: string; mimeType: string; text: string } | null {
+  const file = resolveResourceFile(uri);
+  if (!file) {
+    return null;
+  }
+
+  const text = readFile(file);
+  return text === null ? null : { uri, mimeType: mimeTypeFor(file), text };
+}
+
+/**
+ * Fingerprint of a resource's contents (null when it can't be read), for
+ * telling subscribers which resources a sync changed
+ */
+export function resourceDigest(uri: string): string | null {
+  try {
+    const resource = readResource(uri);
+    return resource ? createHash("sha1").update(resource.text).digest("hex") : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Helper functions ---
+
+function docUri(page: DocPage): string {
+  return `${DOCS_SCHEME}${page.id.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * File path (relative to the version directory) a resource URI refers to,
+ * or null when no docs page matches
+ */
+function resolveResourceFile(uri: string): string | null {
+  if (uri.startsWith(DOCS_SCHEME)) {
+    const id = decodePath(uri.slice(DOCS_SCHEME.length), uri);
+    if (!id) {
+      throw new Error(`Invalid resource URI '${uri}': expected ${DOCS_SCHEME}<doc id>`);
+    }
+    return resolveDocPage(id)?.file ?? null;
+  }
+
+  if (uri.startsWith(REPO_SCHEME)) {
+    const path = decodePath(uri.slice(REPO_SCHEME.length), uri);
+    const [repo, ...rest] = path.split("/");
+    if (rest.length === 0 || !rest.join("")) {
+      throw new Error(`Invalid resource URI '${uri}': expected ${REPO_SCHEME}<repo>/<path>`);
+    }
+    if (repo !== WORKSPACE_REPO && !getRepoNames().includes(repo)) {
+      throw new Error(`Unknown repository '${repo}' in resource URI '${uri}'`);
+    }
+    return path;
+  }
+
+  throw new Error(`Unsupported resource URI '${uri}': expected ${REPO_SCHEME} or ${DOCS_SCHEME}`);
+}
+
+/**
+ * Decode a URI path, dropping query and fragment. ".." segments are
+ * rejected so a URI can't reach outside the synced directories.
+ */
+function decodePath(path: string, uri: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(path.replace(/[?#].*$/, ""));
+  } catch {
+    throw new Error(`Invalid resource URI '${uri}': bad percent-encoding`);
+  }
+
+  const segments = decoded.split(/[\\/]/).filter((segment) => segment !== "" && segment !== ".");
+  if (segments.includes("..")) {
+    throw new Error(`Invalid resource URI '${uri}': path must stay inside the repository`);
+  }
+  return segments.join("/");
+}
+
+function mimeTypeFor(file: string): string {
+  switch (extname(file).toLowerCase()) {
+    case ".md":
+    case ".mdx":
+      return "text/markdown";
+    case ".json":
+      return "application/json";
+    default:
+      return "text/plain";
+  }
+}
@@ -2,17 +2,35 @@
  * Search utilities for finding content in cloned repositories
  */
 
-import { execSync } from "child_process";
+import { spawnSync } from "child_process";
 import { existsSync, readFileSync } from "fs";
-import { join, relative, extname } from "path";
+import { isAbsolute, join, relative, extname } from "path";
 import { globbySync } from "globby";
-import { REPOS_DIR, getRepoPath } from "./git.js";
+import { getVersionDir, getRepoPath } from "./git.js";
+import { searchIndex } from "./indexer.js";
+import { parseMarkdownSections, findSection, MarkdownPage } from "./markdown.js";
+import { DOCS_ROOT, toDocPage } from "./docs.js";
+import { WORKSPACE_REPO, listWorkspaces, resolveRepoFile, toRepoFile } from "./workspace.js";
 
 export interface SearchResult {
   file: string;
   line?: number;
   content: string;
   repo: string;
+  /** BM25 relevance score (only set for results from the search index) */
+  score?: number;
+  /** Lines immediately before the match (only set when context is requested) */
+  contextBefore?: string[];
+  /** Lines immediately after the match (only set when context is requested) */
+  contextAfter?: string[];
+  /** Title of the docs page the match is on (docs search only) */
+  pageTitle?: string;
+  /** Page title and enclosing headings, e.g. ["Storage", "Maps"] (docs search only) */
+  breadcrumb?: string[];
+  /** Full markdown of the section containing the match (docs search with fullSection) */
+  sectionContent?: string;
+  /** Public docs site URL of the page (docs search only) */
+  url?: string;
 }
 
 export interface FileInfo {
@@ -22,84 +40,132 @@ export interface FileInfo {
   type: "contract" | "test" | "typescript" | "docs" | "other";
 }
 
+/** Most matches collected per search; totals beyond this are estimates */
+export const MAX_MATCHES = 1000;
+
+/** How a search was run: ranked index, ripgrep, or the built-in line scan */
+export type SearchEngine = "index" | "ripgrep" | "manual";
+
+export interface SearchPage {
+  results: SearchResult[];
+  /** Matches across all pages (a lower bound when totalIsEstimate is set) */
+  total: number;
+  /** True when collection stopped at MAX_MATCHES */
+  totalIsEstimate: boolean;
+  /** Unset when there was nothing to search */
+  engine?: SearchEngine;
+}
+
 /**
- * Search code using ripgrep (falls back to manual search if rg not available)
+ * Search code using the ranked index built during sync. Regex and
+ * case-sensitive queries, and repos without an index, use ripgrep
+ * (falling back to manual search if rg is not available or fails).
+ *
+ * Registered workspaces are searched as well (or only, with repo
+ * "workspace"). Their files change, so they are always scanned rather than
+ * indexed, and their matches come first.
+ *
+ * Matches come back in a stable order (by score, else by path and line), so
+ * `offset` can be used to page through them.
  */
 export function searchCode(
   query: string,
   options: {
     filePattern?: string;
     repo?: string;
+    offset?: number;
     maxResults?: number;
     caseSensitive?: boolean;
+    contextBefore?: number;
+    contextAfter?: number;
   } = {}
-): SearchResult[] {
-  const { filePattern = "*.nr", repo, maxResults = 50, caseSensitive = false } = options;
-
-  const searchPath = repo ? getRepoPath(repo) : REPOS_DIR;
-
-  if (!existsSync(searchPath)) {
-    return [];
+): SearchPage {
+  const {
+    filePattern = "*.nr",
+    repo,
+    offset = 0,
+    maxResults = 50,
+    caseSensitive = false,
+    contextBefore = 0,
+    contextAfter = 0,
+  } = options;
+
+  const workspace =
+    !repo || repo === WORKSPACE_REPO ? searchWorkspaces(query, filePattern, caseSensitive) : null;
+  const workspaceMatches = workspace?.matches ?? [];
+  const workspacePage = workspaceMatches.slice(offset, offset + maxResults);
+
+  const page: SearchPage =
+    repo === WORKSPACE_REPO
+      ? { results: [], total: 0, totalIsEstimate: false }
+      : searchRepos(query, repo ? getRepoPath(repo) : getVersionDir(), {
+          filePattern,
+          offset: Math.max(0, offset - workspaceMatches.length),
+          maxResults: maxResults - workspacePage.length,
+          caseSensitive,
+        });
+
+  if (!workspace || (workspaceMatches.length === 0 && !workspace.truncated)) {
+    return { ...page, results: addContext(page.results, contextBefore, contextAfter) };
   }
 
-  try {
-    // Try ripgrep first (fast)
-    const rgFlags = [
-      caseSensitive ? "" : "-i",
-      "-n", // line numbers
-      "--no-heading",
-      "-g",
-      filePattern,
-      "-m",
-      String(maxResults * 2), // Get more, then trim
-    ]
-      .filter(Boolean)
-      .join(" ");
-
-    const result = execSync(`rg ${rgFlags} "${escapeShell(query)}" "${searchPath}"`, {
-      encoding: "utf-8",
-      maxBuffer: 10 * 1024 * 1024,
-      timeout: 30000,
-    });
-
-    return parseRgOutput(result, maxResults);
-  } catch (error) {
-    // Ripgrep not found or no matches, fall back to manual search
-    return manualSearch(query, searchPath, filePattern, maxResults, caseSensitive);
-  }
+  return {
+    results: addContext([...workspacePage, ...page.results], contextBefore, contextAfter),
+    total: workspaceMatches.length + page.total,
+    totalIsEstimate: page.totalIsEstimate || workspace.truncated,
+    engine: page.engine ?? workspace.engine,
+  };
 }
 
 /**
- * Search documentation files
+ * Search documentation files. Each match is labelled with its page title and
+ * heading breadcrumb; with fullSection, matches are collapsed to one result
+ * per section carrying the section's markdown.
  */
 export function searchDocs(
   query: string,
   options: {
     section?: string;
     maxResults?: number;
+    contextBefore?: number;
+    contextAfter?: number;
+    fullSection?: boolean;
+    offset?: number;
   } = {}
-): SearchResult[] {
-  const { section, maxResults = 30 } = options;
+): SearchPage {
+  const {
+    section,
+    offset,
+    maxResults = 30,
+    contextBefore,
+    contextAfter,
+    fullSection = false,
+  } = options;
 
   // Determine search path based on section
   let repo: string | undefined;
   if (section) {
-    const docsPath = join(REPOS_DIR, "aztec-packages", "docs", "docs", section);
+    const docsPath = join(getVersionDir(), "aztec-packages", "docs", "docs", section);
     if (existsSync(docsPath)) {
       // Search within the specific section by using a narrowed path
       repo = `aztec-packages/docs/docs/${section}`;
     }
   }
 
-  return searchCode(query, {
+  const page = searchCode(query, {
     filePattern: "*.{md,mdx}",
     repo: repo || "aztec-packages",
+    offset,
     maxResults,
+    contextBefore,
+    contextAfter,
   });
+
+  return { ...page, results: addSections(page.results, fullSection) };
 }
 
 /**
- * List example contracts
+ * List example contracts in a stable order (by repo, then path)
  */
 export function listExamples(category?: string): FileInfo[] {
   const examples: FileInfo[] = [];
@@ -139,8 +205,8 @@ export function listExamples(category?: string): FileInfo[] {
  * Read a specific file
  */
 export function readFile(filePath: string): string | null {
-  // Handle relative paths from repos dir
-  const fullPath = filePath.startsWith("/") ? filePath : join(REPOS_DIR, filePath);
+  // Handle relative paths from repos dir (and "workspace/<name>/..." paths)
+  const fullPath = resolveRepoFile(filePath);
 
   if (!existsSync(fullPath)) {
     return null;
@@ -178,34 +244,256 @@ export function findExample(name: string): FileInfo | null {
 // --- Helper functions ---
 
 /**
- * Escape a string for safe use inside double quotes in a shell command.
- * Preserves regex syntax (|, *, +, etc.) while preventing shell injection.
+ * Search one checkout or the whole version directory
+ */
+function searchRepos(
+  query: string,
+  searchPath: string,
+  options: { filePattern: string; offset: number; maxResults: number; caseSensitive: boolean }
+): SearchPage {
+  const { filePattern, offset, maxResults, caseSensitive } = options;
+
+  if (!existsSync(searchPath)) {
+    return { results: [], total: 0, totalIsEstimate: false };
+  }
+
+  if (!caseSensitive && isPlainQuery(query)) {
+    const ranked = searchIndex(query, {
+      scope: relative(getVersionDir(), searchPath),
+      filePattern,
+      offset,
+      maxResults,
+    });
+    // Partial-word queries miss the term index; let ripgrep try them
+    if (ranked && ranked.total > 0) {
+      return { results: ranked.results, total: ranked.total, totalIsEstimate: false, engine: "index" };
+    }
+  }
+
+  // Fall back to a manual scan only if ripgrep is missing or fails
+  const rg = runRipgrep(query, searchPath, filePattern, caseSensitive);
+  const matches = rg
+    ? rg.matches
+    : manualSearch(query, searchPath, filePattern, MAX_MATCHES + 1, caseSensitive);
+
+  return {
+    results: matches.slice(offset, offset + maxResults),
+    total: Math.min(matches.length, MAX_MATCHES),
+    totalIsEstimate: matches.length > MAX_MATCHES || (rg?.truncated ?? false),
+    engine: rg ? "ripgrep" : "manual",
+  };
+}
+
+/**
+ * Scan every registered workspace, in registration order
+ */
+function searchWorkspaces(
+  query: string,
+  filePattern: string,
+  caseSensitive: boolean
+): { matches: SearchResult[]; truncated: boolean; engine?: SearchEngine } {
+  const matches: SearchResult[] = [];
+  let truncated = false;
+  let engine: SearchEngine | undefined;
+
+  for (const workspace of listWorkspaces()) {
+    if (matches.length >= MAX_MATCHES) {
+      truncated = true;
+      break;
+    }
+    const rg = runRipgrep(query, workspace.path, filePattern, caseSensitive);
+    matches.push(
+      ...(rg ? rg.matches : manualSearch(query, workspace.path, filePattern, MAX_MATCHES + 1, caseSensitive))
+    );
+    truncated ||= rg?.truncated ?? false;
+    engine = rg ? "ripgrep" : "manual";
+  }
+
+  return { matches: matches.slice(0, MAX_MATCHES), truncated: truncated || matches.length > MAX_MATCHES, engine };
+}
+
+/**
+ * Whether a query can be answered from the term index (no regex syntax)
+ */
+function isPlainQuery(query: string): boolean {
+  return /^[\w\s.:]+$/.test(query) && /\w/.test(query);
+}
+
+/**
+ * Attach surrounding lines to each result, reading every file once
+ */
+function addContext(results: SearchResult[], before: number, after: number): SearchResult[] {
+  if ((before <= 0 && after <= 0) || results.length === 0) {
+    return results;
+  }
+
+  const fileLines = new Map<string, string[] | null>();
+
+  return results.map((result) => {
+    if (result.line === undefined) return result;
+
+    if (!fileLines.has(result.file)) {
+      try {
+        fileLines.set(result.file, readFileSync(resolveRepoFile(result.file), "utf-8").split("\n"));
+      } catch {
+        fileLines.set(result.file, null);
+      }
+    }
+
+    const lines = fileLines.get(result.file);
+    if (!lines) return result;
+
+    const index = result.line - 1;
+    return {
+      ...result,
+      contextBefore: before > 0 ? lines.slice(Math.max(0, index - before), index) : [],
+      contextAfter: after > 0 ? lines.slice(index + 1, index + 1 + after) : [],
+    };
+  });
+}
+
+/**
+ * Label docs matches with their page section, parsing every page once
  */
-function escapeShell(str: string): string {
-  return str.replace(/["$`\\!]/g, "\\$&");
+function addSections(results: SearchResult[], fullSection: boolean): SearchResult[] {
+  const pages = new Map<string, { page: MarkdownPage; lines: string[]; url?: string } | null>();
+  const seenSections = new Set<string>();
+  const labelled: SearchResult[] = [];
+
+  for (const result of results) {
+    if (!pages.has(result.file)) {
+      try {
+        const source = readFileSync(resolveRepoFile(result.file), "utf-8");
+        pages.set(result.file, {
+          page: parseMarkdownSections(source),
+          lines: source.split("\n"),
+          url: result.file.startsWith(`${DOCS_ROOT}/`) ? toDocPage(result.file, source).url : undefined,
+        });
+      } catch {
+        pages.set(result.file, null);
+      }
+    }
+
+    const parsed = pages.get(result.file);
+    const section = parsed && result.line !== undefined ? findSection(parsed.page, result.line) : undefined;
+    if (!parsed || !section) {
+      labelled.push(result);
+      continue;
+    }
+
+    const labels = {
+      pageTitle: parsed.page.title || undefined,
+      breadcrumb: section.breadcrumb,
+      url: parsed.url,
+    };
+    if (!fullSection) {
+      labelled.push({ ...result, ...labels });
+      continue;
+    }
+
+    const key = `${result.file}:${section.startLine}`;
+    if (seenSections.has(key)) continue;
+    seenSections.add(key);
+
+    labelled.push({
+      ...result,
+      ...labels,
+      sectionContent: parsed.lines.slice(section.startLine - 1, section.endLine).join("\n").trim(),
+    });
+  }
+
+  return labelled;
 }
 
-function parseRgOutput(output: string, maxResults: number): SearchResult[] {
+/** Paths and lines that aren't valid UTF-8 come back base64-encoded as `bytes` */
+interface RgText {
+  text?: string;
+  bytes?: string;
+}
+
+interface RgMatchMessage {
+  type: "match";
+  data: {
+    path: RgText;
+    lines: RgText;
+    line_number: number;
+  };
+}
+
+/**
+ * Run ripgrep with an argument array (no shell) and read its `--json` output.
+ * Returns [] when rg finds nothing (exit 1) and null when rg is missing,
+ * rejects the query, or fails without producing matches.
+ */
+function runRipgrep(
+  query: string,
+  searchPath: string,
+  filePattern: string,
+  caseSensitive: boolean
+): { matches: SearchResult[]; truncated: boolean } | null {
+  const args = [
+    "--json",
+    "--sort",
+    "path", // stable order across pages
+    "-g",
+    filePattern,
+    ...(caseSensitive ? [] : ["-i"]),
+    "-e",
+    query,
+    searchPath,
+  ];
+
+  const result = spawnSync("rg", args, {
+    encoding: "utf-8",
+    maxBuffer: 64 * 1024 * 1024,
+    timeout: 30000,
+  });
+
+  const matches = parseRgJson(result.stdout ?? "", MAX_MATCHES + 1);
+
+  if (result.error) {
+    // Output cut off at maxBuffer still holds usable matches
+    const truncated = (result.error as NodeJS.ErrnoException).code === "ENOBUFS";
+    return truncated && matches.length > 0 ? { matches, truncated } : null;
+  }
+  if (result.status === 1) {
+    return { matches: [], truncated: false };
+  }
+  // Exit 2 with matches means some files couldn't be read
+  if (result.status === 0 || matches.length > 0) {
+    return { matches, truncated: false };
+  }
+  return null;
+}
+
+/**
+ * Collect "match" messages from ripgrep's JSON Lines output
+ */
+function parseRgJson(output: string, maxResults: number): SearchResult[] {
   const results: SearchResult[] = [];
-  const lines = output.split("\n").filter(Boolean);
 
-  for (const line of lines) {
+  for (const line of output.split("\n")) {
     if (results.length >= maxResults) break;
+    if (!line.startsWith('{"type":"match"')) continue;
 
-    // Format: /path/to/file:linenum:content
-    const match = line.match(/^(.+?):(\d+):(.*)$/);
-    if (match) {
-      const [, filePath, lineNum, content] = match;
-      const relativePath = relative(REPOS_DIR, filePath);
-      const repoPart = relativePath.split("/")[0];
-
-      results.push({
-        file: relativePath,
-        line: parseInt(lineNum, 10),
-        content: content.trim(),
-        repo: repoPart,
-      });
+    let message: RgMatchMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      continue; // Last line of truncated output
     }
+
+    const { path, lines, line_number } = message.data;
+    const filePath = path.text ?? Buffer.from(path.bytes ?? "", "base64").toString("utf-8");
+    const content = lines.text ?? Buffer.from(lines.bytes ?? "", "base64").toString("utf-8");
+    const relativePath = toRepoFile(filePath);
+
+    results.push({
+      file: relativePath,
+      line: line_number,
+      content: content.trim(),
+      repo: relativePath.split("/")[0],
+    });
   }
 
   return results;
@@ -222,11 +510,17 @@ function manualSearch(
   const pattern = filePattern.replace("*.", "**/*.");
 
   try {
+    // A pattern like "../*.md" would reach outside the search path, so keep only files inside it
     const files = globbySync(pattern, {
       cwd: searchPath,
       absolute: true,
       ignore: ["**/node_modules/**", "**/.git/**"],
-    });
+    })
+      .filter((file) => {
+        const path = relative(searchPath, file);
+        return path !== "" && !path.startsWith("..") && !isAbsolute(path);
+      })
+      .sort();
 
     let searchRegex: RegExp;
     try {
@@ -246,7 +540,7 @@ function manualSearch(
           if (results.length >= maxResults) break;
 
           if (searchRegex.test(lines[i])) {
-            const relativePath = relative(REPOS_DIR, file);
+            const relativePath = toRepoFile(file);
             const repoPart = relativePath.split("/")[0];
 
             results.push({
@@ -279,10 +573,10 @@ function findContracts(basePath: string, repoName: string): FileInfo[] {
       cwd: basePath,
       absolute: true,
       ignore: ["**/node_modules/**", "**/.git/**"],
-    });
+    }).sort();
 
     for (const file of files) {
-      const relativePath = relative(REPOS_DIR, file);
+      const relativePath = relative(getVersionDir(), file);
       // Extract contract name from path (usually parent directory)
       const parts = relativePath.split("/");
       const srcIndex = parts.indexOf("src");
@@ -0,0 +1,242 @@
+/**
+ * Offline similar-code search: TF-IDF over token shingles of the example
+ * contracts found by listExamples
+ */
+
+import { listExamples, readFile } from "./search.js";
+import { parseNoirSymbols, stripCommentsAndStrings } from "./symbols.js";
+import { readHeadCommit } from "./git.js";
+
+export type SimilarKind = "fn" | "contract";
+
+export interface SimilarMatch {
+  name: string;
+  kind: SimilarKind;
+  /** Contract or impl the function is declared in */
+  container?: string;
+  /** Declaration line, whitespace collapsed */
+  signature: string;
+  file: string;
+  line: number;
+  endLine: number;
+  repo: string;
+  /** Cosine similarity to the query, 0-1 */
+  score: number;
+}
+
+/** Consecutive tokens per shingle */
+const SHINGLE_SIZE = 3;
+
+/** Functions shorter than this many tokens (trivial getters and the like) are mostly noise */
+const MIN_FUNCTION_TOKENS = 12;
+
+interface Unit {
+  match: Omit<SimilarMatch, "score">;
+  vector: Map<string, number>;
+}
+
+let corpusCache: { key: string; units: Unit[]; idf: Map<string, number>; defaultIdf: number } | null =
+  null;
+
+/**
+ * Split Noir source into code tokens. Identifiers are lowercased and
+ * literals collapsed so renamed variables and changed constants still match.
+ */
+export function codeTokens(source: string): string[] {
+  const tokens: string[] = [];
+  const code = source
+    .replace(/\/\*[\s\S]*?\*\//g, " ")
+    .split("\n")
+    .map(stripCommentsAndStrings)
+    .join("\n");
+
+  for (const match of code.matchAll(/""|[A-Za-z_]\w*|\d[\w.]*|::|->|=>|[=!<>]=|&&|\|\||\S/g)) {
+    const token = match[0];
+    if (token === '""') tokens.push("STR");
+    else if (/^\d/.test(token)) tokens.push("NUM");
+    else tokens.push(token.toLowerCase());
+  }
+  return tokens;
+}
+
+/**
+ * Term counts for a token stream: identifier unigrams plus token shingles
+ */
+export function codeFeatures(tokens: string[]): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string) => features.set(feature, (features.get(feature) ?? 0) + 1);
+
+  for (const token of tokens) {
+    if (/^[a-z_]\w*$/.test(token)) add(token);
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    add(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return features;
+}
+
+/**
+ * Rank example contracts and their functions by similarity to a snippet
+ * @param source - Noir code to compare against (a function, contract, or fragment)
+ * @param options.exclude - File (relative to the version directory) to leave out, e.g. the query's own file
+ */
+export function findSimilar(
+  source: string,
+  options: {
+    kind?: SimilarKind;
+    exclude?: string;
+    maxResults?: number;
+  } = {}
+): SimilarMatch[] {
+  const { kind, exclude, maxResults = 10 } = options;
+  const corpus = getCorpus();
+
+  const query = weigh(codeFeatures(codeTokens(source)), corpus.idf, corpus.defaultIdf);
+  if (query.size === 0) {
+    return [];
+  }
+
+  const matches: SimilarMatch[] = [];
+  for (const unit of corpus.units) {
+    if (kind && unit.match.kind !== kind) continue;
+    if (exclude && unit.match.file === exclude) continue;
+
+    const score = cosine(query, unit.vector);
+    if (score > 0) {
+      matches.push({ ...unit.match, score: Math.round(score * 1000) / 1000 });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.file.localeCompare(b.file) || a.line - b.line)
+    .slice(0, maxResults);
+}
+
+// --- Helper functions ---
+
+/**
+ * Build (or reuse) TF-IDF vectors for every example contract and function
+ */
+function getCorpus(): NonNullable<typeof corpusCache> {
+  const key = ["aztec-examples", "aztec-packages"].map((r) => readHeadCommit(r) ?? "").join(":");
+  if (corpusCache && corpusCache.key === key) {
+    return corpusCache;
+  }
+
+  const raw: { match: Omit<SimilarMatch, "score">; features: Map<string, number> }[] = [];
+
+  for (const example of listExamples()) {
+    const source = readFile(example.path);
+    if (!source) continue;
+
+    const lines = source.split("\n");
+    const symbols = parseNoirSymbols(source, example.path, example.repo);
+    const contract = symbols.find((s) => s.kind === "contract");
+
+    raw.push({
+      match: {
+        name: contract?.name ?? example.name,
+        kind: "contract",
+        signature: contract?.signature ?? `contract ${example.name}`,
+        file: example.path,
+        line: contract?.line ?? 1,
+        endLine: lines.length,
+        repo: example.repo,
+      },
+      features: codeFeatures(codeTokens(source)),
+    });
+
+    for (const symbol of symbols) {
+      if (symbol.kind !== "fn" || symbol.signature.endsWith(";")) continue;
+
+      const endLine = blockEnd(lines, symbol.line - 1);
+      const tokens = codeTokens(lines.slice(symbol.line - 1, endLine).join("\n"));
+      if (tokens.length < MIN_FUNCTION_TOKENS) continue;
+
+      raw.push({
+        match: {
+          name: symbol.name,
+          kind: "fn",
+          container: symbol.container,
+          signature: symbol.signature,
+          file: symbol.file,
+          line: symbol.line,
+          endLine,
+          repo: symbol.repo,
+        },
+        features: codeFeatures(tokens),
+      });
+    }
+  }
+
+  const df = new Map<string, number>();
+  for (const unit of raw) {
+    for (const feature of unit.features.keys()) {
+      df.set(feature, (df.get(feature) ?? 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [feature, count] of df) {
+    idf.set(feature, Math.log((raw.length + 1) / (count + 1)) + 1);
+  }
+  // Features no example has are as rare as it gets
+  const defaultIdf = Math.log(raw.length + 1) + 1;
+
+  const units = raw.map((unit) => ({ match: unit.match, vector: weigh(unit.features, idf, defaultIdf) }));
+  corpusCache = { key, units, idf, defaultIdf };
+  return corpusCache;
+}
+
+/**
+ * Turn term counts into a unit-length TF-IDF vector
+ */
+function weigh(features: Map<string, number>, idf: Map<string, number>, defaultIdf: number): Map<string, number> {
+  const vector = new Map<string, number>();
+  let norm = 0;
+
+  for (const [feature, count] of features) {
+    const weight = (1 + Math.log(count)) * (idf.get(feature) ?? defaultIdf);
+    vector.set(feature, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  for (const [feature, weight] of vector) {
+    vector.set(feature, weight / norm);
+  }
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [feature, weight] of small) {
+    const other = large.get(feature);
+    if (other !== undefined) dot += weight * other;
+  }
+  return dot;
+}
+
+/**
+ * Last line (1-based) of the brace-delimited block that starts at a declaration
+ */
+function blockEnd(lines: string[], start: number): number {
+  let depth = 0;
+  let opened = false;
+
+  for (let i = start; i < lines.length; i++) {
+    for (const char of stripCommentsAndStrings(lines[i])) {
+      if (char === "{") {
+        depth++;
+        opened = true;
+      } else if (char === "}") {
+        depth--;
+      }
+    }
+    if (opened && depth <= 0) {
+      return i + 1;
+    }
+  }
+  return lines.length;
+}
@@ -0,0 +1,280 @@
+/**
+ * Noir symbol index - declarations parsed from .nr files in cloned repositories
+ */
+
+import { readFileSync, statSync } from "fs";
+import { relative } from "path";
+import { globbySync } from "globby";
+import { getVersionDir, getRepoPath, listClonedRepos, readHeadCommit } from "./git.js";
+import { WORKSPACE_REPO, Workspace, listWorkspaces, toRepoFile } from "./workspace.js";
+
+export type SymbolKind = "fn" | "struct" | "trait" | "impl" | "contract" | "mod" | "global";
+
+export const SYMBOL_KINDS: SymbolKind[] = ["fn", "struct", "trait", "impl", "contract", "mod", "global"];
+
+export interface NoirSymbol {
+  name: string;
+  kind: SymbolKind;
+  /** Declaration up to the opening brace, whitespace collapsed */
+  signature: string;
+  /** Text of the `///` doc comment above the declaration */
+  doc?: string;
+  /** Enclosing impl, trait, contract, or mod (e.g. "PrivateSet") */
+  container?: string;
+  file: string;
+  line: number;
+  repo: string;
+}
+
+const DECLARATION =
+  /^(?:pub(?:\([^)]*\))?\s+)?(?:(?:unconstrained|comptime)\s+)*(fn|struct|trait|impl|contract|mod|global)\b\s*(.*)$/;
+
+/** Kinds whose body is a scope for nested declarations */
+const CONTAINER_KINDS = new Set<SymbolKind>(["impl", "trait", "contract", "mod"]);
+
+/** Parsed symbols per checkout path, with the commit they were parsed at */
+const symbolCache = new Map<string, { commit: string; symbols: NoirSymbol[] }>();
+
+/** Parsed symbols per workspace file, with the modification time they were parsed at */
+const workspaceFileCache = new Map<string, { mtimeMs: number; symbols: NoirSymbol[] }>();
+
+/**
+ * Extract declarations from Noir source
+ */
+export function parseNoirSymbols(source: string, file: string, repo: string): NoirSymbol[] {
+  const symbols: NoirSymbol[] = [];
+  const lines = source.split("\n");
+  const containers: { name: string; depth: number }[] = [];
+  let pending: { name: string; depth: number } | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const code = stripCommentsAndStrings(lines[i]);
+    const declaration = code.trim().replace(/^(#\[.*?\]\s*)+/, "").match(DECLARATION);
+
+    if (declaration) {
+      const kind = declaration[1] as SymbolKind;
+      const signature = readSignature(lines, i);
+      const name = kind === "impl" ? implTarget(declaration[2]) : declaration[2].match(/^\w+/)?.[0];
+
+      if (name) {
+        symbols.push({
+          name,
+          kind,
+          signature,
+          doc: readDocComment(lines, i),
+          container: containers[containers.length - 1]?.name,
+          file,
+          line: i + 1,
+          repo,
+        });
+
+        if (CONTAINER_KINDS.has(kind) && !signature.endsWith(";")) {
+          pending = { name, depth: depth + 1 };
+        }
+      }
+    }
+
+    for (const char of code) {
+      if (char === "{") {
+        depth++;
+        if (pending && depth === pending.depth) {
+          containers.push(pending);
+          pending = null;
+        }
+      } else if (char === "}") {
+        depth--;
+        while (containers.length > 0 && containers[containers.length - 1].depth > depth) {
+          containers.pop();
+        }
+      } else if (char === ";" && pending && depth < pending.depth) {
+        pending = null;
+      }
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Remove `//` comments and string contents from a line of Noir source
+ */
+export function stripCommentsAndStrings(line: string): string {
+  return line.replace(/"(?:[^"\\]|\\.)*"/g, '""').replace(/\/\/.*$/, "");
+}
+
+/**
+ * Parse all .nr files in a cloned repo (cached until the repo's commit changes)
+ */
+export function getRepoSymbols(repoName: string): NoirSymbol[] {
+  const commit = readHeadCommit(repoName) ?? "";
+  const repoPath = getRepoPath(repoName);
+  const cached = symbolCache.get(repoPath);
+  if (cached && cached.commit === commit) {
+    return cached.symbols;
+  }
+
+  const symbols: NoirSymbol[] = [];
+  const files = globbySync("**/*.nr", {
+    cwd: repoPath,
+    absolute: true,
+    ignore: ["**/node_modules/**", "**/.git/**"],
+  });
+
+  for (const file of files) {
+    try {
+      symbols.push(...parseNoirSymbols(readFileSync(file, "utf-8"), relative(getVersionDir(), file), repoName));
+    } catch {
+      // Skip files that can't be read
+    }
+  }
+
+  symbolCache.set(repoPath, { commit, symbols });
+  return symbols;
+}
+
+/**
+ * Parse all .nr files in a workspace. Files are re-parsed when they change.
+ */
+export function getWorkspaceSymbols(workspace: Workspace): NoirSymbol[] {
+  const files = globbySync("**/*.nr", {
+    cwd: workspace.path,
+    absolute: true,
+    gitignore: true,
+    ignore: ["**/node_modules/**", "**/.git/**", "**/target/**"],
+  });
+
+  return files.flatMap((file) => {
+    try {
+      const { mtimeMs } = statSync(file);
+      const cached = workspaceFileCache.get(file);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.symbols;
+      }
+      const symbols = parseNoirSymbols(readFileSync(file, "utf-8"), toRepoFile(file), WORKSPACE_REPO);
+      workspaceFileCache.set(file, { mtimeMs, symbols });
+      return symbols;
+    } catch {
+      // Skip files that can't be read
+      return [];
+    }
+  });
+}
+
+/**
+ * Symbols of the cloned repos (or one of them), and of the workspaces
+ * unless another repo is named
+ */
+export function getAllSymbols(repo?: string): NoirSymbol[] {
+  const repoSymbols = repo === WORKSPACE_REPO ? [] : (repo ? [repo] : listClonedRepos()).flatMap(getRepoSymbols);
+  const workspaceSymbols = !repo || repo === WORKSPACE_REPO ? listWorkspaces().flatMap(getWorkspaceSymbols) : [];
+  return [...workspaceSymbols, ...repoSymbols];
+}
+
+/**
+ * Find symbol definitions by name. Accepts `Container::name` to narrow
+ * methods. Exact matches rank above case-insensitive and partial matches.
+ */
+export function findSymbols(
+  query: string,
+  options: {
+    kind?: SymbolKind;
+    repo?: string;
+    maxResults?: number;
+  } = {}
+): NoirSymbol[] {
+  const { kind, repo, maxResults = 20 } = options;
+  const parts = query.split("::");
+  const name = parts.pop()!;
+  const container = parts.pop();
+  const lowerName = name.toLowerCase();
+
+  const ranked: { symbol: NoirSymbol; rank: number }[] = [];
+
+  for (const symbol of getAllSymbols(repo)) {
+    if (kind && symbol.kind !== kind) continue;
+    if (container && symbol.container !== container) continue;
+
+    const lowerSymbol = symbol.name.toLowerCase();
+    let rank: number;
+    if (symbol.name === name) rank = 0;
+    else if (lowerSymbol === lowerName) rank = 1;
+    else if (lowerSymbol.includes(lowerName)) rank = 2;
+    else continue;
+
+    // Test helpers and mocks share names with the real definitions
+    if (/(^|\/)tests?\/|_test\.nr$/.test(symbol.file)) rank += 0.5;
+
+    ranked.push({ symbol, rank });
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, maxResults)
+    .map((r) => r.symbol);
+}
+
+// --- Helper functions ---
+
+/**
+ * Collect a declaration that may span several lines, up to `{` or `;`
+ */
+function readSignature(lines: string[], start: number): string {
+  const parts: string[] = [];
+
+  for (let i = start; i < Math.min(lines.length, start + 20); i++) {
+    const code = stripCommentsAndStrings(lines[i]);
+    const end = code.search(/[{;]/);
+    if (end >= 0) {
+      parts.push(code.slice(0, code[end] === ";" ? end + 1 : end));
+      break;
+    }
+    parts.push(code);
+  }
+
+  return parts
+    .join(" ")
+    .replace(/^\s*(#\[.*?\]\s*)+/, "")
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,)>;])/g, "$1")
+    .replace(/([(<])\s+/g, "$1")
+    .trim();
+}
+
+/**
+ * Collect `///` comment lines directly above a declaration, skipping attributes
+ */
+function readDocComment(lines: string[], index: number): string | undefined {
+  const doc: string[] = [];
+
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (line.startsWith("#[")) continue;
+    if (!line.startsWith("///")) break;
+    doc.unshift(line.replace(/^\/\/\/ ?/, ""));
+  }
+
+  return doc.length > 0 ? doc.join("\n") : undefined;
+}
+
+/**
+ * Name of the type an impl block targets: `impl<T> Trait for Foo<T>` -> "Foo"
+ */
+function implTarget(rest: string): string | undefined {
+  let text = rest.trim();
+
+  // Skip the impl's own generic parameters
+  if (text.startsWith("<")) {
+    let level = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "<") level++;
+      else if (text[i] === ">" && --level === 0) {
+        text = text.slice(i + 1).trim();
+        break;
+      }
+    }
+  }
+
+  const forMatch = text.match(/\bfor\s+(\w+)/);
+  return forMatch ? forMatch[1] : text.match(/^\w+/)?.[0];
+}
@@ -0,0 +1,127 @@
+/**
+ * Workspaces - the user's own project directories, searched in place
+ * alongside the cloned repositories.
+ *
+ * Workspace files are addressed like repo files, relative to the version
+ * directory, under a virtual "workspace/<name>/" prefix.
+ */
+
+import { existsSync, statSync } from "fs";
+import { homedir } from "os";
+import { basename, isAbsolute, join, relative, resolve, sep } from "path";
+import { getVersionDir } from "./git.js";
+
+/** Repo label of workspace files and search results */
+export const WORKSPACE_REPO = "workspace";
+
+/** Where a workspace was registered from */
+export type WorkspaceSource = "config" | "tool" | "roots";
+
+export interface Workspace {
+  /** Unique name, used in file paths ("workspace/<name>/src/main.nr") */
+  name: string;
+  /** Absolute directory */
+  path: string;
+  source: WorkspaceSource;
+}
+
+let workspaces: Workspace[] = [];
+
+/**
+ * Registered workspaces, in registration order
+ */
+export function listWorkspaces(): Workspace[] {
+  return workspaces;
+}
+
+/**
+ * Register a directory as a workspace. Registering a directory again keeps
+ * its name. Throws if the path isn't a directory.
+ */
+export function addWorkspace(path: string, source: WorkspaceSource): Workspace {
+  const absolute = resolve(path.replace(/^~(?=$|\/)/, homedir()));
+  if (!existsSync(absolute) || !statSync(absolute).isDirectory()) {
+    throw new Error(`Not a directory: ${path}`);
+  }
+
+  const existing = workspaces.find((w) => w.path === absolute);
+  if (existing) {
+    return existing;
+  }
+
+  const base = basename(absolute).replace(/[^\w.-]/g, "_") || "root";
+  let name = base;
+  for (let i = 2; workspaces.some((w) => w.name === name); i++) {
+    name = `${base}-${i}`;
+  }
+
+  const workspace = { name, path: absolute, source };
+  workspaces = [...workspaces, workspace];
+  return workspace;
+}
+
+/**
+ * Unregister a workspace by name or directory. Returns false if none matched.
+ */
+export function removeWorkspace(nameOrPath: string): boolean {
+  const absolute = resolve(nameOrPath.replace(/^~(?=$|\/)/, homedir()));
+  const remaining = workspaces.filter((w) => w.name !== nameOrPath && w.path !== absolute);
+  const removed = remaining.length < workspaces.length;
+  workspaces = remaining;
+  return removed;
+}
+
+/**
+ * Replace the workspaces that came from one source (e.g. the client's MCP
+ * roots after they change). Paths that aren't directories are skipped.
+ */
+export function setWorkspaces(paths: string[], source: WorkspaceSource): Workspace[] {
+  workspaces = workspaces.filter((w) => w.source !== source);
+  const added: Workspace[] = [];
+  for (const path of paths) {
+    try {
+      added.push(addWorkspace(path, source));
+    } catch {
+      // Skip roots that are gone or aren't directories
+    }
+  }
+  return added;
+}
+
+/**
+ * Whether a path relative to the version directory stays inside it (and
+ * inside a workspace for "workspace/<name>/..." paths): not absolute, and
+ * without ".." segments
+ */
+export function staysInReposDir(file: string): boolean {
+  return !isAbsolute(file) && !file.split(/[\\/]/).includes("..");
+}
+
+/**
+ * Resolve a file path relative to the version directory to an absolute
+ * path, mapping "workspace/<name>/..." into the workspace's directory
+ */
+export function resolveRepoFile(file: string): string {
+  if (isAbsolute(file)) {
+    return file;
+  }
+
+  const [prefix, name, ...rest] = file.split("/");
+  const workspace = prefix === WORKSPACE_REPO ? workspaces.find((w) => w.name === name) : undefined;
+  return workspace ? join(workspace.path, ...rest) : join(getVersionDir(), file);
+}
+
+/**
+ * The path of an absolute file relative to the version directory, using
+ * the "workspace/<name>/" prefix for files in a workspace
+ */
+export function toRepoFile(absolute: string): string {
+  const workspace = workspaces
+    .filter((w) => absolute === w.path || absolute.startsWith(w.path + sep))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+  const path = workspace
+    ? join(WORKSPACE_REPO, workspace.name, relative(workspace.path, absolute))
+    : relative(getVersionDir(), absolute);
+  return path.replace(/\\/g, "/");
+}
@@ -44,8 +44,8 @@ async function test() {
 
   // Test 4: Search for code
   console.log("4. Searching for 'PrivateSet' in .nr files...");
-  const codeResults = searchCode("PrivateSet", { filePattern: "*.nr", maxResults: 5 });
-  console.log(`   Found ${codeResults.length} results`);
+  const { results: codeResults, total } = searchCode("PrivateSet", { filePattern: "*.nr", maxResults: 5 });
+  console.log(`   Found ${total} results`);
   for (const result of codeResults.slice(0, 3)) {
     console.log(`   - ${result.file}:${result.line}`);
   }
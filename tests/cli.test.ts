@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { parseServeOptions } from "../src/cli.js";
+
+describe("parseServeOptions", () => {
+  it("defaults to stdio on localhost", () => {
+    expect(parseServeOptions([], {})).toEqual({ transport: "stdio", host: "127.0.0.1", port: 3000, authToken: undefined });
+  });
+
+  it("reads the environment, with flags taking precedence", () => {
+    const env = { AZTEC_MCP_TRANSPORT: "http", AZTEC_MCP_HOST: "0.0.0.0", AZTEC_MCP_PORT: "8080", AZTEC_MCP_AUTH_TOKEN: "secret" };
+
+    expect(parseServeOptions([], env)).toEqual({ transport: "http", host: "0.0.0.0", port: 8080, authToken: "secret" });
+    expect(parseServeOptions(["--port", "9000", "--host", "10.0.0.2"], env)).toMatchObject({ host: "10.0.0.2", port: 9000 });
+  });
+
+  it.each([
+    [["--transport", "websocket"], "Unknown transport 'websocket'"],
+    [["--port", "http"], "Invalid port 'http'"],
+    [["--port", "70000"], "Invalid port '70000'"],
+    [["--port"], "Unexpected argument '--port'"],
+    [["serve"], "Unexpected argument 'serve'"],
+    [["--token", "x"], "Unexpected argument '--token'"],
+  ])("rejects %j", (args, message) => {
+    expect(() => parseServeOptions(args, {})).toThrow(message);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { startHttpServer } from "../src/http.js";
+
+/** A server whose one tool is named after its session number */
+let created = 0;
+/** Names of the servers that have closed */
+const closed = new Set<string>();
+function createServer(): Server {
+  const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } });
+  const name = `session_${++created}`;
+  server.onclose = () => closed.add(name);
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name, inputSchema: { type: "object" as const } }],
+  }));
+  return server;
+}
+
+let http: Awaited<ReturnType<typeof startHttpServer>> | undefined;
+const clients: Client[] = [];
+
+async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(transport);
+  clients.push(client);
+  return client;
+}
+
+afterEach(async () => {
+  for (const client of clients.splice(0)) {
+    await client.close();
+  }
+  await http?.close();
+  http = undefined;
+});
+
+describe("startHttpServer", () => {
+  it("gives each Streamable HTTP session its own server", async () => {
+    http = await startHttpServer({ host: "127.0.0.1", port: 0, createServer });
+
+    const first = await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`)));
+    const second = await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`)));
+
+    const [a, b] = await Promise.all([first.listTools(), second.listTools()]);
+    expect(a.tools[0].name).not.toBe(b.tools[0].name);
+    expect(http.sessions()).toBe(2);
+  });
+
+  it("serves the legacy SSE transport", async () => {
+    http = await startHttpServer({ host: "127.0.0.1", port: 0, createServer });
+
+    const client = await connect(new SSEClientTransport(new URL(`${http.url}/sse`)));
+
+    expect((await client.listTools()).tools).toHaveLength(1);
+  });
+
+  it("requires the bearer token when one is set", async () => {
+    http = await startHttpServer({ host: "127.0.0.1", port: 0, authToken: "s3cret", createServer });
+    const initialize = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "curl", version: "1" } },
+    };
+    const post = (authorization?: string) =>
+      fetch(`${http!.url}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...(authorization ? { Authorization: authorization } : {}),
+        },
+        body: JSON.stringify(initialize),
+      });
+
+    const missing = await post();
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+    expect((await post("Bearer wrong")).status).toBe(401);
+
+    const client = await connect(
+      new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), {
+        requestInit: { headers: { Authorization: "Bearer s3cret" } },
+      })
+    );
+    expect((await client.listTools()).tools).toHaveLength(1);
+  });
+
+  it("closes sessions that go idle", async () => {
+    http = await startHttpServer({ host: "127.0.0.1", port: 0, idleTimeoutMs: 200, createServer });
+    closed.clear();
+
+    const client = await connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`)));
+    await connect(new SSEClientTransport(new URL(`${http.url}/sse`)));
+    await client.listTools();
+    expect(http.sessions()).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(http.sessions()).toBe(0);
+    expect(closed.size).toBe(2);
+  });
+
+  it("closes the server of an initialize request the transport rejects", async () => {
+    http = await startHttpServer({ host: "127.0.0.1", port: 0, createServer });
+    closed.clear();
+
+    const response = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "curl", version: "1" } },
+      }),
+    });
+
+    expect(response.status).toBe(406);
+    expect(http.sessions()).toBe(0);
+    expect(closed.size).toBe(1);
+  });
+
+  it("rejects requests without a session and unknown sessions", async () => {
+    http = await startHttpServer({ host: "127.0.0.1", port: 0, createServer });
+    const request = (headers: Record<string, string>) =>
+      fetch(`${http!.url}/mcp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+      });
+
+    expect((await request({})).status).toBe(400);
+    expect((await request({ "Mcp-Session-Id": "no-such-session" })).status).toBe(404);
+    expect((await fetch(`${http.url}/other`)).status).toBe(404);
+  });
+});
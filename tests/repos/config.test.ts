@@ -1,6 +1,10 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import {
   AZTEC_REPOS,
+  applyUserConfig,
   getAztecRepos,
   getRepoConfig,
   getRepoNames,
@@ -106,3 +110,102 @@ describe("getRepoNames", () => {
     expect(names).toContain("aztec-pay");
   });
 });
+
+describe("applyUserConfig", () => {
+  const base = [
+    {
+      name: "aztec-packages",
+      url: "https://github.com/AztecProtocol/aztec-packages",
+      description: "Monorepo",
+      sparse: ["docs"],
+      searchPatterns: { code: ["*.nr"], docs: ["*.md"] },
+    },
+    { name: "aztec-pay", url: "https://github.com/aztec-pioneers/aztec-pay", description: "Pay" },
+  ];
+
+  it("returns the base repos without a config", () => {
+    expect(applyUserConfig(base, null)).toBe(base);
+  });
+
+  it("overrides settings of known repos, merging searchPatterns", () => {
+    const repos = applyUserConfig(base, {
+      path: "config.yaml",
+      repos: { "aztec-packages": { sparse: ["docs/docs"], searchPatterns: { docs: ["*.mdx"] } } },
+    });
+
+    expect(repos[0].sparse).toEqual(["docs/docs"]);
+    expect(repos[0].searchPatterns).toEqual({ code: ["*.nr"], docs: ["*.mdx"] });
+    expect(repos[0].url).toBe(base[0].url);
+    expect(base[0].sparse).toEqual(["docs"]);
+  });
+
+  it("adds new repos and drops disabled ones", () => {
+    const repos = applyUserConfig(base, {
+      path: "config.yaml",
+      repos: {
+        "aztec-pay": { disabled: true },
+        "our-lib": { url: "https://example.com/our-lib", versionTag: "aztec-{version}" },
+      },
+    });
+
+    expect(repos.map((r) => r.name)).toEqual(["aztec-packages", "our-lib"]);
+    expect(repos[1]).toMatchObject({ description: "https://example.com/our-lib", versionTag: "aztec-{version}" });
+  });
+
+  it("requires a url for new repos", () => {
+    expect(() => applyUserConfig(base, { path: "config.yaml", repos: { "our-lib": { branch: "main" } } })).toThrow(
+      "Invalid config file config.yaml: repos.our-lib is a new repository and needs a url"
+    );
+  });
+});
+
+describe("user config file", () => {
+  let dir: string;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function loadWith(config: string) {
+    dir = mkdtempSync(join(tmpdir(), "aztec-config-"));
+    const path = join(dir, "config.yaml");
+    writeFileSync(path, config);
+    vi.stubEnv("AZTEC_MCP_CONFIG", path);
+    vi.resetModules();
+    return import("../../src/repos/config.js");
+  }
+
+  it("applies version-tag rules from the config", async () => {
+    const config = await loadWith(
+      [
+        "repos:",
+        "  aztec-starter:",
+        "    versionTag: false",
+        "    branch: main",
+        "  noir-examples:",
+        "    versionTag: true",
+        "  our-lib:",
+        "    url: https://example.com/our-lib",
+        '    versionTag: "aztec-{version}"',
+      ].join("\n")
+    );
+    const repos = config.getAztecRepos("v2.0.0");
+    const tag = (name: string) => repos.find((r) => r.name === name)?.tag;
+
+    expect(config.getConfigError()).toBeNull();
+    expect(tag("aztec-packages")).toBe("v2.0.0");
+    expect(tag("aztec-starter")).toBeUndefined();
+    expect(tag("noir-examples")).toBe("v2.0.0");
+    expect(tag("our-lib")).toBe("aztec-v2.0.0");
+    expect(repos.find((r) => r.name === "our-lib")).not.toHaveProperty("versionTag");
+  });
+
+  it("keeps the built-in repos and reports an invalid config", async () => {
+    const config = await loadWith("repos:\n  noir:\n    sparse: docs\n");
+
+    expect(config.getConfigError()?.message).toContain("repos.noir.sparse must be a list of paths");
+    expect(config.getRepoNames()).toHaveLength(7);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { loadUserConfig, parseUserConfig } from "../../src/repos/overrides.js";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("parseUserConfig", () => {
+  it("parses YAML", () => {
+    const config = parseUserConfig(
+      ["repos:", "  aztec-pay:", "    disabled: true", "  noir:", "    sparse: [docs]"].join("\n"),
+      "config.yaml"
+    );
+
+    expect(config).toEqual({
+      path: "config.yaml",
+      repos: { "aztec-pay": { disabled: true }, noir: { sparse: ["docs"] } },
+      workspaces: [],
+    });
+  });
+
+  it("parses JSON", () => {
+    const config = parseUserConfig(
+      JSON.stringify({ repos: { lib: { url: "https://example.com/lib", searchPatterns: { code: ["*.nr"] } } } }),
+      "config.json"
+    );
+
+    expect(config.repos.lib.searchPatterns).toEqual({ code: ["*.nr"] });
+  });
+
+  it("treats an empty file as an empty config", () => {
+    expect(parseUserConfig("", "config.yaml")).toEqual({ path: "config.yaml", repos: {}, workspaces: [] });
+  });
+
+  it("resolves workspaces relative to the config file", () => {
+    const config = parseUserConfig("workspaces:\n  - app\n  - /srv/lib\n", "/home/me/.aztec-mcp/config.yaml");
+    expect(config.workspaces).toEqual(["/home/me/.aztec-mcp/app", "/srv/lib"]);
+  });
+
+  it("resolves the prompts directory relative to the config file", () => {
+    const config = parseUserConfig("prompts: team-prompts\n", "/home/me/.aztec-mcp/config.yaml");
+    expect(config.prompts).toBe("/home/me/.aztec-mcp/team-prompts");
+  });
+
+  it.each([
+    ["repos: [noir]", "'repos' must map repository names to settings"],
+    ["mirrors: {}", "unknown setting 'mirrors'"],
+    ["repos:\n  noir: true", "repos.noir must be an object"],
+    ["repos:\n  '../x':\n    url: u", "'../x' is not a valid repository name"],
+    ["repos:\n  noir:\n    url: ''", "repos.noir.url must be a non-empty string"],
+    ["repos:\n  noir:\n    spare: [docs]", "repos.noir has unknown setting 'spare'"],
+    ["repos:\n  noir:\n    searchPatterns: { tests: ['*.nr'] }", "repos.noir.searchPatterns.tests is not 'code' or 'docs'"],
+    ["repos:\n  noir:\n    versionTag: aztec", "repos.noir.versionTag must be true, false, or a tag template"],
+    ["repos:\n  noir:\n    disabled: yes please", "repos.noir.disabled must be true or false"],
+    ["repos:\n  aztec-packages:\n    disabled: true", "aztec-packages can't be disabled"],
+    ["repos:\n  workspace:\n    url: u", "'workspace' is reserved"],
+    ["workspaces: ~/app", "'workspaces' must be a list of directories"],
+    ["prompts: [a, b]", "'prompts' must be a directory"],
+  ])("rejects %j", (source, problem) => {
+    expect(() => parseUserConfig(source, "config.yaml")).toThrow(`Invalid config file config.yaml: ${problem}`);
+  });
+
+  it("reports syntax errors with the file", () => {
+    expect(() => parseUserConfig("{", "config.json")).toThrow(/^Invalid config file config.json: /);
+  });
+});
+
+describe("loadUserConfig", () => {
+  it("returns null without a config file", () => {
+    expect(loadUserConfig(null)).toBeNull();
+  });
+
+  it("fails when the configured file is missing", () => {
+    vi.stubEnv("AZTEC_MCP_CONFIG", "/nonexistent/aztec-config.yaml");
+    expect(() => loadUserConfig()).toThrow("Cannot read config file /nonexistent/aztec-config.yaml");
+  });
+});
@@ -0,0 +1,379 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+vi.mock("../src/utils/resources.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/utils/resources.js")>()),
+  resourceDigest: vi.fn(() => "before"),
+}));
+
+import { getTool } from "../src/tools/index.js";
+import { createServer } from "../src/server.js";
+import { resourceDigest } from "../src/utils/resources.js";
+
+const SYMBOL = {
+  name: "transfer",
+  kind: "fn",
+  signature: "fn transfer(to: AztecAddress, amount: u128)",
+  doc: "Moves tokens",
+  container: "Token",
+  file: "aztec-packages/noir-projects/noir-contracts/contracts/token/src/main.nr",
+  line: 42,
+  repo: "aztec-packages",
+};
+
+const HIT = {
+  file: "aztec-packages/docs/docs/token.md",
+  line: 7,
+  content: "transfer_in_private",
+  repo: "aztec-packages",
+  score: 3.2,
+  contextBefore: ["## Transfers"],
+  contextAfter: [""],
+  pageTitle: "Token",
+  breadcrumb: ["Token", "Transfers"],
+  sectionContent: "## Transfers\nUse transfer_in_private.",
+  url: "https://docs.aztec.network/token",
+};
+
+const EXAMPLE = { path: "aztec-examples/counter/src/main.nr", name: "counter", repo: "aztec-examples", type: "contract" };
+
+/** A call for each tool, and the result its tool function returns */
+const CALLS: { tool: string; args: Record<string, unknown>; result: object }[] = [
+  {
+    tool: "aztec_sync_repos",
+    args: {},
+    result: {
+      success: true,
+      message: "Synced 1 repository",
+      version: "v3.0.0",
+      repos: [{ name: "aztec-packages", status: "cloned", commit: "abc123" }],
+    },
+  },
+  {
+    tool: "aztec_status",
+    args: {},
+    result: {
+      reposDir: "/home/dev/.aztec-mcp/repos",
+      version: "v3.0.0",
+      syncedAt: "2026-01-01T00:00:00.000Z",
+      versions: [{ version: "v3.0.0", isDefault: true, repos: ["aztec-packages"] }],
+      repos: [{ name: "aztec-packages", description: "Monorepo", cloned: true, commit: "abc123", ref: "v3.0.0" }],
+    },
+  },
+  {
+    tool: "aztec_export_lockfile",
+    args: {},
+    result: { success: true, lockfile: "{}", message: "Lockfile for v3.0.0" },
+  },
+  {
+    tool: "aztec_export_bundle",
+    args: { path: "/tmp/aztec.tar.gz" },
+    result: { success: true, path: "/tmp/aztec.tar.gz", version: "v3.0.0", repos: ["aztec-packages"], message: "Exported" },
+  },
+  {
+    tool: "aztec_import_bundle",
+    args: { path: "/tmp/aztec.tar.gz" },
+    result: { success: false, path: "/tmp/aztec.tar.gz", repos: [], message: "Import failed: not a bundle" },
+  },
+  {
+    tool: "aztec_workspaces",
+    args: {},
+    result: { success: true, workspaces: [{ name: "app", path: "/home/dev/app", source: "tool" }], message: "1 workspace" },
+  },
+  {
+    tool: "aztec_list_versions",
+    args: {},
+    result: {
+      success: true,
+      defaultVersion: "v3.0.0",
+      channels: [{ channel: "stable", total: 1, versions: [{ tag: "v3.0.0", isDefault: true, installed: true }] }],
+      fetchedAt: "2026-01-01T00:00:00.000Z",
+      message: "1 version",
+    },
+  },
+  {
+    tool: "aztec_diff_versions",
+    args: { from: "v2.0.0", to: "v3.0.0", symbol: "Token" },
+    result: {
+      success: true,
+      from: "v2.0.0",
+      to: "v3.0.0",
+      mode: "signatures",
+      changes: [
+        {
+          name: "transfer",
+          kind: "fn",
+          container: "Token",
+          change: "changed",
+          before: { signature: "fn transfer(amount: Field)", file: "main.nr", line: 40 },
+          after: { signature: "fn transfer(amount: u128)", file: "main.nr", line: 42 },
+        },
+      ],
+      message: "1 change",
+    },
+  },
+  {
+    tool: "aztec_migration_guide",
+    args: { from: "v2.0.0", to: "v3.0.0" },
+    result: {
+      success: true,
+      entries: [{ version: "3.0.0", title: "Renamed notes", content: "...", file: "migration_notes.md", line: 4 }],
+      message: "1 entry",
+    },
+  },
+  {
+    tool: "aztec_history",
+    args: { search: "transfer" },
+    result: {
+      success: true,
+      repo: "aztec-packages",
+      commits: [{ commit: "abc123", date: "2026-01-01T00:00:00Z", author: "Dev", subject: "Add transfer", tag: "v3.0.0" }],
+      deepened: false,
+      shallow: true,
+      message: "1 commit",
+    },
+  },
+  {
+    tool: "aztec_search_code",
+    args: { query: "transfer" },
+    result: { success: true, results: [HIT], total: 30, totalIsEstimate: false, nextCursor: "c1", engine: "index", message: "30 matches" },
+  },
+  {
+    tool: "aztec_search_docs",
+    args: { query: "transfer" },
+    result: { success: true, results: [], total: 0, totalIsEstimate: false, message: "No matches" },
+  },
+  {
+    tool: "aztec_read_docs",
+    args: { ref: "token" },
+    result: {
+      success: true,
+      page: { file: "aztec-packages/docs/docs/token.md", id: "token", route: "/token", url: "https://docs.aztec.network/token", title: "Token", slug: "/token" },
+      content: "# Token",
+      message: "Token",
+    },
+  },
+  {
+    tool: "aztec_find_symbol",
+    args: { name: "transfer" },
+    result: { success: true, symbols: [SYMBOL], message: "1 symbol" },
+  },
+  {
+    tool: "aztec_goto_definition",
+    args: { query: "transfer" },
+    result: { success: false, symbols: [], message: "No definition found" },
+  },
+  {
+    tool: "aztec_find_references",
+    args: { query: "transfer" },
+    result: { success: true, definition: SYMBOL, results: [{ file: "a.nr", line: 3, content: "transfer(x)", repo: "aztec-packages" }], message: "1 reference" },
+  },
+  {
+    tool: "aztec_find_similar",
+    args: { code: "fn f() {}" },
+    result: {
+      success: true,
+      matches: [{ name: "f", kind: "fn", signature: "fn f()", file: "a.nr", line: 1, endLine: 3, repo: "aztec-examples", score: 0.9 }],
+      message: "1 match",
+    },
+  },
+  {
+    tool: "aztec_list_examples",
+    args: {},
+    result: { success: true, examples: [EXAMPLE], total: 1, totalIsEstimate: false, message: "1 example" },
+  },
+  {
+    tool: "aztec_read_example",
+    args: { name: "counter" },
+    result: { success: true, example: EXAMPLE, content: "contract Counter {}", message: "counter" },
+  },
+  {
+    tool: "aztec_read_file",
+    args: { path: "aztec-starter/README.md" },
+    result: { success: true, content: "# Starter", message: "aztec-starter/README.md" },
+  },
+];
+
+let client: Client;
+
+/** Connect a client to a new server session */
+async function connect(): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  const connected = new Client({ name: "test-client", version: "1.0.0" });
+  await connected.connect(clientTransport);
+  return connected;
+}
+
+beforeEach(async () => {
+  vi.mocked(resourceDigest).mockReturnValue("before");
+  client = await connect();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await client.close();
+});
+
+/** Make a tool return a canned result without running it */
+function stubTool(name: string, result: object) {
+  return vi.spyOn(getTool(name)!, "call").mockResolvedValue({ text: "result", result });
+}
+
+describe("tool output", () => {
+  it("declares an output schema for every tool", async () => {
+    const { tools: listed } = await client.listTools();
+
+    expect(listed.map((tool) => tool.name).sort()).toEqual(CALLS.map((call) => call.tool).sort());
+    for (const tool of listed) {
+      expect(tool.outputSchema, tool.name).toMatchObject({ type: "object" });
+    }
+  });
+
+  it.each(CALLS.map((call) => [call.tool, call] as const))(
+    "%s returns its result as structured content",
+    async (_tool, { tool, args, result }) => {
+      stubTool(tool, result);
+      // Listing first makes the client validate structuredContent against the output schema
+      await client.listTools();
+
+      const response = await client.callTool({ name: tool, arguments: args });
+
+      expect(response.structuredContent).toEqual(result);
+      expect(response.content).toEqual([{ type: "text", text: "result" }]);
+    }
+  );
+
+  it("results that don't match the schema fail client validation", async () => {
+    stubTool("aztec_find_symbol", { success: true, symbols: [{ ...SYMBOL, line: "42" }], message: "1 symbol" });
+    await client.listTools();
+
+    await expect(client.callTool({ name: "aztec_find_symbol", arguments: { name: "transfer" } })).rejects.toThrow(
+      /structured content does not match/i
+    );
+  });
+});
+
+describe("tool arguments", () => {
+  it.each([
+    ["aztec_search_code", { query: "note", maxResults: "5" }, 'maxResults must be an integer, got "5"'],
+    ["aztec_search_code", { maxResults: 5 }, "query is required"],
+    ["aztec_search_code", { query: "" }, "query must not be empty"],
+    ["aztec_search_code", { query: "note", repo: "nope" }, "repo must be one of: aztec-packages, aztec-examples"],
+    ["aztec_sync_repos", { repos: ["aztec-packages", "aztec-nr"] }, "repos[1] must be one of: aztec-packages"],
+    ["aztec_list_versions", { channel: "nightly" }, "channel must be one of: stable, testnet, devnet"],
+    ["aztec_find_symbol", { name: "x", maxresults: 3 }, "Unknown argument 'maxresults'. Expected: name, kind, repo"],
+    ["aztec_history", { repo: "aztec-packages" }, "path or search is required"],
+    ["aztec_status", { version: "../../.." }, "invalid version '../../..'"],
+  ])("%s rejects %j", async (tool, args, problem) => {
+    await expect(client.callTool({ name: tool, arguments: args })).rejects.toThrow(
+      `Invalid arguments for ${tool}: ${problem}`
+    );
+  });
+
+  it("rejects unknown tools", async () => {
+    await expect(client.callTool({ name: "aztec_nope", arguments: {} })).rejects.toThrow("Unknown tool: aztec_nope");
+  });
+});
+
+describe("resource notifications", () => {
+  it("tells every session about resources a sync changed", async () => {
+    const other = await connect();
+    const notices: string[] = [];
+    for (const [name, session] of [["first", client], ["second", other]] as const) {
+      session.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+        notices.push(`${name}: list changed`);
+      });
+      session.setNotificationHandler(ResourceUpdatedNotificationSchema, async ({ params }) => {
+        notices.push(`${name}: ${params.uri} updated`);
+      });
+    }
+    await client.subscribeResource({ uri: "aztec://aztec-packages/docs/docs/token.md" });
+    await other.subscribeResource({ uri: "aztec://aztec-packages/docs/docs/token.md" });
+    await other.subscribeResource({ uri: "aztec://aztec-packages/docs/docs/notes.md" });
+
+    vi.spyOn(getTool("aztec_sync_repos")!, "call").mockImplementation((_args, context) =>
+      context.changingResources(async () => {
+        vi.mocked(resourceDigest).mockImplementation((uri) => (uri === "aztec://aztec-packages/docs/docs/token.md" ? "after" : "before"));
+        return { text: "result", result: CALLS[0].result };
+      })
+    );
+    await client.callTool({ name: "aztec_sync_repos", arguments: {} });
+    // Let the notifications reach both clients
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(notices.sort()).toEqual([
+      "first: aztec://aztec-packages/docs/docs/token.md updated",
+      "first: list changed",
+      "second: aztec://aztec-packages/docs/docs/token.md updated",
+      "second: list changed",
+    ]);
+    await other.close();
+  });
+
+  it("stops notifying a session once it closes", async () => {
+    const other = await connect();
+    const notices: string[] = [];
+    other.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      notices.push("list changed");
+    });
+    await other.close();
+
+    vi.spyOn(getTool("aztec_sync_repos")!, "call").mockImplementation((_args, context) =>
+      context.changingResources(async () => ({ text: "result", result: CALLS[0].result }))
+    );
+    await client.callTool({ name: "aztec_sync_repos", arguments: {} });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(notices).toEqual([]);
+  });
+});
+
+describe("remote clients", () => {
+  let remote: Client;
+
+  beforeEach(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer({ remote: true }).connect(serverTransport);
+    remote = new Client({ name: "remote-client", version: "1.0.0" });
+    await remote.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await remote.close();
+  });
+
+  it("don't get tools that read or write paths on the server", async () => {
+    const { tools: listed } = await remote.listTools();
+    const names = listed.map((tool) => tool.name);
+
+    expect(names).not.toContain("aztec_workspaces");
+    expect(names).not.toContain("aztec_export_bundle");
+    expect(names).not.toContain("aztec_import_bundle");
+    expect(listed.find((tool) => tool.name === "aztec_sync_repos")!.inputSchema.properties).not.toHaveProperty(
+      "lockfile"
+    );
+    expect(listed.find((tool) => tool.name === "aztec_export_lockfile")!.inputSchema.properties).not.toHaveProperty(
+      "path"
+    );
+  });
+
+  it.each([
+    ["aztec_workspaces", { add: ["/"] }, "aztec_workspaces is only available to local (stdio) clients"],
+    ["aztec_export_lockfile", { path: "/home/dev/.bashrc" }, "path names a file on the server"],
+    ["aztec_sync_repos", { lockfile: "/etc/passwd" }, "lockfile names a file on the server"],
+    ["aztec_read_file", { path: "/etc/passwd" }, "path must be relative to the repos directory"],
+    ["aztec_read_file", { path: "aztec-packages/../../../etc/passwd" }, "path must be relative to the repos directory"],
+    ["aztec_search_docs", { query: "x", section: "../../../../tmp/secret" }, "section must be relative to the repos directory"],
+  ])("%s rejects %j", async (tool, args, problem) => {
+    const call = vi.spyOn(getTool(tool)!, "call");
+
+    await expect(remote.callTool({ name: tool, arguments: args })).rejects.toThrow(problem);
+    expect(call).toHaveBeenCalledWith(args, expect.objectContaining({ remote: true }));
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/bundle.js", () => ({
+  createBundle: vi.fn(),
+  extractBundle: vi.fn(),
+}));
+
+import { createBundle, extractBundle } from "../../src/utils/bundle.js";
+import { exportBundle, importBundle } from "../../src/tools/bundle.js";
+import { DEFAULT_AZTEC_VERSION } from "../../src/repos/config.js";
+
+const mockCreateBundle = vi.mocked(createBundle);
+const mockExtractBundle = vi.mocked(extractBundle);
+
+const INFO = {
+  format: 1,
+  version: "v1.0.0",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  repos: ["aztec-packages", "noir"],
+  indexes: ["index/noir/abc.json"],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("exportBundle", () => {
+  it("exports the default version when none is given", async () => {
+    mockCreateBundle.mockResolvedValue({ ...INFO, version: DEFAULT_AZTEC_VERSION, bytes: 3 * 1024 * 1024 });
+
+    const result = await exportBundle({ path: "/tmp/out.tar.gz" });
+
+    expect(mockCreateBundle).toHaveBeenCalledWith(DEFAULT_AZTEC_VERSION, "/tmp/out.tar.gz");
+    expect(result.success).toBe(true);
+    expect(result.repos).toEqual(["aztec-packages", "noir"]);
+    expect(result.message).toContain("Exported 2 repositories and 1 indexes");
+    expect(result.message).toContain("(3.0 MB)");
+  });
+
+  it("reports failures", async () => {
+    mockCreateBundle.mockRejectedValue(new Error("Aztec version 'v9.9.9' is not installed"));
+
+    const result = await exportBundle({ path: "/tmp/out.tar.gz", version: "v9.9.9" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("Export failed: Aztec version 'v9.9.9' is not installed");
+  });
+});
+
+describe("importBundle", () => {
+  it("passes force through and reports the imported version", async () => {
+    mockExtractBundle.mockResolvedValue(INFO);
+
+    const result = await importBundle({ path: "/tmp/in.tar.gz", force: true });
+
+    expect(mockExtractBundle).toHaveBeenCalledWith("/tmp/in.tar.gz", { force: true });
+    expect(result.success).toBe(true);
+    expect(result.version).toBe("v1.0.0");
+    expect(result.message).toContain("for v1.0.0 (exported 2026-01-01T00:00:00.000Z)");
+  });
+
+  it("reports failures", async () => {
+    mockExtractBundle.mockRejectedValue(new Error("Bundle not found: /tmp/in.tar.gz"));
+
+    const result = await importBundle({ path: "/tmp/in.tar.gz" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("Import failed: Bundle not found: /tmp/in.tar.gz");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/repos/config.js", () => ({
+  DEFAULT_AZTEC_VERSION: "v1.0.0",
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  diffRefs: vi.fn(),
+  fetchTags: vi.fn(),
+  withReposLock: vi.fn((run: () => Promise<unknown>) => run()),
+  isRepoCloned: vi.fn(),
+  isValidVersion: (version: string) => /^\w[\w.+-]*$/.test(version),
+  listChangedFiles: vi.fn(),
+  listInstalledVersions: vi.fn(() => []),
+  readFileAtRef: vi.fn(),
+}));
+
+import { diffRefs, fetchTags, isRepoCloned, listChangedFiles, readFileAtRef, withReposLock } from "../../src/utils/git.js";
+import { diffVersions } from "../../src/tools/diff.js";
+
+const mockDiffRefs = vi.mocked(diffRefs);
+const mockFetchTags = vi.mocked(fetchTags);
+const mockIsRepoCloned = vi.mocked(isRepoCloned);
+const mockListChangedFiles = vi.mocked(listChangedFiles);
+const mockReadFileAtRef = vi.mocked(readFileAtRef);
+
+const OLD_SET = `
+pub struct PrivateSet<Note> {}
+
+impl<Note> PrivateSet<Note> {
+    pub fn insert(self, note: Note) {}
+    pub fn remove(self, note: Note) {}
+}
+`;
+
+const NEW_SET = `
+pub struct PrivateSet<Note> {}
+
+impl<Note> PrivateSet<Note> {
+    pub fn insert(self, note: Note, emit: bool) {}
+    pub fn pop_notes(self, options: Options) {}
+}
+`;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockIsRepoCloned.mockImplementation((_repo, version) => version === "v1.0.0");
+  mockFetchTags.mockResolvedValue(undefined);
+  mockDiffRefs.mockResolvedValue("");
+  mockListChangedFiles.mockResolvedValue([]);
+});
+
+describe("diffVersions", () => {
+  it("rejects invalid tags", async () => {
+    const result = await diffVersions({ from: "--upload-pack=x", to: "v2.0.0", path: "a" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Invalid version");
+    expect(mockFetchTags).not.toHaveBeenCalled();
+  });
+
+  it("returns failure when aztec-packages is not cloned", async () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = await diffVersions({ from: "v1.0.0", to: "v2.0.0", path: "a" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("aztec_sync_repos");
+  });
+
+  it("fetches both tags into an installed clone and diffs a path", async () => {
+    mockDiffRefs.mockResolvedValue(" a.nr | 2 +-\n\ndiff --git a/a.nr b/a.nr\n-old\n+new\n");
+
+    const result = await diffVersions({ from: "v0.9.0", to: "v2.0.0", path: "aztec-packages/noir-projects/a.nr" });
+
+    expect(mockFetchTags).toHaveBeenCalledWith("aztec-packages", ["v0.9.0", "v2.0.0"], "v1.0.0");
+    expect(withReposLock).toHaveBeenCalledTimes(1);
+    expect(mockDiffRefs).toHaveBeenCalledWith("aztec-packages", "v0.9.0", "v2.0.0", ["noir-projects/a.nr"], "v1.0.0");
+    expect(result.success).toBe(true);
+    expect(result.mode).toBe("unified");
+    expect(result.diff).toContain("+new");
+    expect(result.truncated).toBe(false);
+  });
+
+  it("truncates long diffs", async () => {
+    mockDiffRefs.mockResolvedValue("1\n2\n3\n4\n");
+
+    const result = await diffVersions({ from: "v1.0.0", to: "v2.0.0", area: "yarn-project", maxLines: 2 });
+
+    expect(mockDiffRefs.mock.calls[0][3]).toEqual(["yarn-project"]);
+    expect(result.diff).toBe("1\n2");
+    expect(result.truncated).toBe(true);
+  });
+
+  it("reports fetch failures", async () => {
+    mockFetchTags.mockRejectedValue(new Error("couldn't find remote ref"));
+    const result = await diffVersions({ from: "v1.0.0", to: "v9.9.9", path: "a" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("aztec_list_versions");
+  });
+
+  it("lists signature changes for a symbol and its members", async () => {
+    mockListChangedFiles.mockResolvedValue([
+      { file: "noir-projects/aztec-nr/aztec/src/state_vars/private_set.nr", added: 2, deleted: 2 },
+    ]);
+    mockReadFileAtRef.mockImplementation(async (_repo, ref) => (ref === "v1.0.0" ? OLD_SET : NEW_SET));
+
+    const result = await diffVersions({ from: "v1.0.0", to: "v2.0.0", symbol: "PrivateSet" });
+
+    expect(mockListChangedFiles.mock.calls[0][3]).toEqual([
+      "noir-projects/aztec-nr/*.nr",
+      "noir-projects/noir-contracts/*.nr",
+    ]);
+    expect(result.mode).toBe("signatures");
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        name: "insert",
+        container: "PrivateSet",
+        change: "changed",
+        before: expect.objectContaining({ signature: "pub fn insert(self, note: Note)" }),
+        after: expect.objectContaining({
+          signature: "pub fn insert(self, note: Note, emit: bool)",
+          file: "aztec-packages/noir-projects/aztec-nr/aztec/src/state_vars/private_set.nr",
+        }),
+      }),
+      expect.objectContaining({ name: "remove", change: "removed" }),
+      expect.objectContaining({ name: "pop_notes", change: "added" }),
+    ]);
+    expect(result.message).toBe("3 signature changes in `PrivateSet` from v1.0.0 to v2.0.0");
+  });
+
+  it("diffs only the files declaring a symbol in unified mode", async () => {
+    mockListChangedFiles.mockResolvedValue([
+      { file: "noir-projects/aztec-nr/set.nr", added: 1, deleted: 1 },
+      { file: "noir-projects/aztec-nr/other.nr", added: 1, deleted: 1 },
+    ]);
+    mockReadFileAtRef.mockImplementation(async (_repo, _ref, file) =>
+      file.endsWith("set.nr") ? OLD_SET : "fn other() {}"
+    );
+    mockDiffRefs.mockResolvedValue("diff");
+
+    await diffVersions({ from: "v1.0.0", to: "v2.0.0", symbol: "PrivateSet::insert", mode: "unified" });
+
+    expect(mockDiffRefs.mock.calls[0][3]).toEqual(["noir-projects/aztec-nr/set.nr"]);
+  });
+
+  it("reports an unchanged symbol", async () => {
+    const result = await diffVersions({ from: "v1.0.0", to: "v2.0.0", symbol: "PrivateSet", mode: "unified" });
+    expect(result.message).toBe("No changes to `PrivateSet` from v1.0.0 to v2.0.0");
+    expect(mockDiffRefs).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/git.js", () => ({
+  isRepoCloned: vi.fn(() => true),
+  isVersionInstalled: vi.fn(() => true),
+  listInstalledVersions: vi.fn(() => []),
+  logHistory: vi.fn(),
+  isShallowClone: vi.fn(),
+  deepenClone: vi.fn(),
+  withReposLock: vi.fn((run: () => Promise<unknown>) => run()),
+}));
+
+import { deepenClone, isRepoCloned, isShallowClone, logHistory, withReposLock } from "../../src/utils/git.js";
+import { repoHistory } from "../../src/tools/history.js";
+
+const mockIsRepoCloned = vi.mocked(isRepoCloned);
+const mockLogHistory = vi.mocked(logHistory);
+const mockIsShallowClone = vi.mocked(isShallowClone);
+const mockDeepenClone = vi.mocked(deepenClone);
+
+const COMMIT = { commit: "a".repeat(40), date: "2024-05-02T10:00:00+00:00", author: "Ada", subject: "Add note", tag: "v1.0.0" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockIsRepoCloned.mockReturnValue(true);
+  mockIsShallowClone.mockResolvedValue(false);
+  mockLogHistory.mockResolvedValue([COMMIT]);
+});
+
+describe("repoHistory", () => {
+  it("requires a path or search string", async () => {
+    const result = await repoHistory({});
+    expect(result.success).toBe(false);
+    expect(mockLogHistory).not.toHaveBeenCalled();
+  });
+
+  it("fails when the repo is not cloned", async () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = await repoHistory({ search: "get_notes" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("not cloned");
+  });
+
+  it("strips a leading repo name from the path", async () => {
+    await repoHistory({ path: "aztec-packages/noir-projects/aztec-nr", search: "get_notes", maxResults: 5 });
+
+    expect(mockLogHistory).toHaveBeenCalledWith(
+      "aztec-packages",
+      { path: "noir-projects/aztec-nr", search: "get_notes", regex: undefined, maxCount: 5 },
+      undefined
+    );
+  });
+
+  it.each([
+    [{ path: "noir-projects" }, "Found 1 commit for changes in aztec-packages/noir-projects"],
+    [{ search: "get_notes" }, "Found 1 commit for changes to 'get_notes' in aztec-packages"],
+    [{ search: "get_.*", regex: true, path: "src" }, "Found 1 commit for lines matching 'get_.*' in aztec-packages/src"],
+  ])("describes %j in its message", async (options, message) => {
+    const result = await repoHistory(options);
+
+    expect(result.message).toBe(message);
+  });
+
+  it("returns full clones' history without fetching", async () => {
+    const result = await repoHistory({ path: "src/note.nr" });
+
+    expect(result.success).toBe(true);
+    expect(result.commits).toEqual([COMMIT]);
+    expect(result.deepened).toBe(false);
+    expect(mockDeepenClone).not.toHaveBeenCalled();
+  });
+
+  it("deepens a shallow clone once when it has too few commits", async () => {
+    mockIsShallowClone.mockResolvedValueOnce(true).mockResolvedValueOnce(true);
+    mockLogHistory.mockResolvedValueOnce([]).mockResolvedValueOnce([COMMIT]);
+
+    const result = await repoHistory({ search: "get_notes", deepen: 500 });
+
+    expect(mockDeepenClone).toHaveBeenCalledWith("aztec-packages", 500, undefined);
+    expect(withReposLock).toHaveBeenCalledTimes(1);
+    expect(mockLogHistory).toHaveBeenCalledTimes(2);
+    expect(result.commits).toEqual([COMMIT]);
+    expect(result.deepened).toBe(true);
+    expect(result.shallow).toBe(true);
+    expect(result.message).toContain("still shallow");
+  });
+
+  it("stays offline with deepen 0", async () => {
+    mockIsShallowClone.mockResolvedValue(true);
+
+    const result = await repoHistory({ search: "get_notes", deepen: 0 });
+
+    expect(mockDeepenClone).not.toHaveBeenCalled();
+    expect(result.shallow).toBe(true);
+  });
+
+  it("reports git failures", async () => {
+    mockLogHistory.mockRejectedValue(new Error("fatal: bad revision"));
+
+    const result = await repoHistory({ path: "src" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("fatal: bad revision");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/git.js", () => ({
+  isRepoCloned: vi.fn(() => true),
+  isVersionInstalled: vi.fn(() => true),
+  listInstalledVersions: vi.fn(() => []),
+  withVersion: (_version: unknown, fn: () => unknown) => fn(),
+}));
+
+vi.mock("../../src/utils/migration.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/utils/migration.js")>()),
+  getMigrationEntries: vi.fn(),
+}));
+
+import { isRepoCloned } from "../../src/utils/git.js";
+import { getMigrationEntries } from "../../src/utils/migration.js";
+import { migrationGuide } from "../../src/tools/migration.js";
+
+const mockIsRepoCloned = vi.mocked(isRepoCloned);
+const mockGetMigrationEntries = vi.mocked(getMigrationEntries);
+
+const ENTRY = { version: "2.0.0", title: "Renamed", content: "body", file: "notes.md", line: 3 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockIsRepoCloned.mockReturnValue(true);
+  mockGetMigrationEntries.mockReturnValue({ entries: [ENTRY], latest: "3.0.0", files: ["notes.md"] });
+});
+
+describe("migrationGuide", () => {
+  it("rejects versions that aren't release numbers", () => {
+    const result = migrationGuide({ from: "latest", to: "v2.0.0" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Unrecognized version 'latest'");
+  });
+
+  it("rejects a from version that isn't older than to", () => {
+    const result = migrationGuide({ from: "v2.0.0", to: "v1.0.0" });
+    expect(result.success).toBe(false);
+    expect(mockGetMigrationEntries).not.toHaveBeenCalled();
+  });
+
+  it("returns failure when aztec-packages is not cloned", () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = migrationGuide({ from: "v1.0.0", to: "v2.0.0" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("aztec_sync_repos");
+  });
+
+  it("returns the entries in range", () => {
+    const result = migrationGuide({ from: "v1.0.0", to: "v2.0.0" });
+    expect(result.success).toBe(true);
+    expect(result.entries).toEqual([ENTRY]);
+    expect(result.message).toBe("Found 1 migration entries across 1 versions from v1.0.0 to v2.0.0");
+    expect(mockGetMigrationEntries).toHaveBeenCalledWith("v1.0.0", "v2.0.0");
+  });
+
+  it("notes when the synced docs predate the target version", () => {
+    const result = migrationGuide({ from: "v1.0.0", to: "v4.0.0" });
+    expect(result.message).toContain("The synced notes end at 3.0.0");
+  });
+
+  it("returns failure when the docs have no migration notes", () => {
+    mockGetMigrationEntries.mockReturnValue({ entries: [], latest: null, files: [] });
+    const result = migrationGuide({ from: "v1.0.0", to: "v2.0.0" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("No migration notes");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/crates.js", () => ({
+  resolveDefinition: vi.fn(),
+  findReferences: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  isRepoCloned: vi.fn(),
+  withVersion: (_version: unknown, fn: () => unknown) => fn(),
+}));
+
+vi.mock("../../src/repos/config.js", () => ({
+  getRepoNames: vi.fn(() => ["aztec-packages", "noir"]),
+}));
+
+import { resolveDefinition, findReferences } from "../../src/utils/crates.js";
+import { isRepoCloned } from "../../src/utils/git.js";
+import { getRepoNames } from "../../src/repos/config.js";
+import { findAztecDefinition, findAztecReferences } from "../../src/tools/navigation.js";
+
+const mockResolveDefinition = vi.mocked(resolveDefinition);
+const mockFindReferences = vi.mocked(findReferences);
+const mockIsRepoCloned = vi.mocked(isRepoCloned);
+
+const getNotes = {
+  name: "get_notes",
+  kind: "fn" as const,
+  signature: "pub fn get_notes()",
+  file: "aztec-packages/note_getter.nr",
+  line: 4,
+  repo: "aztec-packages",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getRepoNames).mockReturnValue(["aztec-packages", "noir"]);
+});
+
+describe("findAztecDefinition", () => {
+  it("returns failure when no repos cloned", () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = findAztecDefinition({ query: "get_notes" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("No repositories are cloned");
+  });
+
+  it("passes the query and file through", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockResolveDefinition.mockReturnValue([getNotes]);
+
+    const result = findAztecDefinition({ query: "crate::note::get_notes", file: "a/b.nr" });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe("Resolved 'crate::note::get_notes'");
+    expect(mockResolveDefinition).toHaveBeenCalledWith("crate::note::get_notes", { file: "a/b.nr" });
+  });
+
+  it("reports unresolved queries", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockResolveDefinition.mockReturnValue([]);
+    const result = findAztecDefinition({ query: "aztec::missing" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Could not resolve");
+  });
+});
+
+describe("findAztecReferences", () => {
+  it("returns the definition and references", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockFindReferences.mockReturnValue({
+      definition: getNotes,
+      references: [{ file: "f.nr", line: 3, content: "get_notes(context);", repo: "aztec-examples" }],
+    });
+
+    const result = findAztecReferences({ query: "get_notes" });
+
+    expect(result.success).toBe(true);
+    expect(result.definition).toBe(getNotes);
+    expect(result.message).toBe("Found 1 references to get_notes");
+    expect(mockFindReferences).toHaveBeenCalledWith("get_notes", {
+      file: undefined,
+      paths: undefined,
+      maxResults: 100,
+    });
+  });
+
+  it("returns failure when the definition cannot be resolved", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockFindReferences.mockReturnValue({ definition: null, references: [] });
+    const result = findAztecReferences({ query: "missing" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Could not resolve");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { ObjectSchema, validateArguments } from "../../src/tools/schemas.js";
+
+const SCHEMA: ObjectSchema = {
+  type: "object",
+  properties: {
+    query: { type: "string", minLength: 1 },
+    maxResults: { type: "integer", minimum: 1 },
+    fullSection: { type: "boolean" },
+    repos: { type: "array", items: { type: "string", enum: ["aztec-packages", "aztec-starter"] } },
+  },
+  required: ["query"],
+  additionalProperties: false,
+};
+
+describe("validateArguments", () => {
+  it("accepts valid arguments, with optional ones left out or null", () => {
+    expect(validateArguments(SCHEMA, { query: "note", maxResults: 5, repos: ["aztec-starter"] })).toEqual([]);
+    expect(validateArguments(SCHEMA, { query: "note", fullSection: null })).toEqual([]);
+  });
+
+  it("names every bad argument", () => {
+    expect(
+      validateArguments(SCHEMA, { maxResults: 2.5, fullSection: "yes", repos: ["aztec-starter", 3, "noir"], extra: 1 })
+    ).toEqual([
+      "query is required",
+      "maxResults must be an integer, got number 2.5",
+      'fullSection must be a boolean, got "yes"',
+      "repos[1] must be a string, got number 3",
+      'repos[2] must be one of: aztec-packages, aztec-starter (got "noir")',
+      "Unknown argument 'extra'. Expected: query, maxResults, fullSection, repos",
+    ]);
+  });
+
+  it("checks minimums and empty strings", () => {
+    expect(validateArguments(SCHEMA, { query: "", maxResults: 0 })).toEqual([
+      "query must not be empty",
+      "maxResults must be at least 1, got 0",
+    ]);
+  });
+
+  it("ignores unknown arguments unless additional properties are disallowed", () => {
+    expect(validateArguments({ ...SCHEMA, additionalProperties: undefined }, { query: "x", extra: 1 })).toEqual([]);
+  });
+});
@@ -8,8 +8,13 @@ vi.mock("../../src/utils/search.js", () => ({
   readFile: vi.fn(),
 }));
 
+vi.mock("../../src/utils/docs.js", () => ({
+  resolveDocPage: vi.fn(),
+}));
+
 vi.mock("../../src/utils/git.js", () => ({
   isRepoCloned: vi.fn(),
+  withVersion: (_version: unknown, fn: () => unknown) => fn(),
 }));
 
 vi.mock("../../src/repos/config.js", () => ({
@@ -23,6 +28,7 @@ import {
   findExample,
   readFile,
 } from "../../src/utils/search.js";
+import { resolveDocPage } from "../../src/utils/docs.js";
 import { isRepoCloned } from "../../src/utils/git.js";
 import { getRepoNames } from "../../src/repos/config.js";
 import {
@@ -31,6 +37,7 @@ import {
   listAztecExamples,
   readAztecExample,
   readRepoFile,
+  readAztecDoc,
 } from "../../src/tools/search.js";
 
 const mockSearchCode = vi.mocked(searchCode);
@@ -38,9 +45,12 @@ const mockSearchDocs = vi.mocked(searchDocs);
 const mockListExamples = vi.mocked(listExamples);
 const mockFindExample = vi.mocked(findExample);
 const mockReadFile = vi.mocked(readFile);
+const mockResolveDocPage = vi.mocked(resolveDocPage);
 const mockIsRepoCloned = vi.mocked(isRepoCloned);
 const mockGetRepoNames = vi.mocked(getRepoNames);
 
+const emptyPage = { results: [], total: 0, totalIsEstimate: false };
+
 beforeEach(() => {
   vi.clearAllMocks();
   mockGetRepoNames.mockReturnValue(["aztec-packages", "aztec-examples", "noir"]);
@@ -63,9 +73,11 @@ describe("searchAztecCode", () => {
 
   it("delegates to searchCode with correct options", () => {
     mockIsRepoCloned.mockReturnValue(true);
-    mockSearchCode.mockReturnValue([
-      { file: "f", line: 1, content: "c", repo: "r" },
-    ]);
+    mockSearchCode.mockReturnValue({
+      results: [{ file: "f", line: 1, content: "c", repo: "r" }],
+      total: 1,
+      totalIsEstimate: false,
+    });
 
     const result = searchAztecCode({
       query: "test",
@@ -78,20 +90,78 @@ describe("searchAztecCode", () => {
     expect(mockSearchCode).toHaveBeenCalledWith("test", {
       filePattern: "*.ts",
       repo: "aztec-packages",
+      offset: 0,
       maxResults: 10,
+      contextBefore: 0,
+      contextAfter: 0,
+    });
+  });
+
+  it("passes context options through", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockSearchCode.mockReturnValue(emptyPage);
+
+    searchAztecCode({ query: "test", contextBefore: 2, contextAfter: 3 });
+
+    expect(mockSearchCode).toHaveBeenCalledWith(
+      "test",
+      expect.objectContaining({ contextBefore: 2, contextAfter: 3 })
+    );
+  });
+
+  it("returns a cursor for the next page and resumes from it", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockSearchCode.mockReturnValue({
+      results: [{ file: "f", line: 1, content: "c", repo: "r" }],
+      total: 3,
+      totalIsEstimate: false,
     });
+
+    const first = searchAztecCode({ query: "test", maxResults: 1 });
+    expect(first.total).toBe(3);
+    expect(first.nextCursor).toBeDefined();
+    expect(first.message).toBe("Showing matches 1-1 of 3");
+
+    const second = searchAztecCode({ query: "test", maxResults: 1, cursor: first.nextCursor });
+    expect(second.success).toBe(true);
+    expect(mockSearchCode).toHaveBeenLastCalledWith("test", expect.objectContaining({ offset: 1 }));
+  });
+
+  it("says which search engine ran", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockSearchCode.mockReturnValue({ ...emptyPage, engine: "manual" });
+
+    const result = searchAztecCode({ query: "test" });
+
+    expect(result.engine).toBe("manual");
+    expect(result.message).toBe("No matches found (built-in search)");
+  });
+
+  it("rejects a cursor from a different query", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockSearchCode.mockReturnValue({ ...emptyPage, total: 5 });
+
+    const first = searchAztecCode({ query: "test", maxResults: 1 });
+    const result = searchAztecCode({ query: "other", cursor: first.nextCursor });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Invalid or expired cursor");
+    expect(mockSearchCode).toHaveBeenCalledTimes(1);
   });
 
   it("defaults filePattern to *.nr and maxResults to 30", () => {
     mockIsRepoCloned.mockReturnValue(true);
-    mockSearchCode.mockReturnValue([]);
+    mockSearchCode.mockReturnValue(emptyPage);
 
     searchAztecCode({ query: "test" });
 
     expect(mockSearchCode).toHaveBeenCalledWith("test", {
       filePattern: "*.nr",
       repo: undefined,
+      offset: 0,
       maxResults: 30,
+      contextBefore: 0,
+      contextAfter: 0,
     });
   });
 });
@@ -106,13 +176,17 @@ describe("searchAztecDocs", () => {
 
   it("delegates to searchDocs with correct options", () => {
     mockIsRepoCloned.mockReturnValue(true);
-    mockSearchDocs.mockReturnValue([]);
+    mockSearchDocs.mockReturnValue(emptyPage);
 
     searchAztecDocs({ query: "tutorial", section: "concepts", maxResults: 5 });
 
     expect(mockSearchDocs).toHaveBeenCalledWith("tutorial", {
       section: "concepts",
+      offset: 0,
       maxResults: 5,
+      contextBefore: 0,
+      contextAfter: 0,
+      fullSection: false,
     });
   });
 });
@@ -136,6 +210,21 @@ describe("listAztecExamples", () => {
     expect(mockListExamples).toHaveBeenCalledWith("token");
     expect(result.examples).toHaveLength(1);
   });
+
+  it("pages through examples with a cursor", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockListExamples.mockReturnValue(
+      ["a", "b", "c"].map((name) => ({ path: name, name, repo: "r", type: "contract" as const }))
+    );
+
+    const first = listAztecExamples({ maxResults: 2 });
+    expect(first.examples.map((e) => e.name)).toEqual(["a", "b"]);
+    expect(first.total).toBe(3);
+
+    const second = listAztecExamples({ maxResults: 2, cursor: first.nextCursor });
+    expect(second.examples.map((e) => e.name)).toEqual(["c"]);
+    expect(second.nextCursor).toBeUndefined();
+  });
 });
 
 describe("readAztecExample", () => {
@@ -190,3 +279,40 @@ describe("readRepoFile", () => {
     expect(result.content).toBe("file content");
   });
 });
+
+describe("readAztecDoc", () => {
+  const page = {
+    file: "aztec-packages/docs/docs/guides/storage.md",
+    id: "guides/storage",
+    route: "/guides/storage",
+    url: "https://docs.aztec.network/guides/storage",
+    title: "Storage",
+  };
+
+  it("returns failure when aztec-packages not cloned", () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = readAztecDoc({ ref: "guides/storage" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("aztec-packages is not cloned");
+  });
+
+  it("reads the resolved page", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockResolveDocPage.mockReturnValue(page);
+    mockReadFile.mockReturnValue("# Storage");
+
+    const result = readAztecDoc({ ref: "https://docs.aztec.network/guides/storage/" });
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe("# Storage");
+    expect(mockReadFile).toHaveBeenCalledWith(page.file);
+  });
+
+  it("returns failure when no page matches", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockResolveDocPage.mockReturnValue(null);
+    const result = readAztecDoc({ ref: "nope" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("No docs page found");
+  });
+});
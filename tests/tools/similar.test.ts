@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/similarity.js", () => ({
+  findSimilar: vi.fn(() => []),
+}));
+
+vi.mock("../../src/utils/search.js", () => ({
+  readFile: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  getVersionDir: () => "/fake/repos",
+  isRepoCloned: vi.fn(),
+  withVersion: (_version: unknown, fn: () => unknown) => fn(),
+}));
+
+import { findSimilar } from "../../src/utils/similarity.js";
+import { readFile } from "../../src/utils/search.js";
+import { isRepoCloned } from "../../src/utils/git.js";
+import { findSimilarCode } from "../../src/tools/similar.js";
+
+const mockFindSimilar = vi.mocked(findSimilar);
+const mockReadFile = vi.mocked(readFile);
+const mockIsRepoCloned = vi.mocked(isRepoCloned);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockFindSimilar.mockReturnValue([]);
+});
+
+describe("findSimilarCode", () => {
+  it("returns failure when no example repos are cloned", () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = findSimilarCode({ code: "fn main() {}" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("aztec_sync_repos");
+  });
+
+  it("compares a snippet", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockFindSimilar.mockReturnValue([
+      { name: "main", kind: "fn", signature: "fn main()", file: "f", line: 1, endLine: 2, repo: "r", score: 0.5 },
+    ]);
+
+    const result = findSimilarCode({ code: "fn main() {}", kind: "fn", maxResults: 3 });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe("Found 1 similar functions");
+    expect(mockFindSimilar).toHaveBeenCalledWith("fn main() {}", { kind: "fn", exclude: undefined, maxResults: 3 });
+  });
+
+  it("reads a file and leaves it out of the results", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockReadFile.mockReturnValue("contract A {}");
+
+    findSimilarCode({ path: "/fake/repos/aztec-examples/a/src/main.nr" });
+
+    expect(mockFindSimilar).toHaveBeenCalledWith(
+      "contract A {}",
+      expect.objectContaining({ exclude: "aztec-examples/a/src/main.nr" })
+    );
+  });
+
+  it("reports a missing file", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockReadFile.mockReturnValue(null);
+
+    const result = findSimilarCode({ path: "nope.nr" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("File not found: nope.nr");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/symbols.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/utils/symbols.js")>()),
+  findSymbols: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  isRepoCloned: vi.fn(),
+  withVersion: (_version: unknown, fn: () => unknown) => fn(),
+}));
+
+vi.mock("../../src/repos/config.js", () => ({
+  getRepoNames: vi.fn(() => ["aztec-packages", "noir"]),
+}));
+
+import { findSymbols } from "../../src/utils/symbols.js";
+import { isRepoCloned } from "../../src/utils/git.js";
+import { getRepoNames } from "../../src/repos/config.js";
+import { findAztecSymbol } from "../../src/tools/symbols.js";
+
+const mockFindSymbols = vi.mocked(findSymbols);
+const mockIsRepoCloned = vi.mocked(isRepoCloned);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getRepoNames).mockReturnValue(["aztec-packages", "noir"]);
+});
+
+describe("findAztecSymbol", () => {
+  it("returns failure when specific repo not cloned", () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = findAztecSymbol({ name: "emit", repo: "noir" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("not cloned");
+  });
+
+  it("returns failure when no repos cloned", () => {
+    mockIsRepoCloned.mockReturnValue(false);
+    const result = findAztecSymbol({ name: "emit" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("No repositories are cloned");
+  });
+
+  it("delegates to findSymbols with defaults", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockFindSymbols.mockReturnValue([
+      { name: "emit", kind: "fn", signature: "fn emit()", file: "f", line: 1, repo: "r" },
+    ]);
+
+    const result = findAztecSymbol({ name: "emit", kind: "fn" });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain("Found 1 definitions of 'emit'");
+    expect(mockFindSymbols).toHaveBeenCalledWith("emit", {
+      kind: "fn",
+      repo: undefined,
+      maxResults: 20,
+    });
+  });
+
+  it("reports when nothing matches", () => {
+    mockIsRepoCloned.mockReturnValue(true);
+    mockFindSymbols.mockReturnValue([]);
+    const result = findAztecSymbol({ name: "missing" });
+    expect(result.success).toBe(true);
+    expect(result.message).toContain("No definitions found");
+  });
+});
@@ -3,6 +3,13 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 const mockCloneRepo = vi.fn();
 const mockGetReposStatus = vi.fn();
 const mockGetNoirCommitFromAztec = vi.fn();
+const mockListInstalledVersions = vi.fn(() => ["v1.0.0"]);
+const mockUnknownVersionError = vi.fn();
+const mockGetRepoCommit = vi.fn();
+const mockReadLockfile = vi.fn();
+const mockReadManifest = vi.fn();
+const mockWriteManifest = vi.fn();
+const mockWriteLockfile = vi.fn();
 
 vi.mock("../../src/repos/config.js", () => ({
   AZTEC_REPOS: [
@@ -58,17 +65,45 @@ vi.mock("../../src/repos/config.js", () => ({
     },
   ]),
   DEFAULT_AZTEC_VERSION: "v1.0.0",
+  getRepoConfig: (name: string) => ({ name, url: "", description: `${name} description` }),
+  getRepoNames: () => ["aztec-packages", "aztec-examples", "noir"],
 }));
 
-vi.mock("../../src/utils/git.js", () => ({
+vi.mock("../../src/utils/git.js", async (importOriginal) => ({
+  withReposLock: (await importOriginal<typeof import("../../src/utils/git.js")>()).withReposLock,
   cloneRepo: (...args: any[]) => mockCloneRepo(...args),
   getReposStatus: (...args: any[]) => mockGetReposStatus(...args),
   getNoirCommitFromAztec: () => mockGetNoirCommitFromAztec(),
+  getRepoCommit: (...args: any[]) => mockGetRepoCommit(...args),
+  getVersionDir: (version: string) => `/fake/repos/${version}`,
+  isValidVersion: () => true,
+  isVersionInstalled: (version: string) => mockListInstalledVersions().includes(version),
+  listClonedRepos: () => ["aztec-packages"],
+  listInstalledVersions: () => mockListInstalledVersions(),
+  migrateLegacyLayout: async () => [],
+  withVersion: (_version: unknown, fn: () => unknown) => fn(),
   REPOS_DIR: "/fake/repos",
 }));
 
+vi.mock("../../src/tools/versions.js", () => ({
+  unknownVersionError: (...args: any[]) => mockUnknownVersionError(...args),
+}));
+
+vi.mock("../../src/utils/manifest.js", () => ({
+  readLockfile: (...args: any[]) => mockReadLockfile(...args),
+  readManifest: (...args: any[]) => mockReadManifest(...args),
+  writeLockfile: (...args: any[]) => mockWriteLockfile(...args),
+  writeManifest: (...args: any[]) => mockWriteManifest(...args),
+}));
+
+const mockIndexRepo = vi.fn();
+
+vi.mock("../../src/utils/indexer.js", () => ({
+  indexRepo: (...args: any[]) => mockIndexRepo(...args),
+}));
+
 import { getAztecRepos } from "../../src/repos/config.js";
-import { syncRepos, getStatus } from "../../src/tools/sync.js";
+import { syncRepos, getStatus, exportLockfile } from "../../src/tools/sync.js";
 
 const mockGetAztecRepos = vi.mocked(getAztecRepos);
 
@@ -76,6 +111,10 @@ beforeEach(() => {
   vi.clearAllMocks();
   mockCloneRepo.mockResolvedValue("Cloned");
   mockGetNoirCommitFromAztec.mockResolvedValue(null);
+  mockIndexRepo.mockReturnValue(null);
+  mockUnknownVersionError.mockResolvedValue(null);
+  mockGetRepoCommit.mockImplementation(async (name: string) => `${name}-commit`);
+  mockReadManifest.mockReturnValue(null);
 });
 
 describe("syncRepos", () => {
@@ -171,12 +210,334 @@ describe("syncRepos", () => {
 
     expect(mockCloneRepo).toHaveBeenCalledWith(
       expect.objectContaining({ name: "aztec-packages" }),
-      true
+      true,
+      "v1.0.0",
+      expect.any(Function)
+    );
+  });
+
+  it("clones into the requested version's directory", async () => {
+    const result = await syncRepos({ version: "v2.0.0", repos: ["aztec-packages"] });
+
+    expect(mockCloneRepo).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "aztec-packages", tag: "v2.0.0" }),
+      false,
+      "v2.0.0",
+      expect.any(Function)
+    );
+    expect(result.message).toContain("/fake/repos/v2.0.0");
+  });
+
+  it("checks a version that isn't installed against the remote tags", async () => {
+    await syncRepos({ version: "v2.0.0" });
+    expect(mockUnknownVersionError).toHaveBeenCalledWith("v2.0.0");
+
+    mockUnknownVersionError.mockClear();
+    await syncRepos({ version: "v1.0.0" });
+    expect(mockUnknownVersionError).not.toHaveBeenCalled();
+  });
+
+  it("clones nothing when the version is unknown", async () => {
+    mockUnknownVersionError.mockResolvedValue("Unknown Aztec version 'v2.0.O'.");
+
+    const result = await syncRepos({ version: "v2.0.O" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Unknown Aztec version");
+    expect(mockCloneRepo).not.toHaveBeenCalled();
+  });
+});
+
+describe("syncRepos concurrency", () => {
+  it("clones other repos alongside aztec-packages but holds noir repos back", async () => {
+    const started: string[] = [];
+    let finishAztec!: () => void;
+    mockCloneRepo.mockImplementation(async (config: any) => {
+      started.push(config.name);
+      if (config.name === "aztec-packages") {
+        await new Promise<void>((resolve) => (finishAztec = resolve));
+      }
+      return "Cloned";
+    });
+
+    const sync = syncRepos({ concurrency: 5 });
+    await vi.waitFor(() => expect(started).toContain("aztec-starter"));
+
+    expect(started).toEqual(["aztec-packages", "aztec-examples", "aztec-starter"]);
+    finishAztec();
+    const result = await sync;
+
+    expect(started).toEqual(["aztec-packages", "aztec-examples", "aztec-starter", "noir", "noir-examples"]);
+    // Results keep the sequential order
+    expect(result.repos.map((r) => r.name)).toEqual([
+      "aztec-packages",
+      "noir",
+      "noir-examples",
+      "aztec-examples",
+      "aztec-starter",
+    ]);
+  });
+
+  it("runs at most `concurrency` clones at once", async () => {
+    let active = 0;
+    let peak = 0;
+    mockCloneRepo.mockImplementation(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      return "Cloned";
+    });
+
+    await syncRepos({ concurrency: 2 });
+
+    expect(peak).toBe(2);
+    expect(mockCloneRepo).toHaveBeenCalledTimes(5);
+  });
+
+  it("waits for a running sync before starting another", async () => {
+    const started: string[] = [];
+    let finishFirst!: () => void;
+    mockCloneRepo.mockImplementation(async (config: any, _force: boolean, version: string) => {
+      started.push(`${version} ${config.name}`);
+      if (started.length === 1) {
+        await new Promise<void>((resolve) => (finishFirst = resolve));
+      }
+      return "Cloned";
+    });
+
+    const first = syncRepos({ repos: ["aztec-packages"] });
+    const second = syncRepos({ version: "v1.0.0", repos: ["aztec-examples"] });
+    await vi.waitFor(() => expect(started).toHaveLength(1));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(started).toEqual(["v1.0.0 aztec-packages"]);
+    finishFirst();
+    await Promise.all([first, second]);
+    expect(started).toEqual(["v1.0.0 aztec-packages", "v1.0.0 aztec-examples"]);
+  });
+
+  it("reports each repo's phases and completion", async () => {
+    mockCloneRepo.mockImplementation(async (config: any, _force: boolean, _version: string, onProgress: any) => {
+      onProgress("cloning");
+      if (config.name === "aztec-examples") throw new Error("network");
+      return "Cloned";
+    });
+    const updates: any[] = [];
+
+    await syncRepos({ repos: ["aztec-packages", "aztec-examples"], concurrency: 1, onProgress: (u) => updates.push(u) });
+
+    expect(updates).toEqual([
+      { repo: "aztec-packages", phase: "cloning", completed: 0, total: 2 },
+      { repo: "aztec-packages", phase: "indexing", completed: 0, total: 2 },
+      { repo: "aztec-packages", phase: "done", completed: 1, total: 2 },
+      { repo: "aztec-examples", phase: "cloning", completed: 1, total: 2 },
+      { repo: "aztec-examples", phase: "failed", completed: 2, total: 2 },
+    ]);
+  });
+});
+
+describe("syncRepos indexing", () => {
+  it("builds an index for each synced repo", async () => {
+    mockIndexRepo.mockReturnValue({ commit: "abc", files: 42 });
+
+    const result = await syncRepos({ repos: ["aztec-packages"] });
+
+    expect(mockIndexRepo).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "aztec-packages" })
     );
+    expect(result.repos[0].status).toContain("indexed 42 files");
+  });
+
+  it("does not fail the sync when indexing throws", async () => {
+    mockIndexRepo.mockImplementation(() => {
+      throw new Error("disk full");
+    });
+
+    const result = await syncRepos({ repos: ["aztec-packages"] });
+
+    expect(result.success).toBe(true);
+    expect(result.repos[0].status).toContain("index not built: disk full");
+  });
+
+  it("skips indexing when the clone fails", async () => {
+    mockCloneRepo.mockRejectedValue(new Error("clone failed"));
+
+    await syncRepos({ repos: ["aztec-packages"] });
+
+    expect(mockIndexRepo).not.toHaveBeenCalled();
+  });
+});
+
+const NOIR_COMMIT = "a".repeat(40);
+
+const LOCK = {
+  version: "v1.5.0",
+  syncedAt: "2026-01-01T00:00:00.000Z",
+  noirCommit: NOIR_COMMIT,
+  repos: [
+    {
+      name: "aztec-packages",
+      url: "https://github.com/AztecProtocol/aztec-packages",
+      ref: "v1.5.0",
+      refType: "tag",
+      commit: "1".repeat(40),
+      sparse: ["docs"],
+      syncedAt: "2026-01-01T00:00:00.000Z",
+    },
+    {
+      name: "noir",
+      url: "https://github.com/noir-lang/noir",
+      ref: NOIR_COMMIT,
+      refType: "commit",
+      commit: NOIR_COMMIT,
+      syncedAt: "2026-01-01T00:00:00.000Z",
+    },
+  ],
+};
+
+describe("syncRepos manifest", () => {
+  it("records full commits in the result and the manifest", async () => {
+    mockGetNoirCommitFromAztec.mockResolvedValue("abc123deadbeef");
+
+    const result = await syncRepos({ repos: ["aztec-packages", "noir"] });
+
+    expect(result.repos.map((r) => r.commit)).toEqual(["aztec-packages-commit", "noir-commit"]);
+    expect(mockWriteManifest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        version: "v1.0.0",
+        noirCommit: "abc123deadbeef",
+        repos: [
+          expect.objectContaining({ name: "aztec-packages", ref: "v1.0.0", refType: "tag", commit: "aztec-packages-commit" }),
+          expect.objectContaining({ name: "noir", ref: "abc123deadbeef", refType: "commit", commit: "noir-commit" }),
+        ],
+      })
+    );
+  });
+
+  it("leaves failed repos out of the manifest", async () => {
+    mockCloneRepo.mockImplementation(async (config: any) => {
+      if (config.name === "noir") throw new Error("network");
+      return "Cloned";
+    });
+
+    await syncRepos({ repos: ["aztec-packages", "noir"] });
+
+    const manifest = mockWriteManifest.mock.calls[0][0];
+    expect(manifest.repos.map((r: any) => r.name)).toEqual(["aztec-packages"]);
+  });
+
+  it("notes a manifest that couldn't be written", async () => {
+    mockWriteManifest.mockImplementation(() => {
+      throw new Error("read-only");
+    });
+
+    const result = await syncRepos({ repos: ["aztec-packages"] });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain("manifest not written: read-only");
+  });
+});
+
+describe("syncRepos from a lockfile", () => {
+  beforeEach(() => {
+    mockReadLockfile.mockReturnValue(LOCK);
+    mockGetRepoCommit.mockImplementation(
+      async (name: string) => LOCK.repos.find((r) => r.name === name)?.commit
+    );
+  });
+
+  it("checks out the locked version and commits", async () => {
+    const result = await syncRepos({ lockfile: "/team/aztec.lock.json" });
+
+    expect(result.success).toBe(true);
+    expect(result.version).toBe("v1.5.0");
+    expect(mockUnknownVersionError).not.toHaveBeenCalled();
+    expect(mockGetNoirCommitFromAztec).not.toHaveBeenCalled();
+    expect(mockCloneRepo).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "aztec-packages", commit: "1".repeat(40), sparse: ["docs"] }),
+      false,
+      "v1.5.0",
+      expect.any(Function)
+    );
+    expect(mockCloneRepo).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "noir", commit: NOIR_COMMIT, description: "noir description" }),
+      false,
+      "v1.5.0",
+      expect.any(Function)
+    );
+    // The manifest keeps the lockfile's refs
+    expect(mockWriteManifest.mock.calls[0][0].repos[0]).toMatchObject({ ref: "v1.5.0", refType: "tag" });
+  });
+
+  it("fails a repo that ends up at a different commit", async () => {
+    mockGetRepoCommit.mockResolvedValue("2".repeat(40));
+
+    const result = await syncRepos({ lockfile: "/team/aztec.lock.json", repos: ["aztec-packages"] });
+
+    expect(result.success).toBe(false);
+    expect(result.repos[0].status).toBe("Error: checked out 2222222, lockfile pins 1111111");
+    expect(mockWriteManifest).not.toHaveBeenCalled();
+  });
+
+  it("rejects a lockfile for another version", async () => {
+    const result = await syncRepos({ lockfile: "/team/aztec.lock.json", version: "v2.0.0" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Lockfile is for version 'v1.5.0'");
+    expect(mockCloneRepo).not.toHaveBeenCalled();
+  });
+
+  it("reports lockfiles that can't be read", async () => {
+    mockReadLockfile.mockImplementation(() => {
+      throw new Error("Lockfile is not valid JSON");
+    });
+
+    const result = await syncRepos({ lockfile: "/team/aztec.lock.json" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("Lockfile is not valid JSON");
+  });
+});
+
+describe("exportLockfile", () => {
+  it("returns failure when the version has no manifest", () => {
+    const result = exportLockfile({ version: "v2.0.0" });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("aztec_sync_repos");
+  });
+
+  it("returns the manifest as JSON", () => {
+    mockReadManifest.mockReturnValue(LOCK);
+
+    const result = exportLockfile({ version: "v1.5.0" });
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(result.lockfile!)).toEqual(LOCK);
+    expect(mockWriteLockfile).not.toHaveBeenCalled();
+  });
+
+  it("writes the lockfile to a path", () => {
+    mockReadManifest.mockReturnValue(LOCK);
+
+    const result = exportLockfile({ version: "v1.5.0", path: "/team/aztec.lock.json" });
+
+    expect(mockWriteLockfile).toHaveBeenCalledWith("/team/aztec.lock.json", LOCK);
+    expect(result.message).toBe("Wrote lockfile for v1.5.0 to /team/aztec.lock.json");
   });
 });
 
 describe("getStatus", () => {
+  it("reads the last sync from the manifest", async () => {
+    mockGetReposStatus.mockResolvedValue(new Map([["aztec-packages", { cloned: true, commit: "1111111" }]]));
+    mockReadManifest.mockReturnValue({ ...LOCK, version: "v1.0.0" });
+
+    const status = await getStatus();
+
+    expect(status.syncedAt).toBe(LOCK.syncedAt);
+    expect(status.noirCommit).toBe(NOIR_COMMIT);
+    expect(status.repos.find((r) => r.name === "aztec-packages")?.ref).toBe("v1.5.0");
+  });
+
   it("returns reposDir and repos array", async () => {
     mockGetReposStatus.mockResolvedValue(
       new Map([
@@ -193,6 +554,28 @@ describe("getStatus", () => {
     expect(status.repos).toHaveLength(5);
   });
 
+  it("lists installed versions and marks the default", async () => {
+    mockGetReposStatus.mockResolvedValue(new Map());
+    mockListInstalledVersions.mockReturnValue(["v0.9.0", "v1.0.0"]);
+
+    const status = await getStatus();
+
+    expect(status.version).toBe("v1.0.0");
+    expect(status.versions).toEqual([
+      { version: "v0.9.0", isDefault: false, repos: ["aztec-packages"] },
+      { version: "v1.0.0", isDefault: true, repos: ["aztec-packages"] },
+    ]);
+  });
+
+  it("reports repos for a chosen version", async () => {
+    mockGetReposStatus.mockResolvedValue(new Map());
+
+    const status = await getStatus({ version: "v2.0.0" });
+
+    expect(mockGetReposStatus).toHaveBeenCalledWith(expect.any(Array), "v2.0.0");
+    expect(status.version).toBe("v2.0.0");
+  });
+
   it("includes description, cloned status, and commit", async () => {
     mockGetReposStatus.mockResolvedValue(
       new Map([
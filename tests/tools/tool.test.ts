@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { defineTool, ToolContext } from "../../src/tools/tool.js";
+
+const context: ToolContext = { changingResources: (run) => run() };
+
+function echoTool(check?: (args: { a?: string; b?: number }) => string | undefined) {
+  const run = vi.fn((args: { a?: string; b?: number }) => ({ success: true, args }));
+  const tool = defineTool({
+    name: "echo",
+    description: "Echo the arguments",
+    inputSchema: { type: "object", properties: { a: { type: "string" }, b: { type: "integer" } } },
+    outputSchema: { type: "object", properties: {} },
+    check,
+    run,
+    format: (result) => `echo ${JSON.stringify(result.args)}`,
+  });
+  return { tool, run };
+}
+
+describe("defineTool", () => {
+  it("advertises an input schema that rejects unknown arguments", () => {
+    expect(echoTool().tool.inputSchema.additionalProperties).toBe(false);
+  });
+
+  it("runs the tool with validated arguments, dropping nulls", async () => {
+    const { tool, run } = echoTool();
+
+    const { text, result } = await tool.call({ a: "x", b: null }, context);
+
+    expect(run).toHaveBeenCalledWith({ a: "x" }, context);
+    expect(result).toEqual({ success: true, args: { a: "x" } });
+    expect(text).toBe('echo {"a":"x"}');
+  });
+
+  it("throws InvalidParams without running the tool", async () => {
+    const { tool, run } = echoTool((args) => (args.a ? undefined : "a is needed here"));
+
+    const schemaError = await tool.call({ b: "2" }, context).catch((error) => error);
+    const checkError = await tool.call({ b: 2 }, context).catch((error) => error);
+
+    expect(schemaError).toBeInstanceOf(McpError);
+    expect(schemaError.code).toBe(ErrorCode.InvalidParams);
+    expect(schemaError.message).toContain('Invalid arguments for echo: b must be an integer, got "2"');
+    expect(checkError.message).toContain("Invalid arguments for echo: a is needed here");
+    expect(run).not.toHaveBeenCalled();
+  });
+});
+
+describe("remote clients", () => {
+  const remote: ToolContext = { ...context, remote: true };
+
+  function fileTool(options: { localOnly?: boolean } = {}) {
+    const run = vi.fn(() => ({ success: true }));
+    const tool = defineTool({
+      name: "files",
+      description: "Read and write files",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          paths: { type: "array", items: { type: "string" } },
+          out: { type: "string" },
+        },
+      },
+      outputSchema: { type: "object", properties: {} },
+      localOnly: options.localOnly,
+      localArguments: ["out"],
+      repoPathArguments: ["path", "paths"],
+      run,
+      format: () => "done",
+    });
+    return { tool, run };
+  }
+
+  it("advertises an input schema without the local arguments", () => {
+    const { tool } = fileTool();
+
+    expect(Object.keys(tool.inputSchema.properties)).toEqual(["path", "paths", "out"]);
+    expect(Object.keys(tool.remoteInputSchema.properties)).toEqual(["path", "paths"]);
+    expect(tool.remoteInputSchema.additionalProperties).toBe(false);
+  });
+
+  it.each([
+    [{ out: "/tmp/x" }, "out names a file on the server, which remote clients can't use"],
+    [{ path: "/etc/passwd" }, `path must be relative to the repos directory, without '..' (got "/etc/passwd")`],
+    [{ path: "workspace/app/../../../etc" }, "path must be relative to the repos directory"],
+    [{ paths: ["aztec-starter", "../.."] }, `paths must be relative to the repos directory, without '..' (got "../..")`],
+  ])("rejects %j", async (args, problem) => {
+    const { tool, run } = fileTool();
+
+    await expect(tool.call(args, remote)).rejects.toThrow(`Invalid arguments for files: ${problem}`);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("accepts paths inside the repos directory", async () => {
+    const { tool, run } = fileTool();
+
+    await tool.call({ path: "aztec-packages/docs/docs/a.md", paths: ["workspace/app/src"] }, remote);
+
+    expect(run).toHaveBeenCalled();
+  });
+
+  it("lets local clients pass any path", async () => {
+    const { tool, run } = fileTool({ localOnly: true });
+
+    await tool.call({ path: "/home/dev/app/src/main.nr", out: "/tmp/x" }, context);
+
+    expect(run).toHaveBeenCalled();
+  });
+
+  it("refuses local-only tools", async () => {
+    const { tool, run } = fileTool({ localOnly: true });
+
+    const error = await tool.call({}, remote).catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.message).toContain("files is only available to local (stdio) clients");
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/repos/config.js", () => ({
+  DEFAULT_AZTEC_VERSION: "v3.0.0-devnet.2",
+  getRepoConfig: () => ({ name: "aztec-packages", url: "https://github.com/AztecProtocol/aztec-packages" }),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  isVersionInstalled: vi.fn(() => false),
+  listInstalledVersions: vi.fn(() => []),
+  listRemoteTags: vi.fn(),
+}));
+
+import { isVersionInstalled, listInstalledVersions, listRemoteTags } from "../../src/utils/git.js";
+import {
+  listVersions,
+  unknownVersionError,
+  versionChannel,
+  versionError,
+} from "../../src/tools/versions.js";
+
+const mockIsVersionInstalled = vi.mocked(isVersionInstalled);
+const mockListInstalledVersions = vi.mocked(listInstalledVersions);
+const mockListRemoteTags = vi.mocked(listRemoteTags);
+
+const TAGS = [
+  "v2.0.0",
+  "v2.0.1",
+  "v10.0.0",
+  "v2.1.0-testnet.1",
+  "v3.0.0-devnet.1",
+  "v3.0.0-devnet.2",
+  "v3.0.0-devnet.2-patch.1",
+  "v3.0.0-nightly.20250101",
+  "barretenberg-v1.0.0",
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockIsVersionInstalled.mockReturnValue(false);
+  mockListInstalledVersions.mockReturnValue([]);
+  mockListRemoteTags.mockResolvedValue({ tags: TAGS, fetchedAt: 0 });
+});
+
+describe("versionChannel", () => {
+  it("classifies release tags", () => {
+    expect(versionChannel("v2.0.0")).toBe("stable");
+    expect(versionChannel("v2.1.0-testnet.1")).toBe("testnet");
+    expect(versionChannel("v3.0.0-devnet.6-patch.1")).toBe("devnet");
+  });
+
+  it("ignores nightlies and package tags", () => {
+    expect(versionChannel("v3.0.0-nightly.20250101")).toBeNull();
+    expect(versionChannel("barretenberg-v1.0.0")).toBeNull();
+  });
+});
+
+describe("listVersions", () => {
+  it("groups tags by channel, newest first", async () => {
+    const result = await listVersions();
+
+    expect(result.success).toBe(true);
+    expect(result.channels.map((c) => c.channel)).toEqual(["stable", "testnet", "devnet"]);
+    expect(result.channels[0].versions.map((v) => v.tag)).toEqual(["v10.0.0", "v2.0.1", "v2.0.0"]);
+    expect(result.channels[2].versions.map((v) => v.tag)).toEqual([
+      "v3.0.0-devnet.2-patch.1",
+      "v3.0.0-devnet.2",
+      "v3.0.0-devnet.1",
+    ]);
+    expect(result.message).toBe("Found 7 release tags");
+  });
+
+  it("marks the default and installed versions", async () => {
+    mockListInstalledVersions.mockReturnValue(["v2.0.0"]);
+
+    const result = await listVersions();
+
+    const all = result.channels.flatMap((c) => c.versions);
+    expect(all.find((v) => v.tag === "v3.0.0-devnet.2")).toMatchObject({ isDefault: true, installed: false });
+    expect(all.find((v) => v.tag === "v2.0.0")).toMatchObject({ isDefault: false, installed: true });
+  });
+
+  it("keeps installed versions past the per-channel limit", async () => {
+    mockListInstalledVersions.mockReturnValue(["v2.0.0"]);
+
+    const result = await listVersions({ channel: "stable", maxPerChannel: 1 });
+
+    expect(result.channels).toHaveLength(1);
+    expect(result.channels[0].total).toBe(3);
+    expect(result.channels[0].versions.map((v) => v.tag)).toEqual(["v10.0.0", "v2.0.0"]);
+  });
+
+  it("passes refresh through", async () => {
+    await listVersions({ refresh: true });
+    expect(mockListRemoteTags).toHaveBeenCalledWith(expect.any(String), { refresh: true });
+  });
+
+  it("returns failure when tags can't be listed", async () => {
+    mockListRemoteTags.mockRejectedValue(new Error("network down"));
+
+    const result = await listVersions();
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("network down");
+  });
+});
+
+describe("versionError", () => {
+  it("returns null for installed versions", () => {
+    mockIsVersionInstalled.mockReturnValue(true);
+    expect(versionError("v2.0.0")).toBeNull();
+  });
+
+  it("lists installed versions otherwise", () => {
+    mockListInstalledVersions.mockReturnValue(["v2.0.0"]);
+    expect(versionError("v9.9.9")).toContain("Installed versions: v2.0.0");
+  });
+});
+
+describe("unknownVersionError", () => {
+  it("returns null for an existing tag", async () => {
+    expect(await unknownVersionError("v2.0.1")).toBeNull();
+    expect(mockListRemoteTags).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes the cache before rejecting a tag", async () => {
+    mockListRemoteTags
+      .mockResolvedValueOnce({ tags: TAGS, fetchedAt: 0 })
+      .mockResolvedValueOnce({ tags: [...TAGS, "v10.0.1"], fetchedAt: 1 });
+
+    expect(await unknownVersionError("v10.0.1")).toBeNull();
+    expect(mockListRemoteTags).toHaveBeenLastCalledWith(expect.any(String), { refresh: true });
+  });
+
+  it("suggests releases of the same version", async () => {
+    const error = await unknownVersionError("v3.0.0-devnet.3");
+
+    expect(error).toContain("Unknown Aztec version 'v3.0.0-devnet.3'");
+    expect(error).toContain("Did you mean: v3.0.0-devnet.2-patch.1, v3.0.0-devnet.2, v3.0.0-devnet.1?");
+    expect(error).toContain("aztec_list_versions");
+  });
+
+  it("returns null when the remote can't be reached", async () => {
+    mockListRemoteTags.mockRejectedValue(new Error("network down"));
+    expect(await unknownVersionError("v3.0.0-devnet.3")).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/workspace.js", () => ({
+  addWorkspace: vi.fn(),
+  listWorkspaces: vi.fn(() => []),
+  removeWorkspace: vi.fn(),
+}));
+
+import { addWorkspace, listWorkspaces, removeWorkspace } from "../../src/utils/workspace.js";
+import { manageWorkspaces } from "../../src/tools/workspace.js";
+
+const mockAddWorkspace = vi.mocked(addWorkspace);
+const mockListWorkspaces = vi.mocked(listWorkspaces);
+const mockRemoveWorkspace = vi.mocked(removeWorkspace);
+
+const APP = { name: "app", path: "/home/me/app", source: "tool" as const };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockListWorkspaces.mockReturnValue([]);
+});
+
+describe("manageWorkspaces", () => {
+  it("lists the registered workspaces", () => {
+    mockListWorkspaces.mockReturnValue([APP]);
+
+    const result = manageWorkspaces({});
+
+    expect(result).toEqual({ success: true, workspaces: [APP], message: "1 workspace registered" });
+  });
+
+  it("adds and removes workspaces", () => {
+    mockRemoveWorkspace.mockReturnValue(true);
+    mockListWorkspaces.mockReturnValue([APP]);
+
+    const result = manageWorkspaces({ add: ["/home/me/app"], remove: ["old"] });
+
+    expect(mockAddWorkspace).toHaveBeenCalledWith("/home/me/app", "tool");
+    expect(mockRemoveWorkspace).toHaveBeenCalledWith("old");
+    expect(result.message).toBe("Added 1. Removed 1. 1 workspace registered");
+  });
+
+  it("reports paths it couldn't add or remove", () => {
+    mockAddWorkspace.mockImplementation(() => {
+      throw new Error("Not a directory: /nope");
+    });
+    mockRemoveWorkspace.mockReturnValue(false);
+
+    const result = manageWorkspaces({ add: ["/nope"], remove: ["gone"] });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("No workspaces registered. No workspace 'gone'; Not a directory: /nope");
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+
+// REPOS_DIR is read at import time, so point it at a scratch directory first
+const DATA_DIR = vi.hoisted(() => {
+  const dir = `${process.env.TMPDIR || "/tmp"}/aztec-mcp-bundle-test-${process.pid}`;
+  process.env.AZTEC_MCP_REPOS_DIR = dir;
+  return dir;
+});
+
+vi.mock("../../src/utils/git.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/utils/git.js")>()),
+  makeSelfContained: vi.fn(async () => {}),
+}));
+
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { makeSelfContained } from "../../src/utils/git.js";
+import { createBundle, extractBundle } from "../../src/utils/bundle.js";
+
+const COMMIT = "0123456789abcdef0123456789abcdef01234567";
+const BUNDLE = join(DATA_DIR, "out", "bundle.tar.gz");
+
+function fakeClone(version: string, repo: string) {
+  const gitDir = join(DATA_DIR, "repos", version, repo, ".git");
+  mkdirSync(gitDir, { recursive: true });
+  writeFileSync(join(gitDir, "HEAD"), `${COMMIT}\n`);
+  writeFileSync(join(DATA_DIR, "repos", version, repo, "README.md"), `${repo} ${version}`);
+}
+
+function fakeManifest(version: string) {
+  writeFileSync(
+    join(DATA_DIR, "repos", version, "manifest.json"),
+    JSON.stringify({ version, syncedAt: "2026-01-01T00:00:00.000Z", repos: [] })
+  );
+}
+
+function fakeIndex(repo: string) {
+  mkdirSync(join(DATA_DIR, "index", repo), { recursive: true });
+  writeFileSync(join(DATA_DIR, "index", repo, `${COMMIT}.json`), `{"repo":"${repo}"}`);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  rmSync(DATA_DIR, { recursive: true, force: true });
+  mkdirSync(DATA_DIR, { recursive: true });
+});
+
+afterAll(() => {
+  rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+describe("createBundle", () => {
+  it("packs the checkouts, manifest, and indexes of a version", async () => {
+    fakeClone("v1.0.0", "noir");
+    fakeClone("v1.0.0", "aztec-packages");
+    fakeManifest("v1.0.0");
+    fakeIndex("noir");
+
+    const info = await createBundle("v1.0.0", BUNDLE);
+
+    expect(info.version).toBe("v1.0.0");
+    expect(info.repos.sort()).toEqual(["aztec-packages", "noir"]);
+    expect(info.indexes).toEqual([`index/noir/${COMMIT}.json`]);
+    expect(info.bytes).toBeGreaterThan(0);
+    expect(existsSync(BUNDLE)).toBe(true);
+    expect(makeSelfContained).toHaveBeenCalledWith("noir", "v1.0.0");
+  });
+
+  it("rejects a version that isn't installed", async () => {
+    await expect(createBundle("v9.9.9", BUNDLE)).rejects.toThrow("not installed");
+  });
+
+  it("requires a sync manifest", async () => {
+    fakeClone("v1.0.0", "noir");
+    await expect(createBundle("v1.0.0", BUNDLE)).rejects.toThrow("No sync manifest");
+  });
+});
+
+describe("extractBundle", () => {
+  async function bundleAndClear() {
+    fakeClone("v1.0.0", "noir");
+    fakeManifest("v1.0.0");
+    fakeIndex("noir");
+    await createBundle("v1.0.0", BUNDLE);
+    rmSync(join(DATA_DIR, "repos"), { recursive: true, force: true });
+    rmSync(join(DATA_DIR, "index"), { recursive: true, force: true });
+  }
+
+  it("installs the version and its indexes", async () => {
+    await bundleAndClear();
+
+    const info = await extractBundle(BUNDLE);
+
+    expect(info.version).toBe("v1.0.0");
+    expect(readFileSync(join(DATA_DIR, "repos", "v1.0.0", "noir", "README.md"), "utf-8")).toBe("noir v1.0.0");
+    expect(existsSync(join(DATA_DIR, "repos", "v1.0.0", "manifest.json"))).toBe(true);
+    expect(existsSync(join(DATA_DIR, "index", "noir", `${COMMIT}.json`))).toBe(true);
+  });
+
+  it("refuses to replace an installed version without force", async () => {
+    await bundleAndClear();
+    fakeClone("v1.0.0", "aztec-packages");
+
+    await expect(extractBundle(BUNDLE)).rejects.toThrow("already installed");
+    expect(existsSync(join(DATA_DIR, "repos", "v1.0.0", "aztec-packages"))).toBe(true);
+  });
+
+  it("replaces an installed version with force", async () => {
+    await bundleAndClear();
+    fakeClone("v1.0.0", "aztec-packages");
+
+    await extractBundle(BUNDLE, { force: true });
+
+    expect(existsSync(join(DATA_DIR, "repos", "v1.0.0", "aztec-packages"))).toBe(false);
+    expect(existsSync(join(DATA_DIR, "repos", "v1.0.0", "noir"))).toBe(true);
+  });
+
+  it("cleans up its staging directory", async () => {
+    await bundleAndClear();
+    await extractBundle(BUNDLE);
+
+    expect(readdirSync(DATA_DIR).filter((name) => name.startsWith(".import-"))).toEqual([]);
+  });
+
+  it("rejects files that aren't bundles", async () => {
+    mkdirSync(join(DATA_DIR, "out"), { recursive: true });
+    writeFileSync(BUNDLE, "not a tarball");
+
+    await expect(extractBundle(BUNDLE)).rejects.toThrow();
+  });
+
+  describe("bundle contents", () => {
+    const INFO = { format: 1, version: "v1.0.0", createdAt: "2026-01-01T00:00:00.000Z", repos: ["noir"], indexes: [] };
+    const MANIFEST = {
+      version: "v1.0.0",
+      syncedAt: "2026-01-01T00:00:00.000Z",
+      repos: [
+        { name: "noir", url: "u", ref: "master", refType: "branch", commit: COMMIT, syncedAt: "2026-01-01T00:00:00.000Z" },
+      ],
+    };
+
+    /** Pack a bundle by hand from bundle.json, the version's manifest, and its checkouts */
+    function packBundle(info: object, manifest: object, repos = ["noir"]) {
+      const staging = join(DATA_DIR, "staging");
+      mkdirSync(join(staging, "repos", "v1.0.0"), { recursive: true });
+      writeFileSync(join(staging, "bundle.json"), JSON.stringify(info));
+      writeFileSync(join(staging, "repos", "v1.0.0", "manifest.json"), JSON.stringify(manifest));
+      for (const repo of repos) {
+        mkdirSync(join(staging, "repos", "v1.0.0", repo, ".git"), { recursive: true });
+      }
+      mkdirSync(join(DATA_DIR, "out"), { recursive: true });
+      execFileSync("tar", ["-czf", BUNDLE, "-C", staging, "bundle.json", "repos"]);
+      rmSync(staging, { recursive: true, force: true });
+    }
+
+    it("accepts a bundle whose manifest matches", async () => {
+      packBundle(INFO, MANIFEST);
+
+      expect(await extractBundle(BUNDLE)).toEqual(INFO);
+    });
+
+    it.each([
+      ["invalid repo list", { ...INFO, repos: ["../noir"] }, MANIFEST],
+      ["no creation time", { ...INFO, createdAt: 5 }, MANIFEST],
+      ["no full commit hash", INFO, { ...MANIFEST, repos: [{ ...MANIFEST.repos[0], commit: "abc" }] }],
+      ["invalid refType", INFO, { ...MANIFEST, repos: [{ ...MANIFEST.repos[0], refType: 5 }] }],
+      ["Bundle manifest is for v2.0.0, not v1.0.0", INFO, { ...MANIFEST, version: "v2.0.0" }],
+      ["Bundle has no checkouts for aztec-packages", { ...INFO, repos: ["noir", "aztec-packages"] }, MANIFEST],
+    ])("rejects a bundle: %s", async (error, info, manifest) => {
+      packBundle(info, manifest);
+
+      await expect(extractBundle(BUNDLE)).rejects.toThrow(error);
+      expect(existsSync(join(DATA_DIR, "repos", "v1.0.0"))).toBe(false);
+    });
+  });
+
+  it("reports a missing file", async () => {
+    await expect(extractBundle(join(DATA_DIR, "missing.tar.gz"))).rejects.toThrow("Bundle not found");
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("fs", () => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+}));
+
+vi.mock("globby", () => ({
+  globbySync: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  getVersionDir: () => "/fake/repos",
+  getRepoPath: vi.fn((name: string) => `/fake/repos/${name}`),
+  listClonedRepos: vi.fn(),
+  readHeadCommit: vi.fn(() => "abc123"),
+}));
+
+import { existsSync, readFileSync } from "fs";
+import { globbySync } from "globby";
+import { listClonedRepos, readHeadCommit } from "../../src/utils/git.js";
+import {
+  parseUseStatements,
+  getCrates,
+  resolveDefinition,
+  findReferences,
+} from "../../src/utils/crates.js";
+
+const AZTEC = "aztec-packages/noir-projects/aztec-nr/aztec";
+
+const FILES: Record<string, string> = {
+  [`${AZTEC}/Nargo.toml`]: `[package]
+name = "aztec"
+type = "lib"
+
+[dependencies]
+protocol_types = { path = "../../noir-protocol-circuits/crates/types" }
+`,
+  [`${AZTEC}/src/lib.nr`]: "pub mod context;\npub mod note;\npub mod prelude;\n",
+  [`${AZTEC}/src/context.nr`]: "pub mod private_context;\npub use private_context::PrivateContext;\n",
+  [`${AZTEC}/src/context/private_context.nr`]: `pub struct PrivateContext {}
+
+impl PrivateContext {
+    pub fn push_nullifier(&mut self, nullifier: Field) {}
+}
+`,
+  [`${AZTEC}/src/note.nr`]: "pub mod note_getter;\n",
+  [`${AZTEC}/src/note/note_getter.nr`]: `use crate::context::PrivateContext;
+
+/// Get notes from the PXE
+pub fn get_notes<Note>(context: &mut PrivateContext) {}
+`,
+  [`${AZTEC}/src/prelude.nr`]: `pub use crate::{
+    context::PrivateContext,
+    note::note_getter::get_notes,
+};
+`,
+  "noir/noir_stdlib/Nargo.toml": '[package]\nname = "std"\ntype = "lib"\n',
+  "noir/noir_stdlib/src/lib.nr": "pub mod hash;\n",
+  "noir/noir_stdlib/src/hash/mod.nr": "pub mod poseidon2;\n",
+  "noir/noir_stdlib/src/hash/poseidon2.nr": "pub struct Poseidon2 {}\n",
+  "aztec-examples/token/Nargo.toml": `[package]
+name = "token"
+type = "contract"
+
+[dependencies]
+aztec = { git = "https://github.com/AztecProtocol/aztec-packages/", tag = "v1", directory = "noir-projects/aztec-nr/aztec" }
+`,
+  "aztec-examples/token/src/main.nr": `use dep::aztec::macros::aztec;
+
+#[aztec]
+pub contract Token {
+    use aztec::prelude::get_notes;
+    use aztec::note::note_getter::get_notes as fetch;
+    use std::hash::poseidon2::Poseidon2;
+
+    fn transfer(context: &mut PrivateContext) {
+        get_notes(context);
+        fetch(context);
+        context.push_nullifier(1);
+        // get_notes in a comment
+        let get_notes_count = 1;
+    }
+}
+`,
+  "aztec-examples/other/Nargo.toml": '[package]\nname = "other"\ntype = "contract"\n',
+  "aztec-examples/other/src/main.nr": `contract Other {
+    fn get_notes() {}
+    fn run() { get_notes(); }
+}
+`,
+};
+
+const abs = (p: string) => `/fake/repos/${p}`;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(readHeadCommit).mockReturnValue("abc123");
+  vi.mocked(listClonedRepos).mockReturnValue(["aztec-packages", "noir", "aztec-examples"]);
+  vi.mocked(existsSync).mockImplementation((p) =>
+    Object.keys(FILES).some((f) => abs(f) === String(p) || abs(f).startsWith(`${String(p)}/`))
+  );
+  vi.mocked(readFileSync).mockImplementation(((p: string) => {
+    const file = Object.keys(FILES).find((f) => abs(f) === p);
+    if (!file) throw new Error(`ENOENT: ${p}`);
+    return FILES[file];
+  }) as any);
+  vi.mocked(globbySync).mockImplementation(((pattern: string, options: any) => {
+    const suffix = pattern === "**/Nargo.toml" ? "Nargo.toml" : ".nr";
+    return Object.keys(FILES)
+      .map(abs)
+      .filter((f) => f.startsWith(`${options.cwd}/`) && f.endsWith(suffix))
+      .map((f) => (options.absolute ? f : f.slice(options.cwd.length + 1)));
+  }) as any);
+});
+
+describe("parseUseStatements", () => {
+  it("expands nested groups, aliases, self, and globs", () => {
+    const uses = parseUseStatements(`use dep::aztec::{
+    note::{note_getter::get_notes as fetch, self},
+    prelude::*, // everything
+};
+pub use std::hash;`);
+
+    expect(uses).toEqual([
+      { path: ["dep", "aztec", "note", "note_getter", "get_notes"], alias: "fetch", glob: false, line: 1 },
+      { path: ["dep", "aztec", "note"], alias: "note", glob: false, line: 1 },
+      { path: ["dep", "aztec", "prelude"], alias: "*", glob: true, line: 1 },
+      { path: ["std", "hash"], alias: "hash", glob: false, line: 5 },
+    ]);
+  });
+});
+
+describe("getCrates", () => {
+  it("reads package names, types, and path and git dependencies", () => {
+    const crates = getCrates();
+    const token = crates.find((c) => c.name === "token")!;
+    const aztec = crates.find((c) => c.name === "aztec")!;
+
+    expect(crates.map((c) => c.name).sort()).toEqual(["aztec", "other", "std", "token"]);
+    expect(aztec.entry).toBe(`${AZTEC}/src/lib.nr`);
+    expect(aztec.dependencies.protocol_types).toBe(
+      "aztec-packages/noir-projects/noir-protocol-circuits/crates/types"
+    );
+    expect(token.entry).toBe("aztec-examples/token/src/main.nr");
+    expect(token.dependencies.aztec).toBe(AZTEC);
+  });
+});
+
+describe("resolveDefinition", () => {
+  it("walks the mod tree for a full use path", () => {
+    const [symbol] = resolveDefinition("use dep::aztec::note::note_getter::get_notes;");
+    expect(symbol).toMatchObject({
+      name: "get_notes",
+      file: `${AZTEC}/src/note/note_getter.nr`,
+      line: 4,
+      doc: "Get notes from the PXE",
+    });
+  });
+
+  it("follows re-exports", () => {
+    expect(resolveDefinition("aztec::prelude::get_notes")[0].file).toBe(
+      `${AZTEC}/src/note/note_getter.nr`
+    );
+    expect(resolveDefinition("aztec::context::PrivateContext")[0]).toMatchObject({
+      kind: "struct",
+      file: `${AZTEC}/src/context/private_context.nr`,
+    });
+  });
+
+  it("resolves mod.nr modules in the Noir stdlib", () => {
+    expect(resolveDefinition("std::hash::poseidon2::Poseidon2")[0].file).toBe(
+      "noir/noir_stdlib/src/hash/poseidon2.nr"
+    );
+  });
+
+  it("resolves associated functions through the type", () => {
+    expect(resolveDefinition("aztec::prelude::PrivateContext::push_nullifier")[0]).toMatchObject({
+      name: "push_nullifier",
+      container: "PrivateContext",
+    });
+  });
+
+  it("resolves crate-relative paths from a file", () => {
+    const [symbol] = resolveDefinition("crate::context::PrivateContext", {
+      file: `${AZTEC}/src/note/note_getter.nr`,
+    });
+    expect(symbol.kind).toBe("struct");
+  });
+
+  it("prefers library definitions for bare identifiers", () => {
+    const symbols = resolveDefinition("get_notes");
+    expect(symbols.map((s) => s.file)).toEqual([`${AZTEC}/src/note/note_getter.nr`]);
+    expect(resolveDefinition("context.push_nullifier")[0].container).toBe("PrivateContext");
+  });
+
+  it("returns [] for unknown paths and names", () => {
+    expect(resolveDefinition("nothing_like_this")).toEqual([]);
+  });
+});
+
+describe("findReferences", () => {
+  it("lists imports, bound names, aliases, and method calls", () => {
+    const { definition, references } = findReferences("aztec::note::note_getter::get_notes", {
+      paths: ["aztec-examples"],
+    });
+
+    expect(definition?.name).toBe("get_notes");
+    expect(references.map((r) => `${r.file}:${r.line}`)).toEqual([
+      "aztec-examples/token/src/main.nr:5",
+      "aztec-examples/token/src/main.nr:6",
+      "aztec-examples/token/src/main.nr:10",
+      "aztec-examples/token/src/main.nr:11",
+    ]);
+  });
+
+  it("matches method calls for methods", () => {
+    const { references } = findReferences("context.push_nullifier", { paths: ["aztec-examples"] });
+    expect(references.map((r) => r.content)).toEqual(["context.push_nullifier(1);"]);
+  });
+
+  it("returns no definition when the query does not resolve", () => {
+    expect(findReferences("aztec::missing")).toEqual({ definition: null, references: [] });
+  });
+});
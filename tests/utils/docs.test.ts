@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("fs", () => ({
+  readFileSync: vi.fn(),
+}));
+
+vi.mock("globby", () => ({
+  globbySync: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  getVersionDir: () => "/fake/repos",
+  readHeadCommit: vi.fn(() => "abc123"),
+}));
+
+import { readFileSync } from "fs";
+import { globbySync } from "globby";
+import { DOCS_ROOT, DOCS_BASE_URL, toDocPage, resolveDocPage } from "../../src/utils/docs.js";
+
+const DOCS: Record<string, string> = {
+  "index.md": "# Welcome",
+  "developers/guides/01-writing_contracts.md": "---\ntitle: Writing contracts\n---\nbody",
+  "developers/guides/storage/storage.md": "# Storage",
+  "developers/reference/readme.mdx": "# Reference",
+  "developers/concepts/accounts.md": "---\nid: account_abstraction\nslug: /accounts\n---\n# Accounts",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(globbySync).mockReturnValue(Object.keys(DOCS) as any);
+  vi.mocked(readFileSync).mockImplementation(((p: string) =>
+    DOCS[p.replace(`/fake/repos/${DOCS_ROOT}/`, "")]) as any);
+});
+
+describe("toDocPage", () => {
+  it("strips number prefixes and uses the frontmatter title", () => {
+    const page = toDocPage(`${DOCS_ROOT}/developers/guides/01-writing_contracts.md`, "---\ntitle: Writing contracts\n---\n");
+    expect(page.id).toBe("developers/guides/writing_contracts");
+    expect(page.route).toBe("/developers/guides/writing_contracts");
+    expect(page.url).toBe(`${DOCS_BASE_URL}/developers/guides/writing_contracts`);
+    expect(page.title).toBe("Writing contracts");
+  });
+
+  it("serves index, readme, and same-name-as-folder pages at the folder URL", () => {
+    expect(toDocPage(`${DOCS_ROOT}/index.md`, "").route).toBe("/");
+    expect(toDocPage(`${DOCS_ROOT}/developers/reference/readme.mdx`, "").route).toBe("/developers/reference");
+    expect(toDocPage(`${DOCS_ROOT}/developers/guides/storage/storage.md`, "").route).toBe(
+      "/developers/guides/storage"
+    );
+  });
+
+  it("applies frontmatter id and absolute or relative slugs", () => {
+    const page = toDocPage(`${DOCS_ROOT}/developers/concepts/accounts.md`, DOCS["developers/concepts/accounts.md"]);
+    expect(page.id).toBe("developers/concepts/account_abstraction");
+    expect(page.route).toBe("/accounts");
+    expect(toDocPage(`${DOCS_ROOT}/a/b.md`, "---\nslug: c\n---\n").route).toBe("/a/c");
+  });
+});
+
+describe("resolveDocPage", () => {
+  it("resolves public URLs, ignoring trailing slashes and anchors", () => {
+    const page = resolveDocPage(`${DOCS_BASE_URL}/developers/guides/writing_contracts/#storage`);
+    expect(page?.file).toBe(`${DOCS_ROOT}/developers/guides/01-writing_contracts.md`);
+  });
+
+  it("resolves doc ids and slugs", () => {
+    expect(resolveDocPage("developers/concepts/account_abstraction")?.route).toBe("/accounts");
+    expect(resolveDocPage("/accounts")?.id).toBe("developers/concepts/account_abstraction");
+  });
+
+  it("tolerates version prefixes and partial ids", () => {
+    expect(resolveDocPage("https://docs.aztec.network/next/developers/guides/storage")?.title).toBe("Storage");
+    expect(resolveDocPage("guides/writing_contracts")?.title).toBe("Writing contracts");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(resolveDocPage("https://docs.aztec.network/nope/nothing")).toBeNull();
+  });
+});
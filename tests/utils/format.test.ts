@@ -2,10 +2,17 @@ import { describe, it, expect } from "vitest";
 import {
   formatSyncResult,
   formatStatus,
+  formatLockfile,
+  formatVersionsList,
+  formatVersionDiff,
+  formatMigrationGuide,
   formatSearchResults,
   formatExamplesList,
   formatExampleContent,
   formatFileContent,
+  formatSymbolResults,
+  formatReferenceResults,
+  formatDocContent,
 } from "../../src/utils/format.js";
 
 describe("formatSyncResult", () => {
@@ -30,6 +37,16 @@ describe("formatSyncResult", () => {
     expect(result).toContain("⚠ Sync completed with errors");
   });
 
+  it("shows short commits", () => {
+    const result = formatSyncResult({
+      success: true,
+      message: "ok",
+      version: "v1.0.0",
+      repos: [{ name: "noir", status: "Cloned noir", commit: "0123456789abcdef0123456789abcdef01234567" }],
+    });
+    expect(result).toContain("✓ noir (0123456): Cloned noir");
+  });
+
   it("shows per-repo icons based on error in status", () => {
     const result = formatSyncResult({
       success: false,
@@ -49,6 +66,8 @@ describe("formatStatus", () => {
   it("includes header text and repos dir", () => {
     const result = formatStatus({
       reposDir: "/path/to/repos",
+      version: "v1.0.0",
+      versions: [],
       repos: [],
     });
     expect(result).toContain("Aztec MCP Server Status");
@@ -58,6 +77,8 @@ describe("formatStatus", () => {
   it("shows icons for cloned/uncloned repos", () => {
     const result = formatStatus({
       reposDir: "/repos",
+      version: "v1.0.0",
+      versions: [],
       repos: [
         { name: "cloned-repo", description: "Desc1", cloned: true, commit: "abc1234" },
         { name: "uncloned-repo", description: "Desc2", cloned: false },
@@ -70,12 +91,141 @@ describe("formatStatus", () => {
   it('shows "No repositories cloned" message when none cloned', () => {
     const result = formatStatus({
       reposDir: "/repos",
+      version: "v1.0.0",
+      versions: [],
       repos: [
         { name: "repo1", description: "Desc", cloned: false },
       ],
     });
     expect(result).toContain("No repositories cloned");
   });
+
+  it("lists installed versions and marks the default", () => {
+    const result = formatStatus({
+      reposDir: "/repos",
+      version: "v2.0.0",
+      versions: [
+        { version: "v1.0.0", isDefault: true, repos: ["aztec-packages", "noir"] },
+        { version: "v2.0.0", isDefault: false, repos: ["aztec-packages"] },
+      ],
+      repos: [],
+    });
+    expect(result).toContain("  - v1.0.0 (default): aztec-packages, noir");
+    expect(result).toContain("  - v2.0.0: aztec-packages");
+    expect(result).toContain("Repositories (v2.0.0):");
+  });
+
+  it("shows the last sync, Noir commit, and synced refs", () => {
+    const result = formatStatus({
+      reposDir: "/repos",
+      version: "v1.0.0",
+      syncedAt: "2026-01-01T00:00:00.000Z",
+      noirCommit: "abcdef0",
+      versions: [],
+      repos: [{ name: "aztec-packages", description: "Desc", cloned: true, commit: "abc1234", ref: "v1.0.0" }],
+    });
+    expect(result).toContain("Last synced: 2026-01-01T00:00:00.000Z");
+    expect(result).toContain("Noir commit from aztec-packages: abcdef0");
+    expect(result).toContain("✓ aztec-packages @ v1.0.0 (abc1234)");
+  });
+});
+
+describe("formatLockfile", () => {
+  it("wraps the lockfile in a json block", () => {
+    const result = formatLockfile({ success: true, lockfile: '{"version":"v1"}', message: "Lockfile for v1" });
+    expect(result).toBe('Lockfile for v1\n\n```json\n{"version":"v1"}\n```');
+  });
+
+  it("returns the message on failure", () => {
+    expect(formatLockfile({ success: false, message: "No sync manifest" })).toBe("No sync manifest");
+  });
+});
+
+describe("formatVersionsList", () => {
+  it("returns the message on failure", () => {
+    const result = formatVersionsList({
+      success: false,
+      defaultVersion: "v1.0.0",
+      channels: [],
+      message: "Failed to list versions: offline",
+    });
+    expect(result).toBe("Failed to list versions: offline");
+  });
+
+  it("lists tags per channel with default and installed marks", () => {
+    const result = formatVersionsList({
+      success: true,
+      defaultVersion: "v2.0.0-devnet.1",
+      channels: [
+        {
+          channel: "stable",
+          total: 3,
+          versions: [
+            { tag: "v1.1.0", isDefault: false, installed: false },
+            { tag: "v1.0.0", isDefault: false, installed: true },
+          ],
+        },
+        { channel: "testnet", total: 0, versions: [] },
+        { channel: "devnet", total: 1, versions: [{ tag: "v2.0.0-devnet.1", isDefault: true, installed: true }] },
+      ],
+      message: "Found 4 release tags",
+    });
+    expect(result).toContain("stable (3):");
+    expect(result).toContain("  - v1.0.0 (installed)");
+    expect(result).toContain("  ... 1 older");
+    expect(result).toContain("testnet (0):\n  (none)");
+    expect(result).toContain("  - v2.0.0-devnet.1 (default, installed)");
+  });
+});
+
+describe("formatVersionDiff", () => {
+  it("wraps a unified diff and notes truncation", () => {
+    const result = formatVersionDiff({
+      success: true,
+      diff: "-old\n+new",
+      truncated: true,
+      message: "Diff of a.nr from v1 to v2",
+    });
+    expect(result).toContain("```diff\n-old\n+new\n```");
+    expect(result).toContain("Diff truncated");
+  });
+
+  it("groups signature changes", () => {
+    const result = formatVersionDiff({
+      success: true,
+      changes: [
+        {
+          name: "insert",
+          kind: "fn",
+          container: "PrivateSet",
+          change: "changed",
+          before: { signature: "fn insert(a)", file: "f.nr", line: 3 },
+          after: { signature: "fn insert(a, b)", file: "f.nr", line: 4 },
+        },
+        { name: "pop", kind: "fn", change: "removed", before: { signature: "fn pop()", file: "f.nr", line: 9 } },
+      ],
+      message: "2 signature changes",
+    });
+    expect(result).toContain("Removed:\n\n**pop** (fn) - f.nr:9");
+    expect(result).toContain("Changed:\n\n**PrivateSet::insert** (fn) - f.nr:4\n```diff\n- fn insert(a)\n+ fn insert(a, b)\n```");
+  });
+});
+
+describe("formatMigrationGuide", () => {
+  it("groups entries under version headings", () => {
+    const result = formatMigrationGuide({
+      success: true,
+      entries: [
+        { version: "2.0.0", title: "Renamed insert", content: "```diff\n- a\n+ b\n```", file: "notes.md", line: 10 },
+        { version: "2.0.0", title: "", content: "Other", file: "notes.md", line: 20 },
+        { version: "3.0.0", title: "New API", content: "Use it", file: "notes.md", line: 5 },
+      ],
+      message: "Found 3 migration entries",
+    });
+    expect(result).toContain("## 2.0.0\n\n### Renamed insert\n_notes.md:10_\n\n```diff");
+    expect(result.match(/## 2\.0\.0/g)).toHaveLength(1);
+    expect(result).toContain("## 3.0.0\n\n### New API");
+  });
 });
 
 describe("formatSearchResults", () => {
@@ -99,7 +249,19 @@ describe("formatSearchResults", () => {
     expect(result).not.toContain("```");
   });
 
-  it("formats file:line in bold with code fences", () => {
+  it("ends with the cursor for the next page", () => {
+    const result = formatSearchResults({
+      success: true,
+      results: [{ file: "repo/a.nr", line: 1, content: "x", repo: "repo" }],
+      message: "Showing matches 1-1 of 2",
+      nextCursor: "abc",
+    });
+    expect(result.trimEnd().split("\n").pop()).toBe(
+      'More results available. Pass cursor: "abc" to get the next page.'
+    );
+  });
+
+  it("formats file in bold with numbered lines in code fences", () => {
     const result = formatSearchResults({
       success: true,
       results: [
@@ -107,9 +269,171 @@ describe("formatSearchResults", () => {
       ],
       message: "Found 1 match",
     });
-    expect(result).toContain("**repo/src/main.nr:10**");
+    expect(result).toContain("**repo/src/main.nr**");
     expect(result).toContain("```");
-    expect(result).toContain("fn main() {");
+    expect(result).toContain("10: fn main() {");
+  });
+
+  it("groups matches by file and merges overlapping context", () => {
+    const result = formatSearchResults({
+      success: true,
+      results: [
+        {
+          file: "repo/a.nr",
+          line: 3,
+          content: "emit(a);",
+          repo: "repo",
+          contextBefore: ["fn one() {"],
+          contextAfter: ["emit(b);"],
+        },
+        { file: "repo/b.nr", line: 1, content: "other", repo: "repo" },
+        {
+          file: "repo/a.nr",
+          line: 4,
+          content: "emit(b);",
+          repo: "repo",
+          contextBefore: ["emit(a);"],
+          contextAfter: ["}"],
+        },
+        { file: "repo/a.nr", line: 20, content: "emit(c);", repo: "repo" },
+      ],
+      message: "Found 4 matches",
+    });
+
+    expect(result).toContain("**repo/a.nr** (3 matches)");
+    expect(result.indexOf("repo/a.nr")).toBeLessThan(result.indexOf("repo/b.nr"));
+    expect(result).toContain("2- fn one() {\n3: emit(a);\n4: emit(b);\n5- }\n```");
+    expect(result).toContain("```\n20: emit(c);\n```");
+  });
+
+  it("shows the relevance score for ranked results", () => {
+    const result = formatSearchResults({
+      success: true,
+      results: [
+        { file: "repo/src/main.nr", line: 10, content: "fn main() {", repo: "repo", score: 3.5 },
+      ],
+      message: "Found 1 match",
+    });
+    expect(result).toContain("**repo/src/main.nr** (score: 3.5)");
+  });
+});
+
+describe("formatSearchResults docs sections", () => {
+  it("shows the breadcrumb above each block", () => {
+    const result = formatSearchResults({
+      success: true,
+      results: [
+        {
+          file: "docs/a.md",
+          line: 5,
+          content: "notes",
+          repo: "r",
+          breadcrumb: ["Storage", "Notes"],
+          url: "https://docs.aztec.network/a",
+        },
+      ],
+      message: "Found 1",
+    });
+    expect(result).toContain("**docs/a.md**\nhttps://docs.aztec.network/a\n_Storage > Notes_\n```\n5: notes");
+  });
+
+  it("prints full section bodies when present", () => {
+    const result = formatSearchResults({
+      success: true,
+      results: [
+        {
+          file: "docs/a.md",
+          line: 5,
+          content: "notes",
+          repo: "r",
+          breadcrumb: ["Storage", "Notes"],
+          sectionContent: "## Notes\nnotes",
+        },
+      ],
+      message: "Found 1",
+    });
+    expect(result).toContain("_Storage > Notes_\n```markdown\n## Notes\nnotes\n```");
+  });
+});
+
+describe("formatDocContent", () => {
+  it("shows title, URL, and path above the page", () => {
+    const result = formatDocContent({
+      success: true,
+      page: {
+        file: "aztec-packages/docs/docs/storage.md",
+        id: "storage",
+        route: "/storage",
+        url: "https://docs.aztec.network/storage",
+        title: "Storage",
+      },
+      content: "# Storage",
+      message: "Read",
+    });
+    expect(result).toContain("**Storage**");
+    expect(result).toContain("URL: https://docs.aztec.network/storage");
+    expect(result).toContain("Path: aztec-packages/docs/docs/storage.md");
+    expect(result).toContain("# Storage");
+  });
+
+  it("returns the message on failure", () => {
+    expect(formatDocContent({ success: false, message: "No docs page found" })).toBe("No docs page found");
+  });
+});
+
+describe("formatSymbolResults", () => {
+  it("shows kind, container, location, doc, and signature", () => {
+    const result = formatSymbolResults({
+      success: true,
+      symbols: [
+        {
+          name: "insert",
+          kind: "fn",
+          signature: "pub fn insert(self, note: Note)",
+          doc: "Insert a note",
+          container: "PrivateSet",
+          file: "aztec-packages/set.nr",
+          line: 12,
+          repo: "aztec-packages",
+        },
+      ],
+      message: "Found 1 definitions",
+    });
+    expect(result).toContain("**insert** (fn in PrivateSet) - aztec-packages/set.nr:12");
+    expect(result).toContain("> Insert a note");
+    expect(result).toContain("```noir\npub fn insert(self, note: Note)\n```");
+  });
+
+  it("returns just the message when nothing matched", () => {
+    const result = formatSymbolResults({ success: true, symbols: [], message: "No definitions" });
+    expect(result).toContain("No definitions");
+    expect(result).not.toContain("```");
+  });
+});
+
+describe("formatReferenceResults", () => {
+  it("shows the definition above the grouped references", () => {
+    const result = formatReferenceResults({
+      success: true,
+      definition: {
+        name: "get_notes",
+        kind: "fn",
+        signature: "pub fn get_notes()",
+        file: "aztec-packages/note_getter.nr",
+        line: 4,
+        repo: "aztec-packages",
+      },
+      results: [{ file: "ex/main.nr", line: 9, content: "get_notes(context);", repo: "ex" }],
+      message: "Found 1 references to get_notes",
+    });
+    expect(result).toContain("Definition: **get_notes** (fn) - aztec-packages/note_getter.nr:4");
+    expect(result).toContain("**ex/main.nr**");
+    expect(result).toContain("9: get_notes(context);");
+  });
+
+  it("returns just the message when the definition is unresolved", () => {
+    const result = formatReferenceResults({ success: false, results: [], message: "Could not resolve" });
+    expect(result).toBe("Could not resolve");
   });
 });
 
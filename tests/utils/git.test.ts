@@ -9,6 +9,7 @@ const mockGitInstance = {
   log: vi.fn(),
   raw: vi.fn(),
   checkout: vi.fn(),
+  listRemote: vi.fn(),
 };
 
 vi.mock("simple-git", () => ({
@@ -18,7 +19,11 @@ vi.mock("simple-git", () => ({
 vi.mock("fs", () => ({
   existsSync: vi.fn(),
   mkdirSync: vi.fn(),
+  readFileSync: vi.fn(),
+  readdirSync: vi.fn(),
+  renameSync: vi.fn(),
   rmSync: vi.fn(),
+  writeFileSync: vi.fn(),
 }));
 
 vi.mock("os", () => ({
@@ -29,12 +34,19 @@ vi.mock("os", () => ({
 process.env.AZTEC_MCP_REPOS_DIR = "/tmp/test-repos";
 
 import { simpleGit } from "simple-git";
-import { existsSync, mkdirSync, rmSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from "fs";
 import {
   REPOS_DIR,
   ensureReposDir,
+  getVersionDir,
+  withVersion,
+  isValidVersion,
+  listInstalledVersions,
+  migrateLegacyLayout,
   getRepoPath,
   isRepoCloned,
+  listClonedRepos,
+  readHeadCommit,
   cloneRepo,
   updateRepo,
   getRepoCommit,
@@ -42,12 +54,25 @@ import {
   needsReclone,
   getReposStatus,
   getNoirCommitFromAztec,
+  listRemoteTags,
+  fetchTags,
+  listChangedFiles,
+  readFileAtRef,
+  withReposLock,
+  logHistory,
+  deepenClone,
 } from "../../src/utils/git.js";
-import type { RepoConfig } from "../../src/repos/config.js";
+import { DEFAULT_AZTEC_VERSION, type RepoConfig } from "../../src/repos/config.js";
+
+const VERSION_DIR = `${REPOS_DIR}/${DEFAULT_AZTEC_VERSION}`;
 
 const mockExistsSync = vi.mocked(existsSync);
 const mockMkdirSync = vi.mocked(mkdirSync);
 const mockRmSync = vi.mocked(rmSync);
+const mockReadFileSync = vi.mocked(readFileSync);
+const mockReaddirSync = vi.mocked(readdirSync);
+const mockRenameSync = vi.mocked(renameSync);
+const mockWriteFileSync = vi.mocked(writeFileSync);
 const mockSimpleGit = vi.mocked(simpleGit);
 
 beforeEach(() => {
@@ -64,14 +89,52 @@ describe("REPOS_DIR", () => {
 
 describe("ensureReposDir", () => {
   it("calls mkdirSync with recursive", () => {
-    ensureReposDir();
-    expect(mockMkdirSync).toHaveBeenCalledWith(REPOS_DIR, { recursive: true });
+    ensureReposDir("v2.0.0");
+    expect(mockMkdirSync).toHaveBeenCalledWith(`${REPOS_DIR}/v2.0.0`, { recursive: true });
   });
 });
 
 describe("getRepoPath", () => {
-  it("returns REPOS_DIR/name", () => {
-    expect(getRepoPath("aztec-packages")).toBe(`${REPOS_DIR}/aztec-packages`);
+  it("returns REPOS_DIR/<default version>/name", () => {
+    expect(getRepoPath("aztec-packages")).toBe(`${VERSION_DIR}/aztec-packages`);
+  });
+
+  it("uses the given version", () => {
+    expect(getRepoPath("noir", "v2.0.0")).toBe(`${REPOS_DIR}/v2.0.0/noir`);
+  });
+});
+
+describe("withVersion", () => {
+  it("resolves lookups against the version while fn runs", () => {
+    expect(withVersion("v2.0.0", () => getVersionDir())).toBe(`${REPOS_DIR}/v2.0.0`);
+    expect(getVersionDir()).toBe(VERSION_DIR);
+  });
+
+  it("restores the previous version when fn throws", () => {
+    expect(() =>
+      withVersion("v2.0.0", () => {
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+    expect(getVersionDir()).toBe(VERSION_DIR);
+  });
+});
+
+describe("isValidVersion", () => {
+  it("accepts release tags and rejects path segments", () => {
+    expect(isValidVersion("v3.0.0-devnet.6-patch.1")).toBe(true);
+    expect(isValidVersion("../etc")).toBe(false);
+    expect(isValidVersion("a/b")).toBe(false);
+  });
+});
+
+describe("listInstalledVersions", () => {
+  it("lists version directories with a cloned repo in numeric order", () => {
+    mockReaddirSync.mockImplementation(((dir: string) =>
+      dir === REPOS_DIR ? ["v10.0.0", "v9.0.0", "empty", ".cache"] : ["aztec-packages"]) as any);
+    mockExistsSync.mockImplementation((p) => !String(p).includes("/empty/"));
+
+    expect(listInstalledVersions()).toEqual(["v9.0.0", "v10.0.0"]);
   });
 });
 
@@ -80,7 +143,7 @@ describe("isRepoCloned", () => {
     mockExistsSync.mockReturnValue(true);
     expect(isRepoCloned("aztec-packages")).toBe(true);
     expect(mockExistsSync).toHaveBeenCalledWith(
-      `${REPOS_DIR}/aztec-packages/.git`
+      `${VERSION_DIR}/aztec-packages/.git`
     );
   });
 
@@ -90,6 +153,53 @@ describe("isRepoCloned", () => {
   });
 });
 
+describe("listClonedRepos", () => {
+  it("returns directories that contain a .git dir", () => {
+    mockReaddirSync.mockReturnValue(["aztec-packages", "stray"] as any);
+    mockExistsSync.mockImplementation((p) => String(p) === `${VERSION_DIR}/aztec-packages/.git`);
+    expect(listClonedRepos()).toEqual(["aztec-packages"]);
+  });
+
+  it("returns [] when REPOS_DIR is missing", () => {
+    mockReaddirSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    expect(listClonedRepos()).toEqual([]);
+  });
+});
+
+describe("readHeadCommit", () => {
+  const gitDir = `${VERSION_DIR}/noir/.git`;
+
+  it("returns a detached HEAD hash directly", () => {
+    mockReadFileSync.mockReturnValue("abc123\n" as any);
+    expect(readHeadCommit("noir")).toBe("abc123");
+  });
+
+  it("resolves loose branch refs", () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockImplementation(((p: string) =>
+      p === `${gitDir}/HEAD` ? "ref: refs/heads/master\n" : "def456\n") as any);
+    expect(readHeadCommit("noir")).toBe("def456");
+  });
+
+  it("falls back to packed-refs", () => {
+    mockExistsSync.mockReturnValue(false);
+    mockReadFileSync.mockImplementation(((p: string) =>
+      p === `${gitDir}/HEAD`
+        ? "ref: refs/heads/master\n"
+        : "# pack-refs\ncafe1234 refs/heads/master\n") as any);
+    expect(readHeadCommit("noir")).toBe("cafe1234");
+  });
+
+  it("returns null when HEAD is unreadable", () => {
+    mockReadFileSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    expect(readHeadCommit("noir")).toBeNull();
+  });
+});
+
 describe("cloneRepo", () => {
   const sparseConfig: RepoConfig = {
     name: "aztec-packages",
@@ -146,6 +256,19 @@ describe("cloneRepo", () => {
     expect(mockGitInstance.checkout).toHaveBeenCalledWith("v1.0.0");
   });
 
+  it("reports each phase as it starts", async () => {
+    mockExistsSync.mockReturnValue(false);
+    mockGitInstance.clone.mockResolvedValue(undefined);
+    mockGitInstance.raw.mockResolvedValue(undefined);
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+    mockGitInstance.checkout.mockResolvedValue(undefined);
+    const phases: string[] = [];
+
+    await cloneRepo(sparseConfig, false, undefined, (phase) => phases.push(phase));
+
+    expect(phases).toEqual(["cloning", "sparse-checkout", "fetching tag", "checking out"]);
+  });
+
   it("sparse + commit: clones with sparse flags, fetches commit", async () => {
     const commitConfig: RepoConfig = {
       ...sparseConfig,
@@ -226,55 +349,253 @@ describe("cloneRepo", () => {
     );
   });
 
+  it("borrows objects from the same repo in another installed version", async () => {
+    mockReaddirSync.mockImplementation(((dir: string) =>
+      dir === REPOS_DIR ? ["v0.9.0"] : ["aztec-examples"]) as any);
+    mockExistsSync.mockImplementation((p) => String(p).startsWith(`${REPOS_DIR}/v0.9.0/`));
+    mockGitInstance.clone.mockResolvedValue(undefined);
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+    mockGitInstance.checkout.mockResolvedValue(undefined);
+
+    await cloneRepo(nonSparseConfig, false, "v1.0.0");
+
+    expect(mockGitInstance.clone).toHaveBeenCalledWith(nonSparseConfig.url, `${REPOS_DIR}/v1.0.0/aztec-examples`, [
+      "--reference-if-able",
+      `${REPOS_DIR}/v0.9.0/aztec-examples`,
+      "--no-checkout",
+    ]);
+  });
+
+  it("dissociates clones that borrow from a checkout before removing it", async () => {
+    const target = `${REPOS_DIR}/v1.0.0/aztec-examples`;
+    const borrower = `${REPOS_DIR}/v0.9.0/aztec-examples`;
+    mockReaddirSync.mockImplementation(((dir: string) =>
+      dir === REPOS_DIR ? ["v0.9.0", "v1.0.0"] : ["aztec-examples"]) as any);
+    mockExistsSync.mockImplementation((p) => {
+      const path = String(p);
+      // The target looks cloned until it has been removed
+      if (path.startsWith(target)) return mockRmSync.mock.calls.length === 0;
+      return path.startsWith(borrower);
+    });
+    mockReadFileSync.mockReturnValue(`${target}/.git/objects\n` as any);
+    mockGitInstance.raw.mockResolvedValue("");
+    mockGitInstance.clone.mockResolvedValue(undefined);
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+    mockGitInstance.checkout.mockResolvedValue(undefined);
+
+    await cloneRepo(nonSparseConfig, true, "v1.0.0");
+
+    expect(mockSimpleGit).toHaveBeenCalledWith(borrower);
+    expect(mockGitInstance.raw).toHaveBeenCalledWith(["repack", "-a", "-d"]);
+    expect(mockRmSync).toHaveBeenCalledWith(`${borrower}/.git/objects/info/alternates`, { force: true });
+    expect(mockRmSync).toHaveBeenCalledWith(target, { recursive: true, force: true });
+  });
+
   it("already cloned + version match delegates to updateRepo", async () => {
     // needsReclone: isRepoCloned returns true, tag matches
     mockExistsSync.mockReturnValue(true);
-    // getRepoTag needs git.raw to return the tag
-    mockGitInstance.raw.mockResolvedValue("v1.0.0\n");
-    // isRepoCloned returns true -> delegates to updateRepo
-    // updateRepo does fetch + reset
-    mockGitInstance.fetch.mockResolvedValue(undefined);
-    mockGitInstance.reset.mockResolvedValue(undefined);
+    // getRepoTag needs git.raw to return the tag; updateRepo then verifies it
+    mockGitInstance.raw.mockImplementation(async (args: string[]) =>
+      args[0] === "describe" ? "v1.0.0\n" : "1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa\n"
+    );
 
     const result = await cloneRepo(sparseConfig);
-    expect(result).toContain("Updated");
+    expect(result).toContain("Verified");
+    expect(mockGitInstance.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("migrateLegacyLayout", () => {
+  it("moves flat checkouts into the directory of aztec-packages' tag", async () => {
+    mockReaddirSync.mockReturnValue(["aztec-packages", "noir", "v1.0.0"] as any);
+    mockExistsSync.mockImplementation((p) => /\/(aztec-packages|noir)\/\.git$/.test(String(p)) && !String(p).includes("v0.5.0"));
+    mockGitInstance.raw.mockResolvedValue("v0.5.0\n");
+
+    const moved = await migrateLegacyLayout();
+
+    expect(moved).toEqual(["aztec-packages", "noir"]);
+    expect(mockRenameSync).toHaveBeenCalledWith(`${REPOS_DIR}/noir`, `${REPOS_DIR}/v0.5.0/noir`);
+  });
+
+  it("does nothing when there are no flat checkouts", async () => {
+    mockReaddirSync.mockReturnValue(["v1.0.0"] as any);
+    mockExistsSync.mockReturnValue(false);
+
+    expect(await migrateLegacyLayout()).toEqual([]);
+    expect(mockRenameSync).not.toHaveBeenCalled();
   });
 });
 
 describe("updateRepo", () => {
+  const OLD = "1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+  const NEW = "2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+  const repo = (extra: Partial<RepoConfig>): RepoConfig => ({
+    name: "aztec-packages",
+    url: "https://github.com/AztecProtocol/aztec-packages",
+    description: "test",
+    ...extra,
+  });
+
+  // Answer rev-parse/symbolic-ref/merge-base calls; HEAD moves to `after` once merged
+  function mockRevParse(refs: Record<string, string>, after?: string) {
+    let head = refs.HEAD;
+    mockGitInstance.raw.mockImplementation(async (args: string[]) => {
+      if (args[0] === "merge" && after) head = after;
+      if (args[0] === "merge-base") {
+        if ("base" in refs) return `${refs.base}\n`;
+        throw new Error("fatal: no merge base");
+      }
+      if (args[0] === "rev-parse" && args[1] === "--is-shallow-repository") return `${refs.shallow ?? "true"}\n`;
+      if (args[0] === "rev-parse") {
+        const ref = args[args.length - 1];
+        if (ref === "HEAD") return `${head}\n`;
+        if (ref in refs) return `${refs[ref]}\n`;
+        throw new Error(`fatal: Needed a single revision`);
+      }
+      if (args[0] === "symbolic-ref") {
+        if (refs.branch) return `${refs.branch}\n`;
+        throw new Error("fatal: ref HEAD is not a symbolic ref");
+      }
+      return "";
+    });
+  }
+
   it("throws when repo not cloned", async () => {
     mockExistsSync.mockReturnValue(false);
-    await expect(updateRepo("nonexistent")).rejects.toThrow("not cloned");
+    await expect(updateRepo(repo({ name: "nonexistent" }))).rejects.toThrow("not cloned");
+  });
+
+  it("verifies a pinned tag without fetching", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockRevParse({ HEAD: OLD, "refs/tags/v1.0.0^{commit}": OLD });
+
+    const result = await updateRepo(repo({ tag: "v1.0.0" }));
+
+    expect(result).toBe("Verified aztec-packages @ v1.0.0 (tag, 1111111, unchanged)");
+    expect(mockGitInstance.fetch).not.toHaveBeenCalled();
+    expect(mockGitInstance.reset).not.toHaveBeenCalled();
+  });
+
+  it("verifies a pinned commit", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockRevParse({ HEAD: OLD, [`${OLD}^{commit}`]: OLD });
+
+    const result = await updateRepo(repo({ commit: OLD, tag: "v1.0.0" }));
+
+    expect(result).toBe("Verified aztec-packages @ 1111111 (commit, unchanged)");
+    expect(mockGitInstance.fetch).not.toHaveBeenCalled();
+  });
+
+  it("fails when the checkout moved off its pinned tag", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockRevParse({ HEAD: NEW, "refs/tags/v1.0.0^{commit}": OLD });
+
+    await expect(updateRepo(repo({ tag: "v1.0.0" }))).rejects.toThrow(
+      "aztec-packages is at 2222222, not at pinned tag v1.0.0 (1111111)"
+    );
   });
 
-  it("fetches + resets on success", async () => {
+  it("fails when the pinned ref is missing", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockRevParse({ HEAD: OLD });
+
+    await expect(updateRepo(repo({ tag: "v1.0.0" }))).rejects.toThrow("pinned tag v1.0.0 is not in the checkout");
+  });
+
+  it("fast-forwards the configured branch and reports the commits", async () => {
     mockExistsSync.mockReturnValue(true);
     mockGitInstance.fetch.mockResolvedValue(undefined);
-    mockGitInstance.reset.mockResolvedValue(undefined);
+    mockRevParse({ HEAD: OLD, branch: "master", base: OLD, "origin/master": NEW }, NEW);
+
+    const result = await updateRepo(repo({ branch: "master" }));
 
-    const result = await updateRepo("aztec-packages");
-    expect(result).toBe("Updated aztec-packages");
-    expect(mockGitInstance.fetch).toHaveBeenCalledWith(["--depth=1"]);
-    expect(mockGitInstance.reset).toHaveBeenCalledWith(["--hard", "origin/HEAD"]);
+    expect(result).toBe("Updated aztec-packages @ master (branch, 1111111 -> 2222222)");
+    expect(mockGitInstance.fetch).toHaveBeenCalledWith([
+      "--depth=1",
+      "origin",
+      "+refs/heads/master:refs/remotes/origin/master",
+    ]);
+    expect(mockGitInstance.raw).toHaveBeenCalledWith(["merge", "--ff-only", "origin/master"]);
+    expect(mockGitInstance.raw).not.toHaveBeenCalledWith(expect.arrayContaining(["checkout"]));
   });
 
-  it("falls back to pull on fetch/reset failure", async () => {
+  it("uses the checked-out branch when the config names none", async () => {
     mockExistsSync.mockReturnValue(true);
-    mockGitInstance.fetch.mockRejectedValue(new Error("fetch failed"));
-    mockGitInstance.pull.mockResolvedValue(undefined);
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+    mockRevParse({ HEAD: OLD, branch: "main", base: OLD, "origin/main": OLD });
+
+    const result = await updateRepo(repo({}));
 
-    const result = await updateRepo("aztec-packages");
-    expect(result).toBe("Updated aztec-packages");
-    expect(mockGitInstance.pull).toHaveBeenCalled();
+    expect(result).toBe("Up to date aztec-packages @ main (branch, 1111111)");
+    expect(mockGitInstance.raw).toHaveBeenCalledWith(["merge", "--ff-only", "origin/main"]);
   });
 
-  it("returns failure message when both fetch and pull fail", async () => {
+  it("deepens a shallow clone whose history doesn't reach the new tip", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockRevParse({ HEAD: OLD, branch: "master", "origin/master": NEW }, NEW);
+    mockGitInstance.fetch.mockImplementation(async (args: string[]) => {
+      // The deepened history connects HEAD to origin/master
+      if (args[0].startsWith("--deepen")) {
+        mockRevParse({ HEAD: OLD, branch: "master", base: OLD, "origin/master": NEW }, NEW);
+      }
+    });
+
+    const result = await updateRepo(repo({ branch: "master" }));
+
+    expect(result).toBe("Updated aztec-packages @ master (branch, 1111111 -> 2222222)");
+    expect(mockGitInstance.fetch).toHaveBeenCalledWith([
+      "--deepen=1000",
+      "origin",
+      "+refs/heads/master:refs/remotes/origin/master",
+    ]);
+  });
+
+  it("fails instead of resetting a branch that has diverged from origin", async () => {
+    const BASE = "3333333ccccccccccccccccccccccccccccccccc";
+    mockExistsSync.mockReturnValue(true);
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+    mockRevParse({ HEAD: OLD, branch: "master", base: BASE, "origin/master": NEW });
+
+    await expect(updateRepo(repo({ branch: "master" }))).rejects.toThrow(
+      "aztec-packages: master (1111111) has diverged from origin/master (2222222) and can't be fast-forwarded"
+    );
+    expect(mockGitInstance.raw).not.toHaveBeenCalledWith(expect.arrayContaining(["merge"]));
+    expect(mockGitInstance.raw).not.toHaveBeenCalledWith(expect.arrayContaining(["checkout"]));
+  });
+
+  it("fails when no shared history is found after deepening", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+    mockRevParse({ HEAD: OLD, branch: "master", "origin/master": NEW });
+
+    await expect(updateRepo(repo({ branch: "master" }))).rejects.toThrow(
+      "no history shared with origin/master within 1000 commits"
+    );
+  });
+
+  it("fails when the checkout is on a different branch than configured", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockRevParse({ HEAD: OLD, branch: "main" });
+
+    await expect(updateRepo(repo({ branch: "master" }))).rejects.toThrow(
+      "aztec-packages is on main, not branch master; sync with force to re-clone it"
+    );
+    expect(mockGitInstance.fetch).not.toHaveBeenCalled();
+  });
+
+  it("fails on a detached checkout with no branch configured", async () => {
+    mockExistsSync.mockReturnValue(true);
+    mockRevParse({ HEAD: OLD });
+
+    await expect(updateRepo(repo({}))).rejects.toThrow("is not on a branch");
+  });
+
+  it("propagates fetch failures", async () => {
     mockExistsSync.mockReturnValue(true);
     mockGitInstance.fetch.mockRejectedValue(new Error("fetch failed"));
-    mockGitInstance.pull.mockRejectedValue(new Error("pull failed"));
+    mockRevParse({ HEAD: OLD, branch: "main" });
 
-    const result = await updateRepo("aztec-packages");
-    expect(result).toContain("Failed to update");
+    await expect(updateRepo(repo({ branch: "main" }))).rejects.toThrow("fetch failed");
   });
 });
 
@@ -434,3 +755,205 @@ describe("getNoirCommitFromAztec", () => {
     expect(result).toBeNull();
   });
 });
+
+describe("listRemoteTags", () => {
+  const url = "https://github.com/AztecProtocol/aztec-packages";
+
+  it("parses ls-remote output and caches it", async () => {
+    mockReadFileSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    mockGitInstance.listRemote.mockResolvedValue(
+      "abc123\trefs/tags/v1.0.0\ndef456\trefs/tags/v2.0.0-devnet.1\n"
+    );
+
+    const { tags } = await listRemoteTags(url);
+
+    expect(mockGitInstance.listRemote).toHaveBeenCalledWith(["--tags", "--refs", url]);
+    expect(tags).toEqual(["v1.0.0", "v2.0.0-devnet.1"]);
+    expect(mockWriteFileSync).toHaveBeenCalledWith(
+      REPOS_DIR.replace(/repos$/, "tags.json"),
+      expect.stringContaining("v2.0.0-devnet.1")
+    );
+  });
+
+  it("uses a fresh cache without asking the remote", async () => {
+    mockReadFileSync.mockReturnValue(JSON.stringify({ [url]: { tags: ["v1.0.0"], fetchedAt: Date.now() } }) as any);
+
+    const { tags } = await listRemoteTags(url);
+
+    expect(tags).toEqual(["v1.0.0"]);
+    expect(mockGitInstance.listRemote).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a stale cache when the remote is unreachable", async () => {
+    mockReadFileSync.mockReturnValue(JSON.stringify({ [url]: { tags: ["v1.0.0"], fetchedAt: 0 } }) as any);
+    mockGitInstance.listRemote.mockRejectedValue(new Error("network down"));
+
+    const { tags } = await listRemoteTags(url);
+
+    expect(tags).toEqual(["v1.0.0"]);
+  });
+
+  it.each([
+    ["a truncated file", `{"${url}": {"tags": ["v1.0`],
+    ["a file that isn't an object", "null"],
+    ["an entry of the wrong shape", JSON.stringify({ [url]: { tags: "v1.0.0", fetchedAt: Date.now() } })],
+  ])("refetches when the cache is %s", async (_case, cache) => {
+    mockReadFileSync.mockReturnValue(cache as any);
+    mockGitInstance.listRemote.mockResolvedValue("abc123\trefs/tags/v2.0.0\n");
+
+    const { tags } = await listRemoteTags(url);
+
+    expect(tags).toEqual(["v2.0.0"]);
+    expect(mockGitInstance.listRemote).toHaveBeenCalled();
+  });
+
+  it("throws when the remote is unreachable and nothing is cached", async () => {
+    mockReadFileSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    mockGitInstance.listRemote.mockRejectedValue(new Error("network down"));
+
+    await expect(listRemoteTags(url)).rejects.toThrow("network down");
+  });
+});
+
+describe("fetchTags", () => {
+  it("fetches only tags missing from the clone", async () => {
+    mockGitInstance.raw.mockImplementation(async (args: string[]) => {
+      // git prints nothing for a missing tag with --quiet
+      if (args[3] === "refs/tags/v2.0.0^{commit}") return "";
+      if (args[3] === "refs/tags/v3.0.0^{commit}") throw new Error("not found");
+      return "abc123\n";
+    });
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+
+    await fetchTags("aztec-packages", ["v1.0.0", "v2.0.0", "v3.0.0"]);
+
+    expect(mockGitInstance.fetch).toHaveBeenCalledTimes(2);
+    expect(mockGitInstance.fetch).toHaveBeenCalledWith([
+      "--depth=1",
+      "origin",
+      "refs/tags/v2.0.0:refs/tags/v2.0.0",
+    ]);
+  });
+});
+
+describe("listChangedFiles", () => {
+  it("parses numstat output including renames", async () => {
+    mockGitInstance.raw.mockResolvedValue(
+      "3\t1\tsrc/a.nr\0" + "0\t0\t\0src/old.nr\0src/new.nr\0" + "-\t-\timg.png\0"
+    );
+
+    const files = await listChangedFiles("aztec-packages", "v1.0.0", "v2.0.0", ["src/*.nr"]);
+
+    expect(mockGitInstance.raw).toHaveBeenCalledWith([
+      "diff", "--numstat", "-M", "-z", "v1.0.0", "v2.0.0", "--", "src/*.nr",
+    ]);
+    expect(files).toEqual([
+      { file: "src/a.nr", added: 3, deleted: 1 },
+      { file: "src/new.nr", oldFile: "src/old.nr", added: 0, deleted: 0 },
+      { file: "img.png", added: 0, deleted: 0 },
+    ]);
+  });
+});
+
+describe("readFileAtRef", () => {
+  it("returns file contents at a ref", async () => {
+    mockGitInstance.raw.mockResolvedValue("fn main() {}\n");
+    expect(await readFileAtRef("aztec-packages", "v1.0.0", "src/main.nr")).toBe("fn main() {}\n");
+    expect(mockGitInstance.raw).toHaveBeenCalledWith(["show", "v1.0.0:src/main.nr"]);
+  });
+
+  it("returns null when the file doesn't exist at the ref", async () => {
+    mockGitInstance.raw.mockRejectedValue(new Error("fatal: path does not exist"));
+    expect(await readFileAtRef("aztec-packages", "v1.0.0", "missing.nr")).toBeNull();
+  });
+});
+
+describe("logHistory", () => {
+  const A = "a".repeat(40);
+  const B = "b".repeat(40);
+
+  function mockLog(kind: string, log: string) {
+    mockGitInstance.raw.mockImplementation(async (args: string[]) => {
+      if (args[0] === "cat-file") return `${kind}\n`;
+      if (args[0] === "log") return log;
+      if (args[0] === "describe") return args[4] === B ? "v1.0.0~3\n" : "";
+      return "";
+    });
+  }
+
+  it("follows a single file and tags commits with the release containing them", async () => {
+    mockLog("blob", `${A}\x1f2024-05-02T10:00:00+00:00\x1fAda\x1fRename note\x1e\n${B}\x1f2024-04-01T09:00:00+00:00\x1fBob\x1fAdd note\x1e\n`);
+
+    const commits = await logHistory("aztec-packages", { path: "src/note.nr", maxCount: 5 });
+
+    expect(mockGitInstance.raw).toHaveBeenCalledWith([
+      "log", "--no-color", "--max-count=5", "--format=%H%x1f%aI%x1f%an%x1f%s%x1e", "--follow", "HEAD", "--", "src/note.nr",
+    ]);
+    expect(commits).toEqual([
+      { commit: A, date: "2024-05-02T10:00:00+00:00", author: "Ada", subject: "Rename note", tag: undefined },
+      { commit: B, date: "2024-04-01T09:00:00+00:00", author: "Bob", subject: "Add note", tag: "v1.0.0" },
+    ]);
+  });
+
+  it("searches directories with -G and without --follow", async () => {
+    mockLog("tree", "");
+
+    await logHistory("aztec-packages", { path: "src", search: "fn get_notes", regex: true, maxCount: 20 });
+
+    expect(mockGitInstance.raw).toHaveBeenCalledWith([
+      "log", "--no-color", "--max-count=20", "--format=%H%x1f%aI%x1f%an%x1f%s%x1e", "-Gfn get_notes", "HEAD", "--", "src",
+    ]);
+  });
+});
+
+describe("deepenClone", () => {
+  it("deepens from HEAD into a ref so tags are followed", async () => {
+    mockGitInstance.raw.mockResolvedValue("abc123\n");
+    mockGitInstance.fetch.mockResolvedValue(undefined);
+
+    await deepenClone("aztec-packages", 500);
+
+    expect(mockGitInstance.fetch).toHaveBeenCalledWith([
+      "--deepen=500",
+      "origin",
+      "abc123:refs/aztec-mcp/history",
+    ]);
+  });
+});
+
+describe("withReposLock", () => {
+  it("runs operations one at a time in the order they were queued", async () => {
+    const events: string[] = [];
+    let finishFirst!: () => void;
+
+    const first = withReposLock(async () => {
+      events.push("first started");
+      await new Promise<void>((resolve) => (finishFirst = resolve));
+      events.push("first done");
+    });
+    const second = withReposLock(async () => {
+      events.push("second started");
+    });
+    await vi.waitFor(() => expect(events).toEqual(["first started"]));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(events).toEqual(["first started"]);
+    finishFirst();
+    await Promise.all([first, second]);
+    expect(events).toEqual(["first started", "first done", "second started"]);
+  });
+
+  it("runs the next operation after one fails", async () => {
+    const failed = withReposLock(async () => {
+      throw new Error("clone failed");
+    });
+    const next = withReposLock(async () => "ran");
+
+    await expect(failed).rejects.toThrow("clone failed");
+    await expect(next).resolves.toBe("ran");
+  });
+});
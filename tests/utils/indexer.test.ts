@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("fs", () => ({
+  existsSync: vi.fn(),
+  mkdirSync: vi.fn(),
+  readFileSync: vi.fn(),
+  writeFileSync: vi.fn(),
+  statSync: vi.fn(),
+}));
+
+vi.mock("globby", () => ({
+  globbySync: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  REPOS_DIR: "/fake/repos",
+  getVersionDir: () => "/fake/repos",
+  getRepoPath: vi.fn((name: string) => `/fake/repos/${name}`),
+  readHeadCommit: vi.fn(),
+  listClonedRepos: vi.fn(() => []),
+}));
+
+import { existsSync, readFileSync, writeFileSync, statSync } from "fs";
+import { globbySync } from "globby";
+import { readHeadCommit, listClonedRepos } from "../../src/utils/git.js";
+import {
+  INDEX_DIR,
+  tokenize,
+  buildIndex,
+  indexRepo,
+  searchIndex,
+  loadIndex,
+} from "../../src/utils/indexer.js";
+
+const mockExistsSync = vi.mocked(existsSync);
+const mockReadFileSync = vi.mocked(readFileSync);
+const mockWriteFileSync = vi.mocked(writeFileSync);
+const mockStatSync = vi.mocked(statSync);
+const mockGlobbySync = vi.mocked(globbySync);
+const mockReadHeadCommit = vi.mocked(readHeadCommit);
+const mockListClonedRepos = vi.mocked(listClonedRepos);
+
+/** Serve file contents from an in-memory map keyed by absolute path */
+function useFiles(files: Record<string, string>) {
+  mockExistsSync.mockImplementation((p) => String(p) in files);
+  mockReadFileSync.mockImplementation(((p: string) => {
+    if (!(p in files)) throw new Error(`ENOENT: ${p}`);
+    return files[p];
+  }) as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockStatSync.mockReturnValue({ size: 100 } as any);
+});
+
+describe("tokenize", () => {
+  it("lowercases and splits camelCase and snake_case identifiers", () => {
+    expect(tokenize("PrivateSet get_notes")).toEqual([
+      "privateset",
+      "private",
+      "set",
+      "get_notes",
+      "get",
+      "notes",
+    ]);
+  });
+
+  it("drops single-character tokens", () => {
+    expect(tokenize("a + b = ab")).toEqual(["ab"]);
+  });
+});
+
+describe("buildIndex", () => {
+  it("indexes matching files into chunks with postings", () => {
+    mockGlobbySync.mockReturnValue([
+      "/fake/repos/repo/src/main.nr",
+      "/fake/repos/repo/README.md",
+    ]);
+    useFiles({
+      "/fake/repos/repo/src/main.nr": "fn main() {\n  emit(note);\n}",
+      "/fake/repos/repo/README.md": "# Emit events",
+    });
+
+    const index = buildIndex("repo", "abc123", ["*.nr", "*.md"]);
+
+    expect(mockGlobbySync).toHaveBeenCalledWith(
+      ["**/*.nr", "**/*.md"],
+      expect.objectContaining({ cwd: "/fake/repos/repo" })
+    );
+    expect(index.files).toEqual(["repo/src/main.nr", "repo/README.md"]);
+    expect(index.chunks).toHaveLength(2);
+    expect(index.postings.emit).toEqual([0, 1, 1, 1]);
+    expect(index.commit).toBe("abc123");
+  });
+
+  it("skips files that are too large or unreadable", () => {
+    mockGlobbySync.mockReturnValue(["/fake/repos/repo/big.nr", "/fake/repos/repo/gone.nr"]);
+    mockStatSync.mockReturnValueOnce({ size: 10 * 1024 * 1024 } as any);
+    useFiles({});
+
+    const index = buildIndex("repo", "abc123");
+    expect(index.files).toEqual([]);
+  });
+});
+
+describe("indexRepo", () => {
+  it("writes the index under INDEX_DIR keyed by repo and commit", () => {
+    mockGlobbySync.mockReturnValue([]);
+    mockReadHeadCommit.mockReturnValue("deadbeef");
+
+    const result = indexRepo({
+      name: "repo",
+      url: "https://example.com/repo",
+      description: "Test",
+      searchPatterns: { code: ["*.nr"], docs: ["*.md"] },
+    });
+
+    expect(result).toEqual({ commit: "deadbeef", files: 0 });
+    expect(mockWriteFileSync).toHaveBeenCalledWith(
+      `${INDEX_DIR}/repo/deadbeef.json`,
+      expect.any(String)
+    );
+    expect(mockGlobbySync).toHaveBeenCalledWith(["**/*.nr", "**/*.md"], expect.anything());
+  });
+
+  it("returns null when HEAD cannot be read", () => {
+    mockReadHeadCommit.mockReturnValue(null);
+    expect(indexRepo({ name: "repo", url: "u", description: "d" })).toBeNull();
+  });
+});
+
+describe("searchIndex", () => {
+  const files = {
+    "/fake/repos/lib/src/set.nr": "struct PrivateSet {}\nimpl PrivateSet {}\n",
+    "/fake/repos/lib/src/other.nr": "fn unrelated() {}\nfn set_value() {}\n",
+    "/fake/repos/lib/src/test/set_test.nr": "struct PrivateSet {}\nimpl PrivateSet {}\n",
+    "/fake/repos/lib/docs/set.md": "PrivateSet stores notes",
+  };
+
+  function indexLib() {
+    mockGlobbySync.mockReturnValue(Object.keys(files).filter((f) => !f.includes(".git")));
+    useFiles(files);
+    mockReadHeadCommit.mockImplementation((name) => (name === "lib" ? "1111" : "2222"));
+    indexRepo({ name: "lib", url: "u", description: "d" });
+  }
+
+  it("ranks chunks by relevance and reports the best line", () => {
+    indexLib();
+
+    const { results } = searchIndex("PrivateSet", { scope: "lib" })!;
+
+    expect(results[0].file).toBe("lib/src/set.nr");
+    expect(results[0].line).toBe(1);
+    expect(results[0].content).toBe("struct PrivateSet {}");
+    expect(results[0].repo).toBe("lib");
+    expect(results[0].score).toBeGreaterThan(0);
+  });
+
+  it("down-weights test files", () => {
+    indexLib();
+
+    const { results } = searchIndex("PrivateSet", { scope: "lib", filePattern: "*.nr" })!;
+    const files = results.map((r) => r.file);
+    expect(files.indexOf("lib/src/test/set_test.nr")).toBeGreaterThan(
+      files.indexOf("lib/src/set.nr")
+    );
+  });
+
+  it("filters by file pattern and scope", () => {
+    indexLib();
+
+    expect(searchIndex("PrivateSet", { scope: "lib", filePattern: "*.{md,mdx}" })!.results.map((r) => r.file))
+      .toEqual(["lib/docs/set.md"]);
+    expect(searchIndex("PrivateSet", { scope: "lib/src/test" })!.results.map((r) => r.file))
+      .toEqual(["lib/src/test/set_test.nr"]);
+  });
+
+  it("searches every cloned repo when no scope is given", () => {
+    indexLib();
+    mockListClonedRepos.mockReturnValue(["lib"]);
+
+    const { results } = searchIndex("notes", { maxResults: 1 })!;
+    expect(results).toHaveLength(1);
+    expect(results[0].file).toBe("lib/docs/set.md");
+  });
+
+  it("returns the requested page and the total hit count", () => {
+    indexLib();
+
+    const all = searchIndex("PrivateSet", { scope: "lib" })!;
+    const page = searchIndex("PrivateSet", { scope: "lib", offset: 1, maxResults: 1 })!;
+
+    expect(page.total).toBe(all.total);
+    expect(page.results).toEqual([all.results[1]]);
+  });
+
+  it("only matches chunks with the whole identifier or all of its parts", () => {
+    indexLib();
+
+    // other.nr has "set" (from set_value) but not "private"
+    expect(searchIndex("PrivateSet", { scope: "lib" })!.results.map((r) => r.file)).not.toContain(
+      "lib/src/other.nr"
+    );
+    expect(searchIndex("PrivateNote", { scope: "lib" })!.total).toBe(0);
+    expect(searchIndex("set_value", { scope: "lib" })!.results.map((r) => r.file)).toEqual(["lib/src/other.nr"]);
+  });
+
+  it("requires every word of the query", () => {
+    indexLib();
+
+    expect(searchIndex("PrivateSet notes", { scope: "lib" })!.results.map((r) => r.file)).toEqual([
+      "lib/docs/set.md",
+    ]);
+  });
+
+  it("returns null when a repo in scope has no index", () => {
+    useFiles({});
+    mockReadHeadCommit.mockReturnValue("2222");
+    expect(searchIndex("PrivateSet", { scope: "other" })).toBeNull();
+  });
+});
+
+describe("loadIndex", () => {
+  it("keeps only the most recently used indexes in memory", () => {
+    mockGlobbySync.mockReturnValue([]);
+    for (let i = 0; i < 13; i++) {
+      mockReadHeadCommit.mockReturnValue(`c${i}`);
+      indexRepo({ name: "repo", url: "u", description: "d" });
+    }
+    const stored = JSON.parse(mockWriteFileSync.mock.calls[0][1] as string);
+    useFiles({ [`${INDEX_DIR}/repo/c0.json`]: JSON.stringify(stored) });
+
+    // c12 is still cached; c0 was dropped and has to be read again
+    mockReadHeadCommit.mockReturnValue("c12");
+    expect(loadIndex("repo")!.commit).toBe("c12");
+    expect(mockReadFileSync).not.toHaveBeenCalled();
+
+    mockReadHeadCommit.mockReturnValue("c0");
+    expect(loadIndex("repo")!.commit).toBe("c0");
+    expect(mockReadFileSync).toHaveBeenCalledWith(`${INDEX_DIR}/repo/c0.json`, "utf-8");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("fs", () => ({
+  readFileSync: vi.fn(),
+  writeFileSync: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  getVersionDir: (version: string) => `/fake/repos/${version}`,
+  isValidVersion: (version: string) => /^\w[\w.+-]*$/.test(version),
+}));
+
+import { readFileSync, writeFileSync } from "fs";
+import { parseManifest, readLockfile, readManifest, writeManifest } from "../../src/utils/manifest.js";
+
+const mockReadFileSync = vi.mocked(readFileSync);
+const mockWriteFileSync = vi.mocked(writeFileSync);
+
+const COMMIT = "0123456789abcdef0123456789abcdef01234567";
+
+function repo(name: string, syncedAt = "2026-01-01T00:00:00.000Z") {
+  return { name, url: `https://example.com/${name}`, ref: "v1.0.0", refType: "tag" as const, commit: COMMIT, syncedAt };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockReadFileSync.mockImplementation(() => {
+    throw new Error("ENOENT");
+  });
+});
+
+describe("readManifest", () => {
+  it("reads the manifest from the version directory", () => {
+    mockReadFileSync.mockReturnValue(JSON.stringify({ version: "v1.0.0", syncedAt: "t", repos: [repo("noir")] }) as any);
+
+    expect(readManifest("v1.0.0")?.repos[0].name).toBe("noir");
+    expect(mockReadFileSync).toHaveBeenCalledWith("/fake/repos/v1.0.0/manifest.json", "utf-8");
+  });
+
+  it("returns null when there is no manifest", () => {
+    expect(readManifest("v1.0.0")).toBeNull();
+  });
+});
+
+describe("writeManifest", () => {
+  it("keeps entries for repos the sync didn't touch", () => {
+    mockReadFileSync.mockReturnValue(
+      JSON.stringify({ version: "v1.0.0", syncedAt: "old", noirCommit: COMMIT, repos: [repo("noir", "old"), repo("aztec-packages", "old")] }) as any
+    );
+
+    const merged = writeManifest({ version: "v1.0.0", syncedAt: "new", repos: [repo("aztec-packages", "new")] });
+
+    expect(merged.noirCommit).toBe(COMMIT);
+    expect(merged.repos.map((r) => [r.name, r.syncedAt])).toEqual([
+      ["aztec-packages", "new"],
+      ["noir", "old"],
+    ]);
+    expect(mockWriteFileSync).toHaveBeenCalledWith("/fake/repos/v1.0.0/manifest.json", expect.stringContaining('"syncedAt": "new"'));
+  });
+});
+
+describe("parseManifest", () => {
+  it("accepts a valid manifest", () => {
+    const manifest = { version: "v1.0.0", syncedAt: "t", repos: [{ ...repo("noir"), sparse: ["docs"] }] };
+    expect(parseManifest(JSON.stringify(manifest))).toEqual(manifest);
+  });
+
+  it.each([
+    ["not json", "Lockfile is not valid JSON"],
+    [JSON.stringify({ version: "../x", repos: [] }), "no valid version"],
+    [JSON.stringify({ version: "v1", syncedAt: "t" }), "no repos list"],
+    [JSON.stringify({ version: "v1", syncedAt: "t", repos: [{ ...repo("noir"), name: "../noir" }] }), "invalid name"],
+    [JSON.stringify({ version: "v1", syncedAt: "t", repos: [{ ...repo("noir"), commit: "abc123" }] }), "no full commit hash"],
+    [JSON.stringify({ version: "v1", syncedAt: "t", repos: [{ ...repo("noir"), sparse: "docs" }] }), "invalid sparse paths"],
+    [JSON.stringify({ version: "v1", syncedAt: "t", repos: [{ ...repo("noir"), refType: 5 }] }), "invalid refType"],
+    [JSON.stringify({ version: "v1", syncedAt: "t", repos: [{ ...repo("noir"), ref: "" }] }), "has no ref"],
+    [JSON.stringify({ version: "v1", syncedAt: "t", repos: [{ ...repo("noir"), syncedAt: 1 }] }), "noir has no syncedAt"],
+    [JSON.stringify({ version: "v1", repos: [repo("noir")] }), "Lockfile has no syncedAt"],
+    [JSON.stringify({ version: "v1", syncedAt: "t", noirCommit: 7, repos: [] }), "invalid noirCommit"],
+  ])("rejects %s", (source, error) => {
+    expect(() => parseManifest(source)).toThrow(error);
+  });
+});
+
+describe("readLockfile", () => {
+  it("explains unreadable files", () => {
+    expect(() => readLockfile("/missing.json")).toThrow("Cannot read lockfile /missing.json: ENOENT");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { parseFrontmatter, parseMarkdownSections, findSection } from "../../src/utils/markdown.js";
+
+const PAGE = `---
+title: Writing contracts
+sidebar_position: 2
+---
+
+Intro paragraph.
+
+## Storage {#storage}
+
+Storage overview.
+
+### \`Map\` types
+
+\`\`\`rust
+# not a heading
+\`\`\`
+
+## Functions
+
+Functions text.
+`;
+
+describe("parseFrontmatter", () => {
+  it("reads key/value pairs and strips quotes", () => {
+    expect(parseFrontmatter('---\ntitle: "Hello"\nslug: /a/b\n---\nbody')).toEqual({
+      title: "Hello",
+      slug: "/a/b",
+    });
+  });
+
+  it("returns {} without frontmatter", () => {
+    expect(parseFrontmatter("# Title")).toEqual({});
+  });
+});
+
+describe("parseMarkdownSections", () => {
+  const page = parseMarkdownSections(PAGE);
+
+  it("uses the frontmatter title", () => {
+    expect(page.title).toBe("Writing contracts");
+    expect(page.frontmatter.sidebar_position).toBe("2");
+  });
+
+  it("splits on headings outside code fences and builds breadcrumbs", () => {
+    expect(page.sections.map((s) => [s.heading, s.startLine, s.endLine])).toEqual([
+      ["", 5, 7],
+      ["Storage", 8, 11],
+      ["Map types", 12, 17],
+      ["Functions", 18, 21],
+    ]);
+    expect(page.sections[2].breadcrumb).toEqual(["Writing contracts", "Storage", "Map types"]);
+    expect(page.sections[3].breadcrumb).toEqual(["Writing contracts", "Functions"]);
+  });
+
+  it("falls back to the first H1 as title without repeating it", () => {
+    const { title, sections } = parseMarkdownSections("# Notes\n\ntext\n\n## Custom notes\n");
+    expect(title).toBe("Notes");
+    expect(sections[0].breadcrumb).toEqual(["Notes"]);
+    expect(sections[1].breadcrumb).toEqual(["Notes", "Custom notes"]);
+  });
+});
+
+describe("findSection", () => {
+  it("returns the section containing a line", () => {
+    const page = parseMarkdownSections(PAGE);
+    expect(findSection(page, 10)?.heading).toBe("Storage");
+    expect(findSection(page, 15)?.heading).toBe("Map types");
+    expect(findSection(page, 100)).toBeUndefined();
+  });
+});
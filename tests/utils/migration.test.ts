@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("fs", () => ({
+  readFileSync: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  getVersionDir: () => "/fake/repos",
+}));
+
+vi.mock("../../src/utils/docs.js", () => ({
+  listDocPages: vi.fn(() => []),
+}));
+
+import { readFileSync } from "fs";
+import { listDocPages } from "../../src/utils/docs.js";
+import { compareVersions, getMigrationEntries, parseMigrationNotes } from "../../src/utils/migration.js";
+
+const NOTES = `---
+title: Migration notes
+---
+
+Aztec is in full-speed development.
+
+## TBD
+
+### Unreleased change
+
+Not yet.
+
+## 3.0.0-devnet.4
+
+### [Aztec.nr] Renamed \`insert\`
+
+\`\`\`diff
+- set.insert(note);
++ set.insert(note).emit(encode);
+\`\`\`
+
+#### Details
+
+## Nothing happens here
+
+## 2.0.0
+
+Only a note, no sub-headings.
+
+## 1.0.0
+
+### First
+
+### Second
+`;
+
+const FILE = "aztec-packages/docs/docs/migration_notes.md";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(listDocPages).mockReturnValue([
+    { file: FILE, id: "migration_notes", route: "/migration_notes", url: "", title: "Migration notes" },
+    { file: "aztec-packages/docs/docs/index.md", id: "index", route: "/", url: "", title: "Welcome" },
+  ]);
+  vi.mocked(readFileSync).mockReturnValue(NOTES as any);
+});
+
+describe("compareVersions", () => {
+  it("orders numerically with pre-releases before their release", () => {
+    expect(compareVersions("v2.0.0", "10.0.0")).toBeLessThan(0);
+    expect(compareVersions("3.0.0-devnet.4", "3.0.0")).toBeLessThan(0);
+    expect(compareVersions("3.0.0-devnet.10", "v3.0.0-devnet.4")).toBeGreaterThan(0);
+    expect(compareVersions("v1.2.3", "1.2.3")).toBe(0);
+  });
+});
+
+describe("parseMigrationNotes", () => {
+  it("splits entries under version headings and keeps code examples", () => {
+    const entries = parseMigrationNotes(NOTES, FILE);
+
+    expect(entries.map((e) => [e.version, e.title])).toEqual([
+      ["3.0.0-devnet.4", "[Aztec.nr] Renamed insert"],
+      ["2.0.0", ""],
+      ["1.0.0", "First"],
+      ["1.0.0", "Second"],
+    ]);
+    expect(entries[0].content).toContain("+ set.insert(note).emit(encode);");
+    expect(entries[0].content).toContain("#### Details");
+    expect(entries[0].content).not.toContain("Nothing happens here");
+    expect(entries[1].content).toBe("Only a note, no sub-headings.");
+    expect(entries[0].line).toBe(15);
+  });
+
+  it("returns nothing for pages without version headings", () => {
+    expect(parseMigrationNotes("# Title\n\n## Intro\n", FILE)).toEqual([]);
+  });
+});
+
+describe("getMigrationEntries", () => {
+  it("returns entries after from up to and including to, oldest first", () => {
+    const { entries, latest, files } = getMigrationEntries("v1.0.0", "v3.0.0-devnet.4");
+
+    expect(files).toEqual([FILE]);
+    expect(latest).toBe("3.0.0-devnet.4");
+    expect(entries.map((e) => e.version)).toEqual(["2.0.0", "3.0.0-devnet.4"]);
+    expect(readFileSync).toHaveBeenCalledWith(`/fake/repos/${FILE}`, "utf-8");
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { encodeCursor, decodeCursor } from "../../src/utils/pagination.js";
+
+describe("pagination cursors", () => {
+  it("round-trips the offset for the same parameters", () => {
+    const cursor = encodeCursor(40, { query: "note" });
+    expect(decodeCursor(cursor, { query: "note" })).toBe(40);
+  });
+
+  it("rejects cursors issued for other parameters", () => {
+    const cursor = encodeCursor(40, { query: "note" });
+    expect(decodeCursor(cursor, { query: "notes" })).toBeNull();
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeCursor("not-a-cursor", {})).toBeNull();
+    expect(decodeCursor(Buffer.from('{"o":-1}').toString("base64url"), {})).toBeNull();
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../../src/utils/git.js", () => ({
+  isRepoCloned: vi.fn(() => true),
+  withVersion: (_version: unknown, fn: () => unknown) => fn(),
+}));
+
+vi.mock("../../src/utils/docs.js", () => ({
+  resolveDocPage: vi.fn(() => null),
+}));
+
+vi.mock("../../src/utils/search.js", () => ({
+  findExample: vi.fn(() => null),
+  listExamples: vi.fn(() => []),
+  searchCode: vi.fn(() => ({ results: [], total: 0, totalIsEstimate: false })),
+  searchDocs: vi.fn(() => ({ results: [], total: 0, totalIsEstimate: false })),
+}));
+
+vi.mock("../../src/utils/resources.js", () => ({
+  readResource: vi.fn((uri: string) => ({ uri, mimeType: "text/plain", text: `contents of ${uri}` })),
+}));
+
+vi.mock("../../src/utils/migration.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/utils/migration.js")>()),
+  getMigrationEntries: vi.fn(() => ({ entries: [], latest: null, files: [] })),
+}));
+
+import { isRepoCloned } from "../../src/utils/git.js";
+import { resolveDocPage } from "../../src/utils/docs.js";
+import { findExample, listExamples, searchCode, searchDocs } from "../../src/utils/search.js";
+import { readResource } from "../../src/utils/resources.js";
+import { getMigrationEntries } from "../../src/utils/migration.js";
+import { DEFAULT_AZTEC_VERSION } from "../../src/repos/config.js";
+import {
+  BUILTIN_PROMPTS,
+  listPrompts,
+  parsePromptTemplate,
+  renderPrompt,
+  PromptTemplate,
+} from "../../src/utils/prompts.js";
+
+const mockIsRepoCloned = vi.mocked(isRepoCloned);
+const mockResolveDocPage = vi.mocked(resolveDocPage);
+const mockFindExample = vi.mocked(findExample);
+const mockListExamples = vi.mocked(listExamples);
+const mockSearchCode = vi.mocked(searchCode);
+const mockSearchDocs = vi.mocked(searchDocs);
+const mockReadResource = vi.mocked(readResource);
+const mockGetMigrationEntries = vi.mocked(getMigrationEntries);
+
+const builtin = (name: string) => BUILTIN_PROMPTS.find((p) => p.name === name)!;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockIsRepoCloned.mockReturnValue(true);
+});
+
+describe("parsePromptTemplate", () => {
+  it("reads frontmatter and the instruction body", () => {
+    const template = parsePromptTemplate(
+      [
+        "---",
+        "description: Add a note",
+        "arguments:",
+        "  - name: note",
+        "    required: true",
+        "embed:",
+        "  search: ['custom note {{note}}']",
+        "---",
+        "Add a note storing {{note}}.",
+      ].join("\n"),
+      "/prompts/add-note.md"
+    );
+
+    expect(template).toEqual({
+      name: "add-note",
+      title: undefined,
+      description: "Add a note",
+      arguments: [{ name: "note", description: undefined, required: true, default: undefined }],
+      text: "Add a note storing {{note}}.",
+      embed: { search: ["custom note {{note}}"] },
+      file: "/prompts/add-note.md",
+    });
+  });
+
+  it("accepts a file without frontmatter", () => {
+    expect(parsePromptTemplate("Review this contract.\n", "/p/review.md").text).toBe("Review this contract.");
+  });
+
+  it.each([
+    ["---\nfoo: 1\n---\ntext", "unknown setting 'foo'"],
+    ["---\narguments: note\n---\ntext", "'arguments' must be a list"],
+    ["---\narguments:\n  - required: true\n---\ntext", "arguments[0] needs a name"],
+    ["---\narguments:\n  - name: version\n---\ntext", "'version' is reserved"],
+    ["---\nembed:\n  docs: intro\n---\ntext", "embed.docs must be a list of strings"],
+    ["---\nembed:\n  migration: { from: v1.0.0 }\n---\ntext", "embed.migration needs 'from' and 'to' versions"],
+    ["---\nembed:\n  urls: []\n---\ntext", "embed has unknown setting 'urls'"],
+    ["---\ndescription: x\n---\n", "the instruction text is empty"],
+  ])("rejects %j", (source, problem) => {
+    expect(() => parsePromptTemplate(source, "/p/bad.md")).toThrow(`Invalid prompt template /p/bad.md: ${problem}`);
+  });
+});
+
+describe("listPrompts", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "aztec-prompts-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns the built-ins when the directory doesn't exist", () => {
+    expect(listPrompts(join(dir, "missing"))).toEqual({ prompts: BUILTIN_PROMPTS, errors: [] });
+  });
+
+  it("adds team templates, lets them replace built-ins, and reports broken ones", () => {
+    writeFileSync(join(dir, "review.md"), "Review this contract.");
+    writeFileSync(join(dir, "port.md"), "---\nname: aztec-port-contract\n---\nOur porting checklist.");
+    writeFileSync(join(dir, "broken.md"), "---\nembed: 3\n---\ntext");
+    writeFileSync(join(dir, "notes.txt"), "ignored");
+
+    const { prompts, errors } = listPrompts(dir);
+
+    expect(prompts.map((p) => p.name)).toEqual(["aztec-write-contract", "aztec-port-contract", "review"]);
+    expect(prompts.find((p) => p.name === "aztec-port-contract")?.text).toBe("Our porting checklist.");
+    expect(errors).toEqual([`Invalid prompt template ${join(dir, "broken.md")}: 'embed' must be an object`]);
+  });
+});
+
+describe("renderPrompt", () => {
+  it("requires the required arguments", () => {
+    expect(() => renderPrompt(builtin("aztec-port-contract"), { code: "contract A {}" })).toThrow(
+      "Missing required argument: from"
+    );
+  });
+
+  it("embeds docs sections and the example contracts matching the task", () => {
+    mockSearchDocs.mockReturnValue({
+      results: [
+        {
+          file: "aztec-packages/docs/docs/token.md",
+          content: "transfer",
+          repo: "aztec-packages",
+          breadcrumb: ["Token", "Transfers"],
+          sectionContent: "## Transfers\nUse transfer_in_private.",
+          url: "https://docs.aztec.network/token",
+        },
+      ],
+      total: 1,
+      totalIsEstimate: false,
+    });
+    mockListExamples.mockReturnValue([
+      { path: "aztec-examples/token/src/main.nr", name: "token", repo: "aztec-examples", type: "contract" },
+    ]);
+    mockSearchCode.mockReturnValue({
+      results: [
+        { file: "aztec-examples/token/src/types.nr", content: "fn transfer", repo: "aztec-examples" },
+        { file: "aztec-examples/token/src/main.nr", content: "fn transfer", repo: "aztec-examples" },
+      ],
+      total: 2,
+      totalIsEstimate: false,
+    });
+
+    const { messages } = renderPrompt(builtin("aztec-write-contract"), { task: "a private token transfer" });
+
+    expect(mockSearchDocs).toHaveBeenCalledWith("a private token transfer", { fullSection: true, maxResults: 3 });
+    expect(mockFindExample).not.toHaveBeenCalled();
+    expect(messages[0].content).toMatchObject({ type: "text" });
+    const text = (messages[0].content as { text: string }).text;
+    expect(text).toContain("this task: a private token transfer");
+    expect(text).toContain(`Target Aztec ${DEFAULT_AZTEC_VERSION}`);
+    expect(messages.slice(1).map((m) => m.content)).toEqual([
+      {
+        type: "text",
+        text: "Docs: Token > Transfers (https://docs.aztec.network/token)\n\n## Transfers\nUse transfer_in_private.",
+      },
+      {
+        type: "resource",
+        resource: {
+          uri: "aztec://aztec-examples/token/src/main.nr",
+          mimeType: "text/plain",
+          text: "contents of aztec://aztec-examples/token/src/main.nr",
+        },
+      },
+    ]);
+  });
+
+  it("embeds named examples and docs pages from team templates", () => {
+    mockFindExample.mockReturnValue({
+      path: "aztec-examples/counter/src/main.nr",
+      name: "counter",
+      repo: "aztec-examples",
+      type: "contract",
+    });
+    mockResolveDocPage.mockImplementation((ref) =>
+      ref === "guides/notes"
+        ? { file: "aztec-packages/docs/docs/guides/notes.md", id: "guides/notes", route: "/guides/notes", url: "", title: "Notes" }
+        : null
+    );
+    const template: PromptTemplate = {
+      name: "team",
+      arguments: [{ name: "contract", required: true }],
+      text: "Extend {{contract}}.",
+      embed: { docs: ["guides/notes", "guides/missing"], examples: ["{{contract}}"], files: ["workspace/app/README.md"] },
+    };
+
+    const { messages } = renderPrompt(template, { contract: "counter" });
+
+    expect(mockFindExample).toHaveBeenCalledWith("counter");
+    expect(messages.slice(1).map((m) => (m.content as { resource: { uri: string } }).resource.uri)).toEqual([
+      "aztec-docs://guides/notes",
+      "aztec://aztec-examples/counter/src/main.nr",
+      "aztec://workspace/app/README.md",
+    ]);
+    expect((messages[0].content as { text: string }).text).toContain("No docs page found for 'guides/missing'");
+  });
+
+  it("skips embeds whose optional argument is empty", () => {
+    renderPrompt(builtin("aztec-write-contract"), { task: "voting" });
+    expect(mockFindExample).not.toHaveBeenCalled();
+  });
+
+  it("notes files that can't be read", () => {
+    mockReadResource.mockReturnValue(null);
+    const template: PromptTemplate = { name: "t", arguments: [], text: "Go.", embed: { files: ["aztec-starter/gone.nr"] } };
+
+    const { messages } = renderPrompt(template);
+
+    expect(messages).toHaveLength(1);
+    expect((messages[0].content as { text: string }).text).toContain("Could not read aztec://aztec-starter/gone.nr");
+  });
+
+  it("embeds migration notes up to the synced version by default", () => {
+    mockGetMigrationEntries.mockReturnValue({
+      entries: [{ version: "3.0.0", title: "Renamed notes", content: "Use `NoteGetterOptions`.", file: "m.md", line: 4 }],
+      latest: "3.0.0",
+      files: ["m.md"],
+    });
+
+    const { messages } = renderPrompt(builtin("aztec-port-contract"), { code: "contract A {}", from: "v2.0.2" });
+
+    expect(mockGetMigrationEntries).toHaveBeenCalledWith("v2.0.2", DEFAULT_AZTEC_VERSION);
+    expect((messages[0].content as { text: string }).text).toContain(`from v2.0.2 to ${DEFAULT_AZTEC_VERSION}`);
+    expect(messages[1].content).toEqual({
+      type: "text",
+      text: `Migration notes from v2.0.2 to ${DEFAULT_AZTEC_VERSION}\n\n## 3.0.0\n\n### Renamed notes\n\nUse \`NoteGetterOptions\`.`,
+    });
+  });
+
+  it("notes when the docs aren't synced", () => {
+    mockIsRepoCloned.mockReturnValue(false);
+
+    const { messages } = renderPrompt(builtin("aztec-port-contract"), { code: "c", from: "v2.0.2", to: "v3.0.0" });
+
+    expect((messages[0].content as { text: string }).text).toContain("aztec-packages is not synced");
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/docs.js", () => ({
+  listDocPages: vi.fn(() => []),
+  resolveDocPage: vi.fn(() => null),
+}));
+
+vi.mock("../../src/utils/search.js", () => ({
+  listExamples: vi.fn(() => []),
+  readFile: vi.fn(() => null),
+}));
+
+import { listDocPages, resolveDocPage } from "../../src/utils/docs.js";
+import { listExamples, readFile } from "../../src/utils/search.js";
+import { listResources, readResource, resourceDigest } from "../../src/utils/resources.js";
+
+const mockListDocPages = vi.mocked(listDocPages);
+const mockResolveDocPage = vi.mocked(resolveDocPage);
+const mockListExamples = vi.mocked(listExamples);
+const mockReadFile = vi.mocked(readFile);
+
+const PAGE = {
+  file: "aztec-packages/docs/docs/developers/guides/writing_contracts.md",
+  id: "developers/guides/writing_contracts",
+  route: "/developers/guides/writing_contracts",
+  url: "https://docs.aztec.network/developers/guides/writing_contracts",
+  title: "Writing Contracts",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockListDocPages.mockReturnValue([]);
+  mockResolveDocPage.mockReturnValue(null);
+  mockListExamples.mockReturnValue([]);
+  mockReadFile.mockReturnValue(null);
+});
+
+describe("listResources", () => {
+  it("lists docs pages and example contracts", () => {
+    mockListDocPages.mockReturnValue([PAGE]);
+    mockListExamples.mockReturnValue([
+      { path: "aztec-examples/counter/src/main.nr", name: "counter", repo: "aztec-examples", type: "contract" },
+    ]);
+
+    const page = listResources()!;
+
+    expect(page.resources).toEqual([
+      {
+        uri: "aztec-docs://developers/guides/writing_contracts",
+        name: PAGE.id,
+        title: "Writing Contracts",
+        description: PAGE.url,
+        mimeType: "text/markdown",
+      },
+      {
+        uri: "aztec://aztec-examples/counter/src/main.nr",
+        name: "aztec-examples/counter/src/main.nr",
+        title: "counter (aztec-examples)",
+        description: "Example contract from aztec-examples",
+        mimeType: "text/plain",
+      },
+    ]);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it("pages through long lists with a cursor", () => {
+    mockListDocPages.mockReturnValue(
+      Array.from({ length: 150 }, (_, i) => ({ ...PAGE, id: `page${String(i).padStart(3, "0")}` }))
+    );
+
+    const first = listResources()!;
+    const second = listResources(first.nextCursor)!;
+
+    expect(first.resources).toHaveLength(100);
+    expect(second.resources).toHaveLength(50);
+    expect(second.resources[0].name).toBe("page100");
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it("rejects a malformed cursor", () => {
+    expect(listResources("garbage")).toBeNull();
+  });
+});
+
+describe("readResource", () => {
+  it("reads repo files through readFile", () => {
+    mockReadFile.mockReturnValue("# Readme\n");
+
+    const resource = readResource("aztec://aztec-starter/README.md");
+
+    expect(mockReadFile).toHaveBeenCalledWith("aztec-starter/README.md");
+    expect(resource).toEqual({ uri: "aztec://aztec-starter/README.md", mimeType: "text/markdown", text: "# Readme\n" });
+  });
+
+  it("reads workspace files", () => {
+    mockReadFile.mockReturnValue("fn main() {}");
+    readResource("aztec://workspace/app/src/main.nr");
+    expect(mockReadFile).toHaveBeenCalledWith("workspace/app/src/main.nr");
+  });
+
+  it("resolves docs pages by id, including a percent-encoded id", () => {
+    mockResolveDocPage.mockReturnValue(PAGE);
+    mockReadFile.mockReturnValue("# Writing Contracts");
+
+    const resource = readResource("aztec-docs://developers%2Fguides%2Fwriting_contracts");
+
+    expect(mockResolveDocPage).toHaveBeenCalledWith("developers/guides/writing_contracts");
+    expect(mockReadFile).toHaveBeenCalledWith(PAGE.file);
+    expect(resource?.text).toBe("# Writing Contracts");
+  });
+
+  it("returns null for missing files and pages", () => {
+    expect(readResource("aztec://aztec-packages/missing.nr")).toBeNull();
+    expect(readResource("aztec-docs://nowhere")).toBeNull();
+  });
+
+  it("throws for URIs outside the synced repos", () => {
+    expect(() => readResource("aztec://aztec-packages/../../etc/passwd")).toThrow("stay inside");
+    expect(() => readResource("aztec://aztec-packages/%2e%2e/secret")).toThrow("stay inside");
+    expect(() => readResource("aztec://unknown-repo/file.nr")).toThrow("Unknown repository");
+    expect(() => readResource("aztec://aztec-packages")).toThrow("Invalid resource URI");
+    expect(() => readResource("file:///etc/passwd")).toThrow("Unsupported resource URI");
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+});
+
+describe("resourceDigest", () => {
+  it("changes with the contents and is null when unreadable", () => {
+    mockReadFile.mockReturnValueOnce("one").mockReturnValueOnce("two").mockReturnValueOnce(null);
+
+    const first = resourceDigest("aztec://aztec-packages/a.nr");
+    const second = resourceDigest("aztec://aztec-packages/a.nr");
+
+    expect(first).not.toBe(second);
+    expect(resourceDigest("aztec://aztec-packages/a.nr")).toBeNull();
+    expect(resourceDigest("bogus://x")).toBeNull();
+  });
+});
@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 // Mock dependencies before importing the module under test
 vi.mock("child_process", () => ({
-  execSync: vi.fn(),
+  spawnSync: vi.fn(),
 }));
 
 vi.mock("fs", () => ({
@@ -15,15 +15,38 @@ vi.mock("globby", () => ({
 }));
 
 vi.mock("../../src/utils/git.js", () => ({
-  REPOS_DIR: "/fake/repos",
+  getVersionDir: () => "/fake/repos",
   getRepoPath: vi.fn((name: string) => `/fake/repos/${name}`),
 }));
 
-import { execSync } from "child_process";
+vi.mock("../../src/utils/indexer.js", () => ({
+  searchIndex: vi.fn(() => null),
+}));
+
+// One workspace can be registered, at /home/me/app
+vi.mock("../../src/utils/workspace.js", () => ({
+  WORKSPACE_REPO: "workspace",
+  listWorkspaces: vi.fn(() => []),
+  resolveRepoFile: (file: string) =>
+    file.startsWith("/")
+      ? file
+      : file.startsWith("workspace/app/")
+        ? `/home/me/app/${file.slice("workspace/app/".length)}`
+        : `/fake/repos/${file}`,
+  toRepoFile: (path: string) =>
+    path.startsWith("/home/me/app/")
+      ? `workspace/app/${path.slice("/home/me/app/".length)}`
+      : path.slice("/fake/repos/".length),
+}));
+
+import { spawnSync } from "child_process";
 import { existsSync, readFileSync } from "fs";
 import { globbySync } from "globby";
 import { getRepoPath } from "../../src/utils/git.js";
+import { searchIndex } from "../../src/utils/indexer.js";
+import { listWorkspaces } from "../../src/utils/workspace.js";
 import {
+  MAX_MATCHES,
   searchCode,
   searchDocs,
   listExamples,
@@ -32,15 +55,46 @@ import {
   getFileType,
 } from "../../src/utils/search.js";
 
-const mockExecSync = vi.mocked(execSync);
+const mockSpawnSync = vi.mocked(spawnSync);
 const mockExistsSync = vi.mocked(existsSync);
 const mockReadFileSync = vi.mocked(readFileSync);
 const mockGlobbySync = vi.mocked(globbySync);
 const mockGetRepoPath = vi.mocked(getRepoPath);
+const mockSearchIndex = vi.mocked(searchIndex);
+const mockListWorkspaces = vi.mocked(listWorkspaces);
+
+const APP_WORKSPACE = { name: "app", path: "/home/me/app", source: "tool" as const };
+
+/** A finished rg --json run reporting [absolute path, line, text] matches */
+function rgOutput(matches: [string, number, string][]): any {
+  const stdout = matches
+    .map(([path, line, text]) =>
+      JSON.stringify({
+        type: "match",
+        data: { path: { text: path }, lines: { text: `${text}\n` }, line_number: line, submatches: [] },
+      })
+    )
+    .join("\n");
+  return { status: matches.length > 0 ? 0 : 1, stdout, stderr: "" };
+}
+
+const rgMissing = {
+  status: null,
+  stdout: "",
+  stderr: "",
+  error: Object.assign(new Error("spawnSync rg ENOENT"), { code: "ENOENT" }),
+} as any;
+
+/** Arguments of the first rg call */
+function rgArgs(): string[] {
+  return mockSpawnSync.mock.calls[0][1] as string[];
+}
 
 beforeEach(() => {
   vi.clearAllMocks();
   mockGetRepoPath.mockImplementation((name: string) => `/fake/repos/${name}`);
+  mockSearchIndex.mockReturnValue(null);
+  mockListWorkspaces.mockReturnValue([]);
 });
 
 describe("getFileType", () => {
@@ -73,19 +127,64 @@ describe("getFileType", () => {
 describe("searchCode", () => {
   it("returns [] when searchPath doesn't exist", () => {
     mockExistsSync.mockReturnValue(false);
-    const results = searchCode("test");
-    expect(results).toEqual([]);
+    expect(searchCode("test")).toEqual({ results: [], total: 0, totalIsEstimate: false });
+  });
+
+  describe("index path", () => {
+    it("returns ranked results from the index for plain queries", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSearchIndex.mockReturnValue({
+        results: [
+          { file: "aztec-packages/a.nr", line: 3, content: "struct PrivateSet", repo: "aztec-packages", score: 4.2 },
+        ],
+        total: 7,
+      });
+
+      const page = searchCode("PrivateSet", { repo: "aztec-packages", offset: 5, maxResults: 5 });
+
+      expect(page.results[0].score).toBe(4.2);
+      expect(page.total).toBe(7);
+      expect(mockSearchIndex).toHaveBeenCalledWith("PrivateSet", {
+        scope: "aztec-packages",
+        filePattern: "*.nr",
+        offset: 5,
+        maxResults: 5,
+      });
+      expect(mockSpawnSync).not.toHaveBeenCalled();
+    });
+
+    it("skips the index for regex and case-sensitive queries", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgOutput([]));
+
+      searchCode("fn\\s+main");
+      searchCode("main", { caseSensitive: true });
+
+      expect(mockSearchIndex).not.toHaveBeenCalled();
+      expect(mockSpawnSync).toHaveBeenCalledTimes(2);
+    });
+
+    it("falls back to ripgrep when the index has no matches", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSearchIndex.mockReturnValue({ results: [], total: 0 });
+      mockSpawnSync.mockReturnValue(rgOutput([["/fake/repos/r/a.nr", 1, "Priv"]]));
+
+      const { results } = searchCode("Priv");
+      expect(results).toHaveLength(1);
+    });
   });
 
   describe("ripgrep path", () => {
     it("parses rg output correctly", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockReturnValue(
-        "/fake/repos/aztec-packages/src/main.nr:10:fn main() {\n" +
-          "/fake/repos/aztec-packages/src/lib.nr:20:use dep::aztec;\n"
+      mockSpawnSync.mockReturnValue(
+        rgOutput([
+          ["/fake/repos/aztec-packages/src/main.nr", 10, "fn main() {"],
+          ["/fake/repos/aztec-packages/src/lib.nr", 20, "use dep::aztec;"],
+        ])
       );
 
-      const results = searchCode("main");
+      const { results } = searchCode("main");
       expect(results).toHaveLength(2);
       expect(results[0]).toEqual({
         file: "aztec-packages/src/main.nr",
@@ -103,105 +202,208 @@ describe("searchCode", () => {
 
     it("respects maxResults", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockReturnValue(
-        "/fake/repos/r/a.nr:1:line1\n" +
-          "/fake/repos/r/b.nr:2:line2\n" +
-          "/fake/repos/r/c.nr:3:line3\n"
+      mockSpawnSync.mockReturnValue(
+        rgOutput([
+          ["/fake/repos/r/a.nr", 1, "line1"],
+          ["/fake/repos/r/b.nr", 2, "line2"],
+          ["/fake/repos/r/c.nr", 3, "line3"],
+        ])
       );
 
-      const results = searchCode("test", { maxResults: 2 });
+      const { results } = searchCode("test", { maxResults: 2 });
       expect(results).toHaveLength(2);
     });
 
+    it("pages through matches with offset and reports the total", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(
+        rgOutput([
+          ["/fake/repos/r/a.nr", 1, "line1"],
+          ["/fake/repos/r/b.nr", 2, "line2"],
+          ["/fake/repos/r/c.nr", 3, "line3"],
+        ])
+      );
+
+      const page = searchCode("test", { offset: 2, maxResults: 2 });
+      expect(page.results.map((r) => r.file)).toEqual(["r/c.nr"]);
+      expect(page.total).toBe(3);
+      expect(page.totalIsEstimate).toBe(false);
+    });
+
+    it("marks the total as an estimate past MAX_MATCHES", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(
+        rgOutput(Array.from({ length: MAX_MATCHES + 5 }, (_, i): [string, number, string] => ["/fake/repos/r/a.nr", i + 1, "x"]))
+      );
+
+      const page = searchCode("x", { maxResults: 10 });
+      expect(page.total).toBe(MAX_MATCHES);
+      expect(page.totalIsEstimate).toBe(true);
+    });
+
+    it("asks ripgrep for path-sorted output", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgOutput([]));
+
+      searchCode("test");
+
+      expect(rgArgs().join(" ")).toContain("--sort path");
+    });
+
     it("passes -i flag for case-insensitive search", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockReturnValue("");
+      mockSpawnSync.mockReturnValue(rgOutput([]));
 
       searchCode("test", { caseSensitive: false });
 
-      const call = mockExecSync.mock.calls[0][0] as string;
+      const call = rgArgs();
       expect(call).toContain("-i");
     });
 
     it("does not pass -i flag when caseSensitive is true", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockReturnValue("");
+      mockSpawnSync.mockReturnValue(rgOutput([]));
 
       searchCode("test", { caseSensitive: true });
 
-      const call = mockExecSync.mock.calls[0][0] as string;
-      // The -i flag should not appear in the rg flags
-      // The call format is: rg <flags> "<query>" "<path>"
-      const flagsPart = call.split('"')[0];
-      expect(flagsPart).not.toContain("-i");
+      expect(rgArgs()).not.toContain("-i");
+    });
+
+    it("passes the query as a single argument without a shell", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgOutput([]));
+
+      searchCode('-x "$(rm -rf /)" | foo');
+
+      expect(mockSpawnSync.mock.calls[0][0]).toBe("rg");
+      const args = rgArgs();
+      expect(args[args.indexOf("-e") + 1]).toBe('-x "$(rm -rf /)" | foo');
+      expect(mockSpawnSync.mock.calls[0][2]).not.toHaveProperty("shell");
+    });
+
+    it("keeps file paths containing colons intact", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgOutput([["/fake/repos/r/a:b.nr", 7, "x:1:y"]]));
+
+      const { results } = searchCode("x");
+      expect(results[0]).toMatchObject({ file: "r/a:b.nr", line: 7, content: "x:1:y" });
+    });
+
+    it("treats exit 1 as no matches without falling back", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgOutput([]));
+
+      const page = searchCode("nothing");
+
+      expect(page.results).toEqual([]);
+      expect(page.engine).toBe("ripgrep");
+      expect(mockGlobbySync).not.toHaveBeenCalled();
+    });
+
+    it("keeps matches when some files couldn't be read (exit 2)", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue({ ...rgOutput([["/fake/repos/r/a.nr", 1, "x"]]), status: 2 });
+
+      const page = searchCode("x");
+
+      expect(page.results).toHaveLength(1);
+      expect(page.engine).toBe("ripgrep");
+    });
+  });
+
+  describe("context lines", () => {
+    it("attaches surrounding lines when requested", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgOutput([["/fake/repos/r/a.nr", 3, "  three"]]));
+      mockReadFileSync.mockReturnValue("one\ntwo\n  three\nfour\nfive" as any);
+
+      const { results } = searchCode("three", { contextBefore: 2, contextAfter: 1 });
+
+      expect(results[0].contextBefore).toEqual(["one", "two"]);
+      expect(results[0].contextAfter).toEqual(["four"]);
+      expect(mockReadFileSync).toHaveBeenCalledWith("/fake/repos/r/a.nr", "utf-8");
+    });
+
+    it("clips context at file boundaries", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgOutput([["/fake/repos/r/a.nr", 1, "one"]]));
+      mockReadFileSync.mockReturnValue("one\ntwo" as any);
+
+      const { results } = searchCode("one", { contextBefore: 3, contextAfter: 3 });
+
+      expect(results[0].contextBefore).toEqual([]);
+      expect(results[0].contextAfter).toEqual(["two"]);
     });
 
-    it("escapes shell-dangerous chars while preserving regex chars", () => {
+    it("leaves results untouched when no context is requested", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockReturnValue("");
-
-      // Regex chars like |, *, + should be preserved
-      searchCode("foo|bar.*baz+");
-      let call = mockExecSync.mock.calls[0][0] as string;
-      expect(call).toContain("foo|bar.*baz+");
-
-      // Shell-dangerous chars should be escaped
-      mockExecSync.mockClear();
-      searchCode('test"$`\\!');
-      call = mockExecSync.mock.calls[0][0] as string;
-      expect(call).toContain('\\"');
-      expect(call).toContain("\\$");
-      expect(call).toContain("\\`");
-      expect(call).toContain("\\\\");
-      expect(call).toContain("\\!");
+      mockSpawnSync.mockReturnValue(rgOutput([["/fake/repos/r/a.nr", 1, "one"]]));
+
+      const { results } = searchCode("one");
+
+      expect(results[0]).not.toHaveProperty("contextBefore");
+      expect(mockReadFileSync).not.toHaveBeenCalled();
     });
   });
 
   describe("manual fallback", () => {
-    it("activates when execSync throws", () => {
+    it("activates when rg is not installed", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockImplementation(() => {
-        throw new Error("rg not found");
-      });
+      mockSpawnSync.mockReturnValue(rgMissing);
       mockGlobbySync.mockReturnValue([]);
 
-      const results = searchCode("test");
+      const { results } = searchCode("test");
       expect(results).toEqual([]);
       expect(mockGlobbySync).toHaveBeenCalled();
     });
 
+    it("activates when rg fails without matches", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue({ ...rgOutput([]), status: 2, stderr: "regex parse error" });
+      mockGlobbySync.mockReturnValue([]);
+
+      expect(searchCode("[bad").engine).toBe("manual");
+      expect(mockGlobbySync).toHaveBeenCalled();
+    });
+
     it("uses globby to find and search files", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockImplementation(() => {
-        throw new Error("rg not found");
-      });
+      mockSpawnSync.mockReturnValue(rgMissing);
       mockGlobbySync.mockReturnValue(["/fake/repos/myrepo/src/main.nr"]);
       mockReadFileSync.mockReturnValue("line1\nfn test_func() {\nline3" as any);
 
-      const results = searchCode("test_func");
+      const { results } = searchCode("test_func");
       expect(results).toHaveLength(1);
       expect(results[0].content).toBe("fn test_func() {");
       expect(results[0].line).toBe(2);
     });
 
+    it("ignores files a pattern reaches outside the search path", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockSpawnSync.mockReturnValue(rgMissing);
+      mockGlobbySync.mockReturnValue(["/tmp/secret/notes.md", "/fake/repos/myrepo/notes.md"]);
+      mockReadFileSync.mockReturnValue("secret" as any);
+
+      const { results } = searchCode("secret", { filePattern: "../../tmp/secret/*.md" });
+
+      expect(results.map((r) => r.file)).toEqual(["myrepo/notes.md"]);
+      expect(mockReadFileSync).not.toHaveBeenCalledWith("/tmp/secret/notes.md", "utf-8");
+    });
+
     it("handles invalid regex by escaping to literal", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockImplementation(() => {
-        throw new Error("rg not found");
-      });
+      mockSpawnSync.mockReturnValue(rgMissing);
       mockGlobbySync.mockReturnValue(["/fake/repos/myrepo/src/main.nr"]);
       mockReadFileSync.mockReturnValue("line with [invalid regex" as any);
 
       // "[invalid regex" is invalid regex - should be escaped to literal
-      const results = searchCode("[invalid regex");
+      const { results } = searchCode("[invalid regex");
       expect(results).toHaveLength(1);
     });
 
     it("skips unreadable files", () => {
       mockExistsSync.mockReturnValue(true);
-      mockExecSync.mockImplementation(() => {
-        throw new Error("rg not found");
-      });
+      mockSpawnSync.mockReturnValue(rgMissing);
       mockGlobbySync.mockReturnValue([
         "/fake/repos/myrepo/a.nr",
         "/fake/repos/myrepo/b.nr",
@@ -212,13 +414,75 @@ describe("searchCode", () => {
         })
         .mockReturnValueOnce("fn test() {" as any);
 
-      const results = searchCode("test");
+      const { results } = searchCode("test");
       expect(results).toHaveLength(1);
       expect(results[0].file).toBe("myrepo/b.nr");
     });
   });
 });
 
+describe("searchCode with workspaces", () => {
+  beforeEach(() => {
+    mockExistsSync.mockReturnValue(true);
+    mockListWorkspaces.mockReturnValue([APP_WORKSPACE]);
+  });
+
+  it("lists workspace matches first, labelled 'workspace'", () => {
+    mockSpawnSync
+      .mockReturnValueOnce(rgOutput([["/home/me/app/src/main.nr", 4, "fn transfer()"]]))
+      .mockReturnValueOnce(rgOutput([["/fake/repos/aztec-examples/src/main.nr", 9, "fn transfer()"]]));
+
+    const page = searchCode("fn\\s+transfer");
+
+    expect(page.total).toBe(2);
+    expect(page.results.map((r) => [r.repo, r.file])).toEqual([
+      ["workspace", "workspace/app/src/main.nr"],
+      ["aztec-examples", "aztec-examples/src/main.nr"],
+    ]);
+    expect(mockSpawnSync.mock.calls[0][1]).toContain("/home/me/app");
+  });
+
+  it("pages past the workspace matches into the repos", () => {
+    mockSearchIndex.mockReturnValue({
+      results: [{ file: "aztec-packages/a.nr", line: 1, content: "transfer", repo: "aztec-packages", score: 1 }],
+      total: 3,
+    });
+    mockSpawnSync.mockReturnValue(
+      rgOutput([
+        ["/home/me/app/a.nr", 1, "transfer"],
+        ["/home/me/app/b.nr", 1, "transfer"],
+      ])
+    );
+
+    const page = searchCode("transfer", { offset: 1, maxResults: 2 });
+
+    expect(page.total).toBe(5);
+    expect(page.results.map((r) => r.file)).toEqual(["workspace/app/b.nr", "aztec-packages/a.nr"]);
+    expect(page.engine).toBe("index");
+    expect(mockSearchIndex).toHaveBeenCalledWith("transfer", expect.objectContaining({ offset: 0, maxResults: 1 }));
+  });
+
+  it("searches only the workspaces with repo 'workspace'", () => {
+    mockSpawnSync.mockReturnValue(rgOutput([["/home/me/app/src/main.nr", 4, "fn transfer()"]]));
+
+    const page = searchCode("transfer", { repo: "workspace" });
+
+    expect(page.results).toHaveLength(1);
+    expect(page.engine).toBe("ripgrep");
+    expect(mockSpawnSync).toHaveBeenCalledTimes(1);
+    expect(mockSearchIndex).not.toHaveBeenCalled();
+  });
+
+  it("leaves workspaces out when another repo is named", () => {
+    mockSpawnSync.mockReturnValue(rgOutput([]));
+
+    searchCode("fn\\s+transfer", { repo: "aztec-packages" });
+
+    expect(mockSpawnSync).toHaveBeenCalledTimes(1);
+    expect(mockSpawnSync.mock.calls[0][1]).toContain("/fake/repos/aztec-packages");
+  });
+});
+
 describe("searchDocs", () => {
   beforeEach(() => {
     mockGetRepoPath.mockImplementation((name: string) => `/fake/repos/${name}`);
@@ -226,22 +490,51 @@ describe("searchDocs", () => {
 
   it("delegates to searchCode with *.{md,mdx} pattern", () => {
     mockExistsSync.mockReturnValue(true);
-    mockExecSync.mockReturnValue("");
+    mockSpawnSync.mockReturnValue(rgOutput([]));
 
     searchDocs("tutorial");
 
-    const call = mockExecSync.mock.calls[0][0] as string;
-    expect(call).toContain("*.{md,mdx}");
+    expect(rgArgs()).toContain("*.{md,mdx}");
   });
 
   it("narrows path when section exists", () => {
     mockExistsSync.mockReturnValue(true);
-    mockExecSync.mockReturnValue("");
+    mockSpawnSync.mockReturnValue(rgOutput([]));
 
     searchDocs("tutorial", { section: "tutorials" });
 
-    const call = mockExecSync.mock.calls[0][0] as string;
-    expect(call).toContain("aztec-packages/docs/docs/tutorials");
+    expect(rgArgs()).toContain("/fake/repos/aztec-packages/docs/docs/tutorials");
+  });
+
+  it("labels matches with page title and breadcrumb", () => {
+    mockExistsSync.mockReturnValue(true);
+    mockSpawnSync.mockReturnValue(
+      rgOutput([["/fake/repos/aztec-packages/docs/docs/a.md", 5, "private state"]])
+    );
+    mockReadFileSync.mockReturnValue("# Storage\n\nintro\n\n## Private state\nprivate state\n" as any);
+
+    const { results } = searchDocs("private");
+
+    expect(results[0].pageTitle).toBe("Storage");
+    expect(results[0].breadcrumb).toEqual(["Storage", "Private state"]);
+    expect(results[0].url).toBe("https://docs.aztec.network/a");
+    expect(results[0].sectionContent).toBeUndefined();
+  });
+
+  it("returns one result per section with fullSection", () => {
+    mockExistsSync.mockReturnValue(true);
+    mockSpawnSync.mockReturnValue(
+      rgOutput([
+        ["/fake/repos/aztec-packages/docs/docs/a.md", 5, "notes"],
+        ["/fake/repos/aztec-packages/docs/docs/a.md", 6, "more notes"],
+      ])
+    );
+    mockReadFileSync.mockReturnValue("# Storage\n\nintro\n\n## Notes\nnotes\nmore notes\n" as any);
+
+    const { results } = searchDocs("notes", { fullSection: true });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].sectionContent).toBe("## Notes\nnotes\nmore notes");
   });
 
   it("falls back to aztec-packages when section doesn't exist", () => {
@@ -249,13 +542,12 @@ describe("searchDocs", () => {
     mockExistsSync
       .mockReturnValueOnce(false) // section path doesn't exist
       .mockReturnValueOnce(true); // search path exists
-    mockExecSync.mockReturnValue("");
+    mockSpawnSync.mockReturnValue(rgOutput([]));
 
     searchDocs("tutorial", { section: "nonexistent" });
 
-    const call = mockExecSync.mock.calls[0][0] as string;
     // Should search in aztec-packages, not the nonexistent section
-    expect(call).toContain("/fake/repos/aztec-packages");
+    expect(rgArgs()).toContain("/fake/repos/aztec-packages");
   });
 });
 
@@ -320,6 +612,14 @@ describe("readFile", () => {
     );
   });
 
+  it("reads workspace paths from the workspace directory", () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue("file content" as any);
+
+    readFile("workspace/app/src/main.nr");
+    expect(mockReadFileSync).toHaveBeenCalledWith("/home/me/app/src/main.nr", "utf-8");
+  });
+
   it("returns null when file doesn't exist", () => {
     mockExistsSync.mockReturnValue(false);
     const result = readFile("nonexistent.nr");
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/utils/search.js", () => ({
+  listExamples: vi.fn(),
+  readFile: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  readHeadCommit: vi.fn(),
+}));
+
+import { listExamples, readFile } from "../../src/utils/search.js";
+import { readHeadCommit } from "../../src/utils/git.js";
+import { codeTokens, codeFeatures, findSimilar } from "../../src/utils/similarity.js";
+
+const mockListExamples = vi.mocked(listExamples);
+const mockReadFile = vi.mocked(readFile);
+const mockReadHeadCommit = vi.mocked(readHeadCommit);
+
+const TOKEN = `contract Token {
+    #[external("public")]
+    fn mint_to_public(to: AztecAddress, amount: u128) {
+        let supply = storage.total_supply.read() + amount;
+        storage.public_balances.at(to).write(storage.public_balances.at(to).read() + amount);
+        storage.total_supply.write(supply);
+    }
+}
+`;
+
+const COUNTER = `contract Counter {
+    #[external("private")]
+    fn increment(owner: AztecAddress) {
+        let counters = storage.counters;
+        counters.at(owner).add(1, owner);
+        emit_note(counters.at(owner), owner);
+    }
+}
+`;
+
+let commit = 0;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  // A new commit per test so the corpus is rebuilt from this test's files
+  commit++;
+  mockReadHeadCommit.mockReturnValue(String(commit));
+  mockListExamples.mockReturnValue([
+    { path: "aztec-examples/token/src/main.nr", name: "token", repo: "aztec-examples", type: "contract" },
+    { path: "aztec-examples/counter/src/main.nr", name: "counter", repo: "aztec-examples", type: "contract" },
+  ]);
+  mockReadFile.mockImplementation((path) => (path.includes("token") ? TOKEN : COUNTER));
+});
+
+describe("codeTokens", () => {
+  it("drops comments and collapses literals", () => {
+    expect(codeTokens('let x = 42; // note\nassert(y == "hi");')).toEqual([
+      "let", "x", "=", "NUM", ";", "assert", "(", "y", "==", "STR", ")", ";",
+    ]);
+  });
+});
+
+describe("codeFeatures", () => {
+  it("counts identifier unigrams and token shingles", () => {
+    const features = codeFeatures(["a", "(", "b", ")"]);
+    expect(features.get("a")).toBe(1);
+    expect(features.get("a ( b")).toBe(1);
+    expect(features.get("( b )")).toBe(1);
+    expect(features.has("(")).toBe(false);
+  });
+});
+
+describe("findSimilar", () => {
+  it("ranks the function that resembles the snippet first", () => {
+    const matches = findSimilar(
+      "fn mint(to: AztecAddress, value: u128) {\n  storage.public_balances.at(to).write(storage.public_balances.at(to).read() + value);\n}",
+      { kind: "fn" }
+    );
+
+    expect(matches[0]).toMatchObject({
+      name: "mint_to_public",
+      kind: "fn",
+      container: "Token",
+      file: "aztec-examples/token/src/main.nr",
+      line: 3,
+      endLine: 7,
+    });
+    expect(matches[0].score).toBeGreaterThan(matches[1]?.score ?? 0);
+  });
+
+  it("includes whole contracts and can exclude a file", () => {
+    const matches = findSimilar(COUNTER, { kind: "contract", exclude: "aztec-examples/counter/src/main.nr" });
+    expect(matches.map((m) => m.name)).toEqual(["Token"]);
+  });
+
+  it("returns nothing for an empty snippet", () => {
+    expect(findSimilar("   ")).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("fs", () => ({
+  readFileSync: vi.fn(),
+  statSync: vi.fn(() => ({ mtimeMs: 1 })),
+}));
+
+vi.mock("globby", () => ({
+  globbySync: vi.fn(),
+}));
+
+vi.mock("../../src/utils/git.js", () => ({
+  getVersionDir: () => "/fake/repos",
+  getRepoPath: vi.fn((name: string) => `/fake/repos/${name}`),
+  listClonedRepos: vi.fn(() => []),
+  readHeadCommit: vi.fn(() => "abc123"),
+}));
+
+vi.mock("../../src/utils/workspace.js", () => ({
+  WORKSPACE_REPO: "workspace",
+  listWorkspaces: vi.fn(() => []),
+  toRepoFile: (path: string) => path.replace("/home/me/app/", "workspace/app/"),
+}));
+
+import { readFileSync, statSync } from "fs";
+import { globbySync } from "globby";
+import { listClonedRepos, readHeadCommit } from "../../src/utils/git.js";
+import { listWorkspaces } from "../../src/utils/workspace.js";
+import { parseNoirSymbols, getRepoSymbols, getWorkspaceSymbols, findSymbols } from "../../src/utils/symbols.js";
+
+const mockReadFileSync = vi.mocked(readFileSync);
+const mockGlobbySync = vi.mocked(globbySync);
+const mockListClonedRepos = vi.mocked(listClonedRepos);
+const mockReadHeadCommit = vi.mocked(readHeadCommit);
+const mockStatSync = vi.mocked(statSync);
+const mockListWorkspaces = vi.mocked(listWorkspaces);
+
+const APP_WORKSPACE = { name: "app", path: "/home/me/app", source: "tool" as const };
+
+const SOURCE = `use dep::aztec::macros::aztec;
+
+/// A set of private notes
+/// owned by one account.
+pub struct PrivateSet<Note, Context> {
+    pub context: Context,
+}
+
+impl<Note, Context> PrivateSet<Note, Context> {
+    /// Insert a note into the set
+    pub fn insert(self, note: Note) -> NoteEmission<Note> {
+        let s = "{ not a brace";
+        emit(note)
+    }
+
+    pub unconstrained fn view_notes(
+        self,
+        options: NoteViewerOptions<Note>,
+    ) -> BoundedVec<Note, MAX> {
+        view(options)
+    }
+}
+
+impl NoteInterface for ValueNote {
+    fn compute_nullifier(self) -> Field { 0 }
+}
+
+pub global MAX_NOTES: u32 = 10;
+
+mod test;
+
+#[aztec]
+pub contract Token {
+    #[external("private")]
+    fn transfer(to: AztecAddress, amount: u128) {}
+}
+
+fn outside() {}
+`;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockReadHeadCommit.mockReturnValue("abc123");
+});
+
+describe("parseNoirSymbols", () => {
+  const symbols = parseNoirSymbols(SOURCE, "lib/src/set.nr", "lib");
+  const byName = (name: string) => symbols.find((s) => s.name === name)!;
+
+  it("records every supported declaration kind", () => {
+    expect(symbols.map((s) => `${s.kind} ${s.name}`)).toEqual([
+      "struct PrivateSet",
+      "impl PrivateSet",
+      "fn insert",
+      "fn view_notes",
+      "impl ValueNote",
+      "fn compute_nullifier",
+      "global MAX_NOTES",
+      "mod test",
+      "contract Token",
+      "fn transfer",
+      "fn outside",
+    ]);
+  });
+
+  it("captures doc comments, file, and line", () => {
+    expect(byName("PrivateSet")).toMatchObject({
+      doc: "A set of private notes\nowned by one account.",
+      file: "lib/src/set.nr",
+      line: 5,
+      repo: "lib",
+    });
+    expect(byName("insert").doc).toBe("Insert a note into the set");
+  });
+
+  it("collapses multi-line signatures", () => {
+    expect(byName("view_notes").signature).toBe(
+      "pub unconstrained fn view_notes(self, options: NoteViewerOptions<Note>,) -> BoundedVec<Note, MAX>"
+    );
+    expect(byName("MAX_NOTES").signature).toBe("pub global MAX_NOTES: u32 = 10;");
+  });
+
+  it("tracks the enclosing impl, trait, or contract", () => {
+    expect(byName("insert").container).toBe("PrivateSet");
+    expect(byName("view_notes").container).toBe("PrivateSet");
+    expect(byName("compute_nullifier").container).toBe("ValueNote");
+    expect(byName("transfer").container).toBe("Token");
+    expect(byName("outside").container).toBeUndefined();
+  });
+
+  it("skips attributes when reading signatures", () => {
+    expect(byName("transfer").signature).toBe("fn transfer(to: AztecAddress, amount: u128)");
+  });
+});
+
+describe("findSymbols", () => {
+  beforeEach(() => {
+    mockListClonedRepos.mockReturnValue(["lib"]);
+    mockGlobbySync.mockReturnValue(["/fake/repos/lib/src/set.nr", "/fake/repos/lib/src/test/mock.nr"]);
+    mockReadFileSync.mockImplementation(((p: string) =>
+      p.endsWith("mock.nr") ? "pub fn insert() {}\nfn insert_all() {}" : SOURCE) as any);
+  });
+
+  it("ranks exact matches first and test files last", () => {
+    mockReadHeadCommit.mockReturnValue("rank");
+    const results = findSymbols("insert");
+    expect(results.map((s) => `${s.file}:${s.name}`)).toEqual([
+      "lib/src/set.nr:insert",
+      "lib/src/test/mock.nr:insert",
+      "lib/src/test/mock.nr:insert_all",
+    ]);
+  });
+
+  it("filters by kind and Container::name", () => {
+    mockReadHeadCommit.mockReturnValue("filter");
+    expect(findSymbols("PrivateSet", { kind: "struct" })).toHaveLength(1);
+    expect(findSymbols("PrivateSet::insert").map((s) => s.file)).toEqual(["lib/src/set.nr"]);
+  });
+
+  it("caches parsed symbols until the commit changes", () => {
+    mockReadHeadCommit.mockReturnValue("cache1");
+    getRepoSymbols("lib");
+    getRepoSymbols("lib");
+    expect(mockGlobbySync).toHaveBeenCalledTimes(1);
+
+    mockReadHeadCommit.mockReturnValue("cache2");
+    getRepoSymbols("lib");
+    expect(mockGlobbySync).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("workspace symbols", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockListClonedRepos.mockReturnValue([]);
+    mockGlobbySync.mockReturnValue(["/home/me/app/src/main.nr"]);
+    mockReadFileSync.mockReturnValue("pub fn insert() {}" as any);
+  });
+
+  it("labels workspace declarations with the workspace repo", () => {
+    mockListWorkspaces.mockReturnValue([APP_WORKSPACE]);
+
+    expect(findSymbols("insert")).toEqual([
+      expect.objectContaining({ file: "workspace/app/src/main.nr", repo: "workspace" }),
+    ]);
+
+    mockListClonedRepos.mockClear();
+    expect(findSymbols("insert", { repo: "workspace" })).toHaveLength(1);
+    expect(mockListClonedRepos).not.toHaveBeenCalled();
+  });
+
+  it("re-parses a file only when it changes", () => {
+    mockStatSync.mockReturnValue({ mtimeMs: 10 } as any);
+    getWorkspaceSymbols(APP_WORKSPACE);
+    getWorkspaceSymbols(APP_WORKSPACE);
+    expect(mockReadFileSync).toHaveBeenCalledTimes(1);
+
+    mockStatSync.mockReturnValue({ mtimeMs: 11 } as any);
+    getWorkspaceSymbols(APP_WORKSPACE);
+    expect(mockReadFileSync).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../../src/utils/git.js", () => ({
+  getVersionDir: () => "/fake/repos/v1.0.0",
+}));
+
+import {
+  addWorkspace,
+  listWorkspaces,
+  removeWorkspace,
+  resolveRepoFile,
+  setWorkspaces,
+  toRepoFile,
+} from "../../src/utils/workspace.js";
+
+const ROOT = mkdtempSync(join(tmpdir(), "aztec-workspace-"));
+const APP = join(ROOT, "app");
+const OTHER_APP = join(ROOT, "other", "app");
+
+mkdirSync(APP, { recursive: true });
+mkdirSync(OTHER_APP, { recursive: true });
+
+beforeEach(() => {
+  setWorkspaces([], "tool");
+  setWorkspaces([], "roots");
+});
+
+afterAll(() => {
+  rmSync(ROOT, { recursive: true, force: true });
+});
+
+describe("addWorkspace", () => {
+  it("names workspaces after their directory, keeping names unique", () => {
+    expect(addWorkspace(APP, "tool").name).toBe("app");
+    expect(addWorkspace(OTHER_APP, "tool").name).toBe("app-2");
+  });
+
+  it("returns the existing workspace for a directory added twice", () => {
+    const first = addWorkspace(APP, "tool");
+    expect(addWorkspace(`${APP}/`, "roots")).toBe(first);
+    expect(listWorkspaces()).toHaveLength(1);
+  });
+
+  it("rejects paths that aren't directories", () => {
+    expect(() => addWorkspace(join(ROOT, "missing"), "tool")).toThrow("Not a directory");
+  });
+});
+
+describe("removeWorkspace", () => {
+  it("removes by name or directory", () => {
+    addWorkspace(APP, "tool");
+    addWorkspace(OTHER_APP, "tool");
+
+    expect(removeWorkspace("app")).toBe(true);
+    expect(removeWorkspace(OTHER_APP)).toBe(true);
+    expect(removeWorkspace("app")).toBe(false);
+    expect(listWorkspaces()).toEqual([]);
+  });
+});
+
+describe("setWorkspaces", () => {
+  it("replaces only the workspaces from the same source", () => {
+    addWorkspace(APP, "tool");
+    setWorkspaces([OTHER_APP, join(ROOT, "missing")], "roots");
+    setWorkspaces([OTHER_APP], "roots");
+
+    expect(listWorkspaces().map((w) => [w.path, w.source])).toEqual([
+      [APP, "tool"],
+      [OTHER_APP, "roots"],
+    ]);
+  });
+});
+
+describe("resolveRepoFile / toRepoFile", () => {
+  it("maps workspace paths to and from the workspace directory", () => {
+    addWorkspace(APP, "tool");
+
+    expect(resolveRepoFile("workspace/app/src/main.nr")).toBe(join(APP, "src/main.nr"));
+    expect(toRepoFile(join(APP, "src/main.nr"))).toBe("workspace/app/src/main.nr");
+  });
+
+  it("resolves other paths against the version directory", () => {
+    expect(resolveRepoFile("noir/README.md")).toBe("/fake/repos/v1.0.0/noir/README.md");
+    expect(resolveRepoFile("workspace/unknown/a.nr")).toBe("/fake/repos/v1.0.0/workspace/unknown/a.nr");
+    expect(toRepoFile("/fake/repos/v1.0.0/noir/README.md")).toBe("noir/README.md");
+  });
+});